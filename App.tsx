@@ -1,12 +1,87 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Product } from './types';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { AppSettings, CatalogItem, ImportOptions, Product, ProductEntry } from './types';
 import Dashboard from './components/Dashboard';
 import ProductList from './components/ProductList';
 import ProductForm from './components/ProductForm';
 import SmartAdd from './components/SmartAdd';
+import Settings from './components/Settings';
+import StorageRecovery from './components/StorageRecovery';
+import SyncStatusBadge from './components/SyncStatusBadge';
+import SyncConflicts from './components/SyncConflicts';
+import ImportWizard, { SheetImport } from './components/ImportWizard';
+import BackupRestore from './components/BackupRestore';
+import Catalog from './components/Catalog';
+import ScanReview from './components/ScanReview';
+import UpdatePrompt from './components/UpdatePrompt';
+import UndoToast from './components/UndoToast';
 import { generateId } from './utils/helpers';
-import { parseExcelFile, exportToExcel, downloadImportTemplate, ImportResult } from './utils/excelParser';
+import { ListScope, ProductFilter, ProductGroup } from './utils/productFilters';
+import { BulkAction, applyBulkAction, describeBulkAction } from './utils/bulkActions';
+import { UndoEntry, captureUndo, restoreProducts } from './utils/undo';
+import { TrashedProduct, emptyTrash, moveToTrash, purgeTrash, removeFromTrash } from './services/trashBin';
+import { DEFAULT_LIST_VIEW, hasListView, replaceSearch, serializeListView } from './utils/listView';
+import { mergeEntries } from './utils/lots';
+import { DEFAULT_IMPORT_OPTIONS, layoutOptions, planImport } from './utils/importPlan';
+import { applyLotEdits, recordMovement, MovementInput } from './utils/ledger';
+import { DEFAULT_SETTINGS } from './utils/settings';
+import { catalogFromSpreadsheet, exportCatalog, learnCatalog, mergeCatalogItems } from './utils/catalog';
+import {
+  loadInventory,
+  persistProductChanges,
+  saveSettings,
+  deleteProductRecords,
+  archiveLegacyKey,
+  StorageFailure,
+  InvalidRecord
+} from './services/inventoryRepository';
+import {
+  runSync,
+  trackLocalChanges,
+  applyRemoteChanges,
+  countPending,
+  loadConflicts,
+  dismissConflict,
+  applyFieldValue,
+  RemoteApplied,
+  StoredConflict,
+  SyncStatus
+} from './services/syncClient';
+import {
+  createBackup,
+  downloadBackup,
+  parseBackup,
+  mergeBackupProducts,
+  listSnapshots,
+  saveSnapshot,
+  deleteSnapshot,
+  BackupFile,
+  RestoreMode,
+  Snapshot
+} from './services/backupService';
+import { listCatalog, saveCatalogItems, deleteCatalogItem } from './services/catalogService';
+import { loadSession } from './services/receivingSession';
+import { validateRecognition } from './services/labelRecognition';
+import { QueuedScan, listQueuedScans, processScanQueue, removeQueuedScan } from './services/scanQueue';
+import { registerServiceWorker } from './services/serviceWorker';
+import {
+  runExpiryCheck,
+  schedulePeriodicCheck,
+  readProductsFilter,
+  PRODUCTS_PARAM,
+  OPEN_PRODUCTS_MESSAGE
+} from './services/notificationService';
+import {
+  readSpreadsheet,
+  suggestMapping,
+  layoutSignature,
+  exportToExcel,
+  downloadImportTemplate,
+  ImportDiagnostics,
+  ImportEntry,
+  SpreadsheetData,
+  ColumnMapping
+} from './utils/excelParser';
 import { 
   Plus, 
   LayoutDashboard, 
@@ -19,33 +94,432 @@ import {
   AlertOctagon,
   CheckCircle2,
   X,
-  FileSpreadsheet
+  FileSpreadsheet,
+  SlidersHorizontal,
+  ArchiveRestore,
+  Sheet,
+  BookOpen
 } from 'lucide-react';
 
+const notificationScope = (productIds: string[]): ListScope => ({
+  label: `Mostrando ${productIds.length} produto(s) da notificação`,
+  filter: { productIds }
+});
+
+// Intervalo entre verificações de instantâneo automático
+const SNAPSHOT_CHECK_MS = 15 * 60 * 1000;
+// Com o app aberto as notificações são verificadas aqui, sem depender do navegador
+const NOTIFICATION_CHECK_MS = 15 * 60 * 1000;
+// Nova tentativa de registrar alterações para a sincronização após uma falha
+const TRACK_RETRY_MS = 30 * 1000;
+
 const App: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
+  // Recebimento iniciado e ainda não salvo (inclusive antes de recarregar a página)
+  const [hasOpenSession, setHasOpenSession] = useState(() => Boolean(loadSession()));
   const [isImporting, setIsImporting] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
-  const [activeTab, setActiveTab] = useState<'DASHBOARD' | 'INVENTORY'>('DASHBOARD');
+  const [formPrefill, setFormPrefill] = useState<Partial<ProductEntry> | null>(null);
+  // Link com filtros da lista (favorito, notificação) abre direto nos itens
+  const [activeTab, setActiveTab] = useState<'DASHBOARD' | 'INVENTORY' | 'CATALOG' | 'SETTINGS'>(() =>
+    hasListView(window.location.search) || readProductsFilter(window.location.search) ? 'INVENTORY' : 'DASHBOARD'
+  );
   
-  const [importSummary, setImportSummary] = useState<ImportResult | null>(null);
+  const [importSummary, setImportSummary] = useState<{ imported: number; sheets: ImportDiagnostics[] } | null>(null);
   const [importError, setImportError] = useState<{message: string, diagnostics: any} | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ data: SpreadsheetData; mappings: Record<string, ColumnMapping>; options: ImportOptions; isSavedLayout: boolean } | null>(null);
+  
+  const [loadState, setLoadState] = useState<'LOADING' | 'READY' | 'RECOVERY'>('LOADING');
+  const [storageFailure, setStorageFailure] = useState<StorageFailure | null>(null);
+  const [invalidRecords, setInvalidRecords] = useState<InvalidRecord[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'disabled', pending: 0 });
+  const [conflicts, setConflicts] = useState<StoredConflict[]>([]);
+  const [isSyncPanelOpen, setIsSyncPanelOpen] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<BackupFile | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  // null até o catálogo ser lido, para o aprendizado não partir de uma lista vazia
+  const [catalog, setCatalog] = useState<CatalogItem[] | null>(null);
+  const [listFilter, setListFilter] = useState<Partial<ProductFilter> | null>(null);
+  const [listScope, setListScope] = useState<ListScope | null>(() => {
+    const productIds = readProductsFilter(window.location.search);
+    return productIds && notificationScope(productIds);
+  });
+  const [swRegistration, setSwRegistration] = useState<ServiceWorkerRegistration | null>(null);
+  const [backgroundNotifications, setBackgroundNotifications] = useState(false);
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [offlineReady, setOfflineReady] = useState(false);
+  const [queuedScans, setQueuedScans] = useState<QueuedScan[]>([]);
+  const [reviewingScan, setReviewingScan] = useState<QueuedScan | null>(null);
+  // Só a última alteração pode ser desfeita
+  const [undoEntry, setUndoEntry] = useState<UndoEntry | null>(null);
+  const [trash, setTrash] = useState<TrashedProduct[]>([]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const STORAGE_KEY = 'vencimentos_v4_storage';
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  // Último estado gravado com sucesso no IndexedDB, para gravar só o que mudou;
+  // numa falha ele não avança, e a próxima gravação repete os registros perdidos
+  const persistedRef = useRef<Product[]>([]);
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Último estado já carimbado para a sincronização; só avança quando o carimbo é gravado
+  const trackedRef = useRef<Product[]>([]);
+  const trackQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const trackRetryRef = useRef<number | null>(null);
+  const productsRef = useRef<Product[]>([]);
+  const remoteAppliedRef = useRef<RemoteApplied>({ products: new WeakSet(), removedIds: new Set() });
+  const syncTimerRef = useRef<number | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const updateAppRef = useRef<() => Promise<void>>(async () => {});
+
+  const loadFromStorage = useCallback(async () => {
+    setLoadState('LOADING');
+    try {
+      const loaded = await loadInventory();
+      persistedRef.current = loaded.products;
+      trackedRef.current = loaded.products;
+      setProducts(loaded.products);
+      setSettings(loaded.settings);
+      setInvalidRecords(loaded.invalid);
+      setStorageFailure(null);
+      setLoadState(loaded.invalid.length > 0 ? 'RECOVERY' : 'READY');
+    } catch (err: any) {
+      setStorageFailure(err);
+      setLoadState('RECOVERY');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFromStorage();
+  }, [loadFromStorage]);
+
+  useEffect(() => {
+    if (loadState !== 'READY') return;
+    productsRef.current = products;
+    // Em fila: cada gravação compara com o que a anterior de fato gravou
+    persistQueueRef.current = persistQueueRef.current.then(() =>
+      persistProductChanges(persistedRef.current, products)
+        .then(() => {
+          persistedRef.current = products;
+          setSaveError(null);
+        })
+        .catch((err: StorageFailure) => setSaveError(err.message))
+    );
+    trackChanges();
+  }, [products, loadState]);
+
+  const syncNow = useCallback(async () => {
+    if (!settings.sync.enabled) return;
+    if (!navigator.onLine) {
+      setSyncStatus(s => ({ ...s, state: 'offline', message: undefined }));
+      return;
+    }
+    setSyncStatus(s => ({ ...s, state: 'syncing' }));
+    try {
+      const outcome = await runSync(settings.sync, productsRef.current);
+      if (outcome.upserts.length > 0 || outcome.removedIds.length > 0) {
+        outcome.upserts.forEach(p => remoteAppliedRef.current.products.add(p));
+        outcome.removedIds.forEach(id => remoteAppliedRef.current.removedIds.add(id));
+        setProducts(prev => applyRemoteChanges(prev, outcome.upserts, outcome.removedIds));
+      }
+      setConflicts(await loadConflicts());
+      setSyncStatus({ state: 'idle', pending: outcome.pending, lastSyncedAt: Date.now() });
+    } catch (err: any) {
+      const pending = await countPending().catch(() => 0);
+      setSyncStatus(s => ({
+        ...s,
+        pending,
+        state: navigator.onLine ? 'error' : 'offline',
+        message: navigator.onLine ? (err?.message || 'Falha ao sincronizar.') : undefined
+      }));
+    }
+  }, [settings.sync]);
+
+  const syncNowRef = useRef(syncNow);
+  syncNowRef.current = syncNow;
+
+  /**
+   * Carimba para a sincronização o que mudou desde o último estado carimbado.
+   * Se a gravação falhar, nada é descartado: o aviso aparece no status e a
+   * próxima tentativa parte do mesmo ponto.
+   */
+  const trackChanges = () => {
+    trackQueueRef.current = trackQueueRef.current.then(async () => {
+      const next = productsRef.current;
+      try {
+        await trackLocalChanges(trackedRef.current, next, remoteAppliedRef.current);
+        trackedRef.current = next;
+        scheduleSync();
+      } catch (err: any) {
+        setSyncStatus(s => ({
+          ...s,
+          state: 'error',
+          message: `Alterações ainda não registradas para sincronizar (${err?.message || 'falha no banco local'}). Tentando de novo.`
+        }));
+        if (trackRetryRef.current) window.clearTimeout(trackRetryRef.current);
+        trackRetryRef.current = window.setTimeout(() => trackChangesRef.current(), TRACK_RETRY_MS);
+      }
+    });
+  };
+  const trackChangesRef = useRef(trackChanges);
+  trackChangesRef.current = trackChanges;
+
+  // Agrupa alterações locais próximas em uma única sincronização
+  const scheduleSync = () => {
+    if (syncTimerRef.current) window.clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = window.setTimeout(() => syncNowRef.current(), 2000);
+  };
+
+  useEffect(() => {
+    if (loadState !== 'READY') return;
+    if (!settings.sync.enabled) {
+      setSyncStatus({ state: 'disabled', pending: 0 });
+      return;
+    }
+    syncNow();
+    const interval = window.setInterval(syncNow, 30000);
+    const goOnline = () => syncNow();
+    const goOffline = () => setSyncStatus(s => ({ ...s, state: 'offline', message: undefined }));
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [syncNow, loadState]);
+
+  useEffect(() => {
+    if (loadState !== 'READY') return;
+    saveSettings(settings).catch(err => setSaveError(err?.message || 'Falha ao salvar ajustes.'));
+  }, [settings, loadState]);
+
+  useEffect(() => {
+    if (loadState !== 'READY') return;
+    listCatalog().then(setCatalog).catch(() => setCatalog([]));
+  }, [loadState]);
+
+  // Produtos cadastrados, importados ou escaneados alimentam o catálogo
+  useEffect(() => {
+    if (loadState !== 'READY' || !catalog) return;
+    const learned = learnCatalog(products, catalog);
+    if (learned.length === 0) return;
+    saveCatalogItems(learned)
+      .then(() => setCatalog(prev => mergeCatalogItems(prev || [], learned)))
+      .catch(() => {});
+  }, [products, catalog, loadState]);
+
+  const handleCatalogSave = async (item: CatalogItem, previousBarcode?: string) => {
+    if (previousBarcode && previousBarcode !== item.barcode) await deleteCatalogItem(previousBarcode);
+    await saveCatalogItems([item]);
+    setCatalog(prev => mergeCatalogItems((prev || []).filter(i => i.barcode !== previousBarcode), [item]));
+  };
+
+  const handleCatalogDelete = async (barcode: string) => {
+    await deleteCatalogItem(barcode);
+    setCatalog(prev => (prev || []).filter(i => i.barcode !== barcode));
+  };
+
+  const handleCatalogImport = async (file: File) => {
+    const { items, skipped } = catalogFromSpreadsheet(await readSpreadsheet(file));
+    await saveCatalogItems(items);
+    setCatalog(prev => mergeCatalogItems(prev || [], items));
+    return { imported: items.length, skipped };
+  };
+
+  const refreshSnapshots = () => listSnapshots().then(setSnapshots).catch(() => {});
+
+  // Abrir o app (ou mudar o prazo) já descarta o que venceu na lixeira
+  const refreshTrash = () => purgeTrash(settingsRef.current.trash.retentionDays).then(setTrash).catch(() => {});
 
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try { setProducts(JSON.parse(saved)); } catch (e) {}
+    if (loadState !== 'READY') return;
+    refreshTrash();
+  }, [loadState, settings.trash.retentionDays]);
+
+  const takeSnapshot = async () => {
+    try {
+      await saveSnapshot(productsRef.current, settingsRef.current, settingsRef.current.backup.keep);
+      await refreshSnapshots();
+    } catch (err: any) {
+      setBackupError(err?.message || 'Falha ao criar instantâneo.');
     }
+  };
+
+  useEffect(() => {
+    if (loadState !== 'READY') return;
+    refreshSnapshots();
+    if (!settings.backup.autoSnapshots) return;
+    const check = async () => {
+      const [latest] = await listSnapshots();
+      if (latest && Date.now() - latest.createdAt < settings.backup.intervalHours * 60 * 60 * 1000) return;
+      await takeSnapshot();
+    };
+    check().catch(() => {});
+    const interval = window.setInterval(() => check().catch(() => {}), SNAPSHOT_CHECK_MS);
+    return () => window.clearInterval(interval);
+  }, [loadState, settings.backup]);
+
+  useEffect(() => {
+    if (listScope) setActiveTab('INVENTORY');
+    updateAppRef.current = registerServiceWorker({
+      onRegistered: setSwRegistration,
+      onNeedRefresh: () => setUpdateAvailable(true),
+      onOfflineReady: () => setOfflineReady(true)
+    });
+    if (!('serviceWorker' in navigator)) return;
+    // Clique numa notificação com o app já aberto
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type !== OPEN_PRODUCTS_MESSAGE) return;
+      openInventory(notificationScope(event.data.productIds));
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(products));
-  }, [products]);
+    if (loadState !== 'READY' || !swRegistration || !settings.notifications.enabled) return;
+    schedulePeriodicCheck(swRegistration).then(setBackgroundNotifications);
+    const check = () => runExpiryCheck(swRegistration, productsRef.current, settingsRef.current).catch(() => {});
+    check();
+    const interval = window.setInterval(check, NOTIFICATION_CHECK_MS);
+    return () => window.clearInterval(interval);
+  }, [loadState, swRegistration, settings.notifications]);
+
+  // Fotos tiradas sem internet são lidas assim que a conexão volta
+  useEffect(() => {
+    if (loadState !== 'READY') return;
+    const processQueue = () => processScanQueue(settingsRef.current.recognition).then(setQueuedScans).catch(() => {});
+    processQueue();
+    window.addEventListener('online', processQueue);
+    return () => window.removeEventListener('online', processQueue);
+  }, [loadState]);
+
+  const refreshQueuedScans = () => {
+    listQueuedScans().then(setQueuedScans).catch(() => {});
+    if (navigator.onLine) processScanQueue(settingsRef.current.recognition).then(setQueuedScans).catch(() => {});
+  };
+
+  const finishQueuedScan = async (id: string) => {
+    setReviewingScan(null);
+    await removeQueuedScan(id).catch(() => {});
+    setQueuedScans(prev => prev.filter(s => s.id !== id));
+  };
+
+  const openInventory = (scope: ListScope | null, filter: Partial<ProductFilter> | null = null) => {
+    setListScope(scope);
+    setListFilter(filter);
+    setActiveTab('INVENTORY');
+  };
+
+  // Filtros vindos do painel valem só para a próxima abertura da lista; a URL
+  // só carrega os filtros enquanto a lista está na tela
+  useEffect(() => {
+    if (activeTab === 'INVENTORY') return;
+    setListFilter(null);
+    replaceSearch(serializeListView(DEFAULT_LIST_VIEW, window.location.search));
+  }, [activeTab]);
+
+  const clearListScope = () => {
+    setListScope(null);
+    const params = new URLSearchParams(window.location.search);
+    params.delete(PRODUCTS_PARAM);
+    replaceSearch(params.toString());
+  };
+
+  /**
+   * Exclusões, edições, importações e ações em lote passam por aqui: o que
+   * some da lista vai para a lixeira e a alteração inteira pode ser desfeita.
+   */
+  const applyUndoable = (label: string, next: Product[]) => {
+    const entry = captureUndo(label, products, next);
+    if (entry.trashedIds.length > 0) {
+      const trashed = new Set(entry.trashedIds);
+      moveToTrash(products.filter(p => trashed.has(p.id)))
+        .then(refreshTrash)
+        .catch(err => setSaveError(err?.message || 'Falha ao mover para a lixeira.'));
+    }
+    if (entry.before.length > 0 || entry.createdIds.length > 0) setUndoEntry(entry);
+    setProducts(next);
+  };
+
+  const handleUndo = () => {
+    if (!undoEntry) return;
+    setProducts(prev => restoreProducts(prev, undoEntry));
+    // Só o que esta alteração mandou para a lixeira sai de lá
+    if (undoEntry.trashedIds.length > 0) {
+      removeFromTrash(undoEntry.trashedIds).then(refreshTrash).catch(() => {});
+    }
+    setUndoEntry(null);
+  };
+
+  const handleDelete = (id: string) => {
+    const product = products.find(p => p.id === id);
+    if (!product) return;
+    applyUndoable(`"${product.name}" movido para a lixeira`, products.filter(p => p.id !== id));
+  };
+
+  const handleBulkAction = (groups: ProductGroup[], action: BulkAction) => {
+    applyUndoable(describeBulkAction(action, groups), applyBulkAction(products, groups, action));
+  };
+
+  const handleRestoreTrash = (items: TrashedProduct[]) => {
+    const ids = new Set(items.map(item => item.id));
+    setProducts(prev => [...prev.filter(p => !ids.has(p.id)), ...items.map(item => item.product)]);
+    removeFromTrash([...ids]).then(refreshTrash).catch(() => {});
+  };
+
+  const handleEmptyTrash = () => {
+    emptyTrash().then(refreshTrash).catch(err => setSaveError(err?.message || 'Falha ao esvaziar a lixeira.'));
+  };
+
+  // Código já cadastrado abre o produto; código novo abre o formulário preenchido
+  const handleBarcodeDetected = (barcode: string) => {
+    const existing = products.find(p => p.barcode === barcode);
+    if (existing) setEditingProduct(existing);
+    else setFormPrefill({ barcode });
+    setActiveTab('INVENTORY');
+    setIsFormOpen(true);
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      downloadBackup(await createBackup(products, settings));
+    } catch (err: any) {
+      setBackupError(err?.message || 'Falha ao gerar o backup.');
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setBackupError(null);
+    try {
+      setPendingRestore(await parseBackup(await file.text()));
+    } catch (err: any) {
+      setBackupError(err?.message || 'Não foi possível ler o backup.');
+    } finally {
+      if (restoreInputRef.current) restoreInputRef.current.value = '';
+    }
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!pendingRestore) return;
+    const { products: backupProducts, settings: backupSettings } = pendingRestore.data;
+    // Substituir é a ação mais destrutiva do app: o que sai vai para a lixeira e dá para desfazer
+    if (mode === 'REPLACE') {
+      applyUndoable('Backup restaurado', backupProducts);
+      // A conexão de sincronização é deste dispositivo, não do backup
+      setSettings(prev => ({ ...backupSettings, sync: prev.sync }));
+    } else {
+      applyUndoable('Backup restaurado', mergeBackupProducts(products, backupProducts));
+    }
+    setPendingRestore(null);
+  };
 
   const handleImportExcel = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -56,25 +530,78 @@ const App: React.FC = () => {
     setImportError(null);
 
     try {
-      const result = await parseExcelFile(file);
-      
-      const newProducts: Product[] = result.products.map(item => ({
-        ...item,
-        id: generateId(),
-        createdAt: Date.now()
-      }));
-      
-      setProducts(prev => [...prev, ...newProducts]);
-      setImportSummary(result);
-      if (newProducts.length > 0) setActiveTab('INVENTORY');
+      const data = await readSpreadsheet(file);
+      // Cada aba tem seu próprio layout e, portanto, seu próprio mapeamento salvo
+      const saved = data.sheets.map(sheet => settings.importMappings[layoutSignature(sheet.columns)]);
+      setPendingImport({
+        data,
+        mappings: Object.fromEntries(data.sheets.map((sheet, i) => [
+          sheet.name,
+          { ...suggestMapping(sheet.columns), ...saved[i]?.columns }
+        ])),
+        // Layouts salvos antes podem trazer a ordem das datas de outro arquivo
+        options: layoutOptions(saved.find(Boolean)?.options || DEFAULT_IMPORT_OPTIONS),
+        isSavedLayout: saved.every(Boolean)
+      });
     } catch (err: any) {
-      setImportError(err);
+      setImportError({
+        message: err.message || "Erro ao processar arquivo.",
+        diagnostics: { totalRowsFound: 0, successCount: 0, skippedRows: [], columnsFound: [], steps: [`Arquivo: ${file.name}`], rawPreview: [] }
+      });
     } finally {
       setIsImporting(false);
       if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
+  const handleConfirmImport = (entries: ImportEntry[], sheets: SheetImport[], options: ImportOptions) => {
+    if (!pendingImport) return;
+    const { data } = pendingImport;
+    const { diff, products: next } = planImport(products, entries, options);
+    applyUndoable(`Importação de ${data.fileName}`, next);
+    setSettings(prev => ({
+      ...prev,
+      importMappings: {
+        ...prev.importMappings,
+        ...Object.fromEntries(sheets.map(s => [
+          layoutSignature(s.diagnostics.columnsFound),
+          { columns: s.mapping, options: layoutOptions(options), fileName: data.fileName, savedAt: Date.now() }
+        ]))
+      }
+    }));
+    setImportSummary({
+      imported: entries.length - diff.conflicts.length,
+      sheets: sheets.map(s => s.diagnostics)
+    });
+    setPendingImport(null);
+    if (entries.length > 0) setActiveTab('INVENTORY');
+  };
+
+  if (loadState === 'LOADING') {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (loadState === 'RECOVERY') {
+    return (
+      <StorageRecovery
+        failure={storageFailure}
+        invalid={invalidRecords}
+        onRetry={loadFromStorage}
+        onArchiveLegacy={key => { archiveLegacyKey(key); loadFromStorage(); }}
+        onContinue={() => setLoadState('READY')}
+        onDiscardInvalid={async () => {
+          await deleteProductRecords(invalidRecords.map(r => r.id));
+          setInvalidRecords([]);
+          setLoadState('READY');
+        }}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen pb-24 md:pb-0 md:pl-64 bg-slate-50 text-slate-900">
       <input 
@@ -84,6 +611,34 @@ const App: React.FC = () => {
         accept=".csv, .xlsx, .xls" 
         onChange={handleImportExcel} 
       />
+      <input
+        type="file"
+        ref={restoreInputRef}
+        className="hidden"
+        accept=".json,application/json"
+        onChange={handleRestoreFile}
+      />
+
+      {pendingRestore && (
+        <BackupRestore
+          backup={pendingRestore}
+          products={products}
+          onRestore={handleRestore}
+          onClose={() => setPendingRestore(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportWizard
+          data={pendingImport.data}
+          products={products}
+          initialMappings={pendingImport.mappings}
+          initialOptions={pendingImport.options}
+          isSavedLayout={pendingImport.isSavedLayout}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
 
       {/* Modal de Feedback de Importação */}
       {(importSummary || importError) && (
@@ -124,14 +679,31 @@ const App: React.FC = () => {
                   </button>
                 </div>
               ) : (
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="bg-slate-50 p-6 rounded-3xl text-center">
-                    <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">Importados</p>
-                    <p className="text-4xl font-black text-emerald-600">{importSummary?.diagnostics.successCount}</p>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="bg-slate-50 p-6 rounded-3xl text-center">
+                      <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">Importados</p>
+                      <p className="text-4xl font-black text-emerald-600">{importSummary?.imported}</p>
+                    </div>
+                    <div className="bg-slate-50 p-6 rounded-3xl text-center">
+                      <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">Total de Linhas</p>
+                      <p className="text-4xl font-black text-slate-800">
+                        {importSummary?.sheets.reduce((sum, s) => sum + s.totalRowsFound, 0)}
+                      </p>
+                    </div>
                   </div>
-                  <div className="bg-slate-50 p-6 rounded-3xl text-center">
-                    <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">Total de Linhas</p>
-                    <p className="text-4xl font-black text-slate-800">{importSummary?.diagnostics.totalRowsFound}</p>
+                  <div className="max-h-60 overflow-y-auto space-y-2">
+                    {importSummary?.sheets.map(sheet => (
+                      <div key={sheet.sheetName} className="px-4 py-3 bg-slate-50 rounded-2xl text-xs space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="font-black text-slate-700 truncate">{sheet.sheetName}</span>
+                          <span className="text-slate-500">{sheet.successCount} de {sheet.totalRowsFound} linha(s)</span>
+                        </div>
+                        {sheet.skippedRows.map(r => (
+                          <p key={r.row} className="text-rose-600">Linha {r.row}: {r.reason}</p>
+                        ))}
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -159,12 +731,16 @@ const App: React.FC = () => {
         <nav className="space-y-1 flex-1 overflow-y-auto no-scrollbar">
           <NavButton active={activeTab === 'DASHBOARD'} onClick={() => setActiveTab('DASHBOARD')} icon={<LayoutDashboard className="w-5 h-5" />}>Dashboard</NavButton>
           <NavButton active={activeTab === 'INVENTORY'} onClick={() => setActiveTab('INVENTORY')} icon={<ClipboardList className="w-5 h-5" />}>Inventário</NavButton>
+          <NavButton active={activeTab === 'CATALOG'} onClick={() => setActiveTab('CATALOG')} icon={<BookOpen className="w-5 h-5" />}>Catálogo</NavButton>
+          <NavButton active={activeTab === 'SETTINGS'} onClick={() => setActiveTab('SETTINGS')} icon={<SlidersHorizontal className="w-5 h-5" />}>Ajustes</NavButton>
           
           <div className="pt-8 pb-4">
             <p className="px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Arquivos</p>
             <NavButton active={false} onClick={() => fileInputRef.current?.click()} icon={isImporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <FileUp className="w-5 h-5" />}>Importar CSV / Excel</NavButton>
             <NavButton active={false} onClick={downloadImportTemplate} icon={<FileSpreadsheet className="w-5 h-5 text-emerald-500" />}>Baixar Modelo CSV</NavButton>
-            <NavButton active={false} onClick={() => exportToExcel(products)} icon={<ArrowDownToLine className="w-5 h-5" />}>Exportar Backup</NavButton>
+            <NavButton active={false} onClick={() => exportToExcel(products)} icon={<Sheet className="w-5 h-5" />}>Exportar Planilha</NavButton>
+            <NavButton active={false} onClick={handleExportBackup} icon={<ArrowDownToLine className="w-5 h-5" />}>Exportar Backup</NavButton>
+            <NavButton active={false} onClick={() => restoreInputRef.current?.click()} icon={<ArchiveRestore className="w-5 h-5" />}>Restaurar Backup</NavButton>
           </div>
         </nav>
 
@@ -183,6 +759,7 @@ const App: React.FC = () => {
           <span className="text-xl font-black text-slate-800">Estoque</span>
         </div>
         <div className="flex gap-2">
+          <SyncStatusBadge status={syncStatus} conflictCount={conflicts.length} onClick={() => setIsSyncPanelOpen(true)} />
           <button 
             onClick={downloadImportTemplate}
             className="p-3 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 md:hidden"
@@ -208,14 +785,77 @@ const App: React.FC = () => {
 
       {/* Conteúdo Principal */}
       <main className="p-6 max-w-5xl mx-auto">
+        {saveError && (
+          <div className="mb-6 bg-rose-50 border-l-4 border-rose-500 p-4 rounded-r-xl">
+            <p className="text-rose-900 font-bold mb-1">Alterações não foram salvas no dispositivo:</p>
+            <p className="text-rose-700 text-sm">{saveError}</p>
+          </div>
+        )}
+        {backupError && (
+          <div className="mb-6 bg-rose-50 border-l-4 border-rose-500 p-4 rounded-r-xl flex items-start gap-3">
+            <div className="flex-1">
+              <p className="text-rose-900 font-bold mb-1">Backup:</p>
+              <p className="text-rose-700 text-sm">{backupError}</p>
+            </div>
+            <button onClick={() => setBackupError(null)} className="p-1 text-rose-400 hover:text-rose-600 transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+        {hasOpenSession && !isScannerOpen && (
+          <div className="mb-6 bg-indigo-50 border-l-4 border-indigo-500 p-4 rounded-r-xl flex items-center gap-3">
+            <p className="flex-1 text-indigo-900 font-bold">Há um recebimento em andamento que ainda não foi salvo.</p>
+            <button
+              onClick={() => setIsScannerOpen(true)}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl hover:bg-indigo-700 transition-colors"
+            >
+              Continuar
+            </button>
+          </div>
+        )}
+        {queuedScans.length > 0 && !isScannerOpen && (
+          <QueuedScansBanner scans={queuedScans} onReview={setReviewingScan} />
+        )}
         {activeTab === 'DASHBOARD' ? (
-          <Dashboard products={products} />
+          <Dashboard products={products} expirySettings={settings.expiry} onOpenInventory={openInventory} />
+        ) : activeTab === 'CATALOG' ? (
+          <Catalog
+            items={catalog || []}
+            onSave={handleCatalogSave}
+            onDelete={handleCatalogDelete}
+            onImport={handleCatalogImport}
+            onExport={() => exportCatalog(catalog || [])}
+          />
+        ) : activeTab === 'SETTINGS' ? (
+          <Settings
+            settings={settings}
+            products={products}
+            onChange={setSettings}
+            snapshots={snapshots}
+            onSnapshotNow={takeSnapshot}
+            onRestoreSnapshot={s => setPendingRestore(s.backup)}
+            onDeleteSnapshot={s => deleteSnapshot(s.id).then(refreshSnapshots)}
+            backgroundNotifications={backgroundNotifications}
+            trash={trash}
+            onRestoreTrash={handleRestoreTrash}
+            onEmptyTrash={handleEmptyTrash}
+          />
         ) : (
           <ProductList 
             products={products} 
-            onDelete={id => setProducts(p => p.filter(x => x.id !== id))} 
+            expirySettings={settings.expiry}
+            onDelete={handleDelete} 
             onEdit={p => { setEditingProduct(p); setIsFormOpen(true); }} 
+            onRecordMovement={(productId: string, input: MovementInput) => {
+              setProducts(prev => prev.map(p => p.id === productId ? recordMovement(p, input) : p));
+            }}
             onAddManual={() => setIsFormOpen(true)} 
+            initialFilter={listFilter}
+            scope={listScope}
+            onClearScope={clearListScope}
+            savedViews={settings.savedViews}
+            onSavedViewsChange={savedViews => setSettings(prev => ({ ...prev, savedViews }))}
+            onBulkAction={handleBulkAction}
           />
         )}
       </main>
@@ -229,33 +869,116 @@ const App: React.FC = () => {
         >
           <Scan className="w-8 h-8" />
         </button>
-        <MobileNavButton active={activeTab === 'INVENTORY'} onClick={() => setActiveTab('INVENTORY'} icon={<ClipboardList className="w-6 h-6" />} label="Itens" />
+        <MobileNavButton active={activeTab === 'INVENTORY'} onClick={() => setActiveTab('INVENTORY')} icon={<ClipboardList className="w-6 h-6" />} label="Itens" />
+        <MobileNavButton active={activeTab === 'CATALOG'} onClick={() => setActiveTab('CATALOG')} icon={<BookOpen className="w-6 h-6" />} label="Catálogo" />
+        <MobileNavButton active={activeTab === 'SETTINGS'} onClick={() => setActiveTab('SETTINGS')} icon={<SlidersHorizontal className="w-6 h-6" />} label="Ajustes" />
       </nav>
 
       {/* Modais */}
+      {isSyncPanelOpen && (
+        <SyncConflicts
+          conflicts={conflicts}
+          products={products}
+          status={syncStatus}
+          onSyncNow={syncNow}
+          onUseValue={async conflict => {
+            setProducts(prev => prev.map(p => p.id === conflict.recordId ? applyFieldValue(p, conflict.field, conflict.loser.value) : p));
+            await dismissConflict(conflict.id);
+            setConflicts(await loadConflicts());
+          }}
+          onDismiss={async conflict => {
+            await dismissConflict(conflict.id);
+            setConflicts(await loadConflicts());
+          }}
+          onClose={() => setIsSyncPanelOpen(false)}
+        />
+      )}
+
       {isFormOpen && (
         <ProductForm 
-          onClose={() => { setIsFormOpen(false); setEditingProduct(null); }} 
+          onClose={() => { setIsFormOpen(false); setEditingProduct(null); setFormPrefill(null); }} 
           onSubmit={data => {
-            if (editingProduct) setProducts(prev => prev.map(p => p.id === editingProduct.id ? { ...p, ...data } : p));
-            else setProducts(prev => [...prev, { ...data, id: generateId(), createdAt: Date.now() }]);
+            // Mudanças de quantidade no formulário viram lançamentos de ajuste
+            if (editingProduct) {
+              applyUndoable(
+                `"${data.name}" alterado`,
+                products.map(p => p.id === editingProduct.id ? { ...p, ...data, ...applyLotEdits(p, data.lots) } : p)
+              );
+            } else setProducts(prev => [...prev, { ...data, ...applyLotEdits(null, data.lots), id: generateId(), createdAt: Date.now() }]);
             setIsFormOpen(false); 
             setEditingProduct(null);
+            setFormPrefill(null);
           }} 
           initialData={editingProduct} 
+          prefill={formPrefill} 
+          catalog={catalog || []} 
         />
       )}
       
       {isScannerOpen && (
         <SmartAdd 
-          onClose={() => setIsScannerOpen(false)} 
-          onScanComplete={data => {
-            setProducts(prev => [...prev, { ...data, id: generateId(), quantity: 1, createdAt: Date.now() }]);
+          recognitionSettings={settings.recognition} 
+          onClose={() => { setIsScannerOpen(false); setHasOpenSession(Boolean(loadSession())); }} 
+          onScanComplete={entry => {
+            setProducts(prev => mergeEntries(prev, [entry]));
             setIsScannerOpen(false); 
             setActiveTab('INVENTORY');
           }} 
+          onBarcodeDetected={handleBarcodeDetected} 
+          catalog={catalog || []} 
+          onCommitSession={entries => {
+            setProducts(prev => mergeEntries(prev, entries));
+            setActiveTab('INVENTORY');
+          }} 
+          onScanQueued={refreshQueuedScans}
         />
       )}
+
+      {reviewingScan && (
+        <ScanReview
+          image={reviewingScan.image.data}
+          mimeType={reviewingScan.image.mimeType}
+          // Se a leitura falhou, a foto ainda ajuda a preencher à mão
+          result={reviewingScan.result || validateRecognition({})}
+          retakeLabel="Descartar foto"
+          onRetake={() => finishQueuedScan(reviewingScan.id)}
+          onConfirm={entry => {
+            setProducts(prev => mergeEntries(prev, [entry]));
+            setActiveTab('INVENTORY');
+            finishQueuedScan(reviewingScan.id);
+          }}
+        />
+      )}
+
+      <UpdatePrompt
+        updateAvailable={updateAvailable}
+        offlineReady={offlineReady}
+        onUpdate={() => updateAppRef.current()}
+        onDismiss={() => { setUpdateAvailable(false); setOfflineReady(false); }}
+      />
+
+      <UndoToast entry={undoEntry} onUndo={handleUndo} onDismiss={() => setUndoEntry(null)} />
+    </div>
+  );
+};
+
+const QueuedScansBanner = ({ scans, onReview }: any) => {
+  const ready = scans.filter((s: QueuedScan) => s.result || s.error);
+  return (
+    <div className="mb-6 bg-indigo-50 border-l-4 border-indigo-500 p-4 rounded-r-xl flex items-center gap-3">
+      <p className="flex-1 text-indigo-900 font-bold">
+        {ready.length > 0
+          ? `${ready.length} foto(s) de rótulo prontas para conferir.`
+          : `${scans.length} foto(s) de rótulo aguardando internet para serem lidas.`}
+      </p>
+      {ready.length > 0 && (
+        <button
+          onClick={() => onReview(ready[0])}
+          className="px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl hover:bg-indigo-700 transition-colors"
+        >
+          Conferir
+        </button>
+      )}
     </div>
   );
 };
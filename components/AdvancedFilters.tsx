@@ -0,0 +1,138 @@
+import React from 'react';
+import { normalizeCategoryKey } from '../utils/expiryRules';
+import { FacetOption, ProductFilter, ProductSortKey, SORT_LABELS } from '../utils/productFilters';
+import { ListView } from '../utils/listView';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
+
+interface AdvancedFiltersProps {
+  view: ListView;
+  categories: FacetOption[];
+  locations: FacetOption[];
+  onChange: (view: ListView) => void;
+}
+
+// Valor do <select> para "sem filtro"; '' já significa "sem categoria/local"
+const ANY = '*';
+
+const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({ view, categories, locations, onChange }) => {
+  const { filter, sort } = view;
+  const update = (patch: Partial<ProductFilter>) => onChange({ ...view, filter: { ...filter, ...patch } });
+
+  const updateExpiry = (patch: { from?: string; to?: string }) => {
+    const range = { ...filter.expiryRange, ...patch };
+    update({ expiryRange: range.from || range.to ? range : null });
+  };
+
+  const updateQuantity = (patch: { min?: number; max?: number }) => {
+    const range = { ...filter.quantityRange, ...patch };
+    update({ quantityRange: range.min != null || range.max != null ? range : null });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm grid grid-cols-1 sm:grid-cols-2 gap-5">
+      <FacetSelect label="Categoria" emptyLabel="Sem categoria" options={categories} value={filter.category} onChange={(category: string | null) => update({ category })} />
+      <FacetSelect label="Local" emptyLabel="Sem local" options={locations} value={filter.location} onChange={(location: string | null) => update({ location })} />
+
+      <div>
+        <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Vencimento entre</span>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            className={INPUT_CLASSES}
+            value={filter.expiryRange?.from || ''}
+            onChange={e => updateExpiry({ from: e.target.value || undefined })}
+            aria-label="Vence a partir de"
+          />
+          <span className="text-slate-300 text-xs font-bold">e</span>
+          <input
+            type="date"
+            className={INPUT_CLASSES}
+            value={filter.expiryRange?.to || ''}
+            onChange={e => updateExpiry({ to: e.target.value || undefined })}
+            aria-label="Vence até"
+          />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Vence nos próximos</span>
+        <div className="flex items-center gap-2">
+          <NumberInput
+            value={filter.daysRange?.max}
+            placeholder="Qualquer prazo"
+            onChange={(days?: number) => update({ daysRange: days != null ? { min: 0, max: days } : null })}
+          />
+          <span className="text-slate-400 text-xs font-bold">dias</span>
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Quantidade total</span>
+        <div className="flex items-center gap-2">
+          <NumberInput value={filter.quantityRange?.min} placeholder="Mín." onChange={(min?: number) => updateQuantity({ min })} />
+          <span className="text-slate-300 text-xs font-bold">a</span>
+          <NumberInput value={filter.quantityRange?.max} placeholder="Máx." onChange={(max?: number) => updateQuantity({ max })} />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Ordenar por</span>
+        <div className="flex items-center gap-2">
+          <select
+            className={INPUT_CLASSES}
+            value={sort.key}
+            onChange={e => onChange({ ...view, sort: { ...sort, key: e.target.value as ProductSortKey } })}
+          >
+            {(Object.keys(SORT_LABELS) as ProductSortKey[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange({ ...view, sort: { ...sort, descending: !sort.descending } })}
+            className="p-3 bg-slate-50 hover:bg-indigo-50 text-slate-400 hover:text-indigo-600 rounded-xl transition-all shrink-0"
+            title={sort.descending ? 'Decrescente' : 'Crescente'}
+            aria-label={sort.descending ? 'Ordem decrescente' : 'Ordem crescente'}
+          >
+            {sort.descending ? <ArrowDownWideNarrow className="w-5 h-5" /> : <ArrowUpNarrowWide className="w-5 h-5" />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const INPUT_CLASSES = 'w-full min-w-0 px-4 py-3 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-700 text-sm';
+
+const FacetSelect = ({ label, emptyLabel, options, value, onChange }: any) => {
+  // O filtro pode ter vindo da URL ou do painel com outra grafia
+  const selected = value == null
+    ? ANY
+    : options.find((o: FacetOption) => normalizeCategoryKey(o.value) === normalizeCategoryKey(value))?.value ?? value;
+  const isKnown = selected === ANY || options.some((o: FacetOption) => o.value === selected);
+
+  return (
+    <div>
+      <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">{label}</span>
+      <select className={INPUT_CLASSES} value={selected} onChange={e => onChange(e.target.value === ANY ? null : e.target.value)}>
+        <option value={ANY}>Qualquer</option>
+        {options.map((o: FacetOption) => (
+          <option key={o.value} value={o.value}>{o.value || emptyLabel} ({o.count})</option>
+        ))}
+        {!isKnown && <option value={selected}>{selected || emptyLabel} (0)</option>}
+      </select>
+    </div>
+  );
+};
+
+const NumberInput = ({ value, placeholder, onChange }: any) => (
+  <input
+    type="number"
+    min={0}
+    inputMode="numeric"
+    className={INPUT_CLASSES}
+    placeholder={placeholder}
+    value={value ?? ''}
+    onChange={e => onChange(e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value))))}
+  />
+);
+
+export default AdvancedFilters;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Product } from '../types';
+import { BackupFile, RestoreMode, diffBackup } from '../services/backupService';
+import { ShieldCheck, X } from 'lucide-react';
+
+interface BackupRestoreProps {
+  backup: BackupFile;
+  products: Product[];
+  onRestore: (mode: RestoreMode) => void;
+  onClose: () => void;
+}
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ backup, products, onRestore, onClose }) => {
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [replaceConfirmed, setReplaceConfirmed] = useState(false);
+  const diff = diffBackup(products, backup.data.products);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg max-h-[90vh] flex flex-col rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight">Restaurar backup</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              Gerado em {new Date(backup.createdAt).toLocaleString('pt-BR')} · {backup.data.products.length} produto(s)
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-5 overflow-y-auto">
+          <div className="flex items-center gap-2 text-emerald-600 text-sm font-bold">
+            <ShieldCheck className="w-5 h-5" /> Arquivo íntegro (soma de verificação conferida)
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <DiffCard label="Novos" value={diff.added} color="text-emerald-600" />
+            <DiffCard label="Diferentes" value={diff.changed} color="text-indigo-600" />
+            <DiffCard label="Iguais" value={diff.unchanged} color="text-slate-800" />
+            <DiffCard label="Fora do backup" value={diff.missing} color="text-rose-600" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <ModeButton active={mode === 'MERGE'} onClick={() => setMode('MERGE')} label="Mesclar">
+              Recupera o que falta e mantém os dados atuais
+            </ModeButton>
+            <ModeButton active={mode === 'REPLACE'} onClick={() => setMode('REPLACE')} label="Substituir">
+              Estoque e ajustes voltam a ser exatamente os do backup
+            </ModeButton>
+          </div>
+
+          {mode === 'REPLACE' && (
+            <label className="flex items-start gap-3 p-4 bg-rose-50 rounded-2xl text-sm text-rose-700 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-0.5 rounded text-rose-600 focus:ring-rose-500"
+                checked={replaceConfirmed}
+                onChange={e => setReplaceConfirmed(e.target.checked)}
+              />
+              <span>
+                Entendo que <strong>{diff.missing} produto(s)</strong> serão apagados e <strong>{diff.changed}</strong> voltarão ao estado do backup.
+              </span>
+            </label>
+          )}
+
+          <div className="pt-2 flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 py-4 px-4 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onRestore(mode)}
+              disabled={mode === 'REPLACE' && !replaceConfirmed}
+              className="flex-1 py-4 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98] disabled:opacity-50"
+            >
+              Restaurar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const DiffCard = ({ label, value, color }: any) => (
+  <div className="bg-slate-50 p-4 rounded-2xl text-center">
+    <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">{label}</p>
+    <p className={`text-3xl font-black ${color}`}>{value}</p>
+  </div>
+);
+
+const ModeButton = ({ active, onClick, label, children }: any) => (
+  <button
+    onClick={onClick}
+    className={`p-3 rounded-2xl border text-left transition-all ${active ? 'border-indigo-100 bg-indigo-50' : 'border-slate-50 bg-white hover:bg-slate-50'}`}
+  >
+    <p className={`text-[10px] font-black uppercase tracking-wider ${active ? 'text-indigo-600' : 'text-slate-400'}`}>{label}</p>
+    <p className="text-[11px] text-slate-500 mt-1">{children}</p>
+  </button>
+);
+
+export default BackupRestore;
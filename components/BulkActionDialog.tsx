@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { MovementType } from '../types';
+import { BulkAction, WriteOffType } from '../utils/bulkActions';
+import { MOVEMENT_LABELS } from '../utils/ledger';
+import { FacetOption, ProductGroup } from '../utils/productFilters';
+import { toISODate } from '../utils/helpers';
+import { X } from 'lucide-react';
+
+export type BulkDialogKind = 'DELETE' | 'WRITE_OFF' | 'CATEGORY' | 'LOCATION' | 'EXPIRY' | 'EXPORT';
+
+interface BulkActionDialogProps {
+  kind: BulkDialogKind;
+  groups: ProductGroup[]; // itens marcados, com os lotes visíveis no filtro
+  categories: FacetOption[];
+  locations: FacetOption[];
+  onApply: (action: BulkAction) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const TITLES: Record<BulkDialogKind, string> = {
+  DELETE: 'Mover para a lixeira',
+  WRITE_OFF: 'Dar baixa',
+  CATEGORY: 'Mudar categoria',
+  LOCATION: 'Mudar local',
+  EXPIRY: 'Ajustar validade',
+  EXPORT: 'Exportar seleção'
+};
+
+const WRITE_OFF_TYPES: WriteOffType[] = [MovementType.DISCARD_EXPIRED, MovementType.DONATE, MovementType.CONSUME];
+
+const BulkActionDialog: React.FC<BulkActionDialogProps> = ({ kind, groups, categories, locations, onApply, onExport, onClose }) => {
+  const [movement, setMovement] = useState<WriteOffType>(MovementType.DISCARD_EXPIRED);
+  const [category, setCategory] = useState('');
+  const [location, setLocation] = useState('');
+  const [expiryMode, setExpiryMode] = useState<'DATE' | 'SHIFT'>('DATE');
+  const [date, setDate] = useState(toISODate());
+  const [days, setDays] = useState(7);
+
+  const productCount = groups.length;
+  const lots = groups.flatMap(g => g.lots);
+  const units = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+  // Texto do botão: a confirmação sempre diz quantos itens serão afetados
+  const confirmLabel = {
+    DELETE: `Mover ${productCount} produto(s) para a lixeira`,
+    WRITE_OFF: `Dar baixa em ${lots.length} lote(s)`,
+    CATEGORY: `Alterar ${productCount} produto(s)`,
+    LOCATION: `Alterar ${lots.length} lote(s)`,
+    EXPIRY: `Alterar ${lots.length} lote(s)`,
+    EXPORT: `Exportar ${lots.length} lote(s)`
+  }[kind];
+
+  const isValid = kind === 'CATEGORY' ? category.trim() !== ''
+    : kind === 'EXPIRY' ? (expiryMode === 'DATE' ? Boolean(date) : days !== 0)
+    : kind === 'DELETE' ? productCount > 0
+    : lots.length > 0;
+
+  const handleConfirm = () => {
+    if (kind === 'EXPORT') {
+      onExport();
+      return;
+    }
+    const action: BulkAction =
+      kind === 'DELETE' ? { type: 'DELETE' }
+      : kind === 'WRITE_OFF' ? { type: 'WRITE_OFF', movement }
+      : kind === 'CATEGORY' ? { type: 'SET_CATEGORY', category: category.trim() }
+      : kind === 'LOCATION' ? { type: 'SET_LOCATION', location: location.trim() }
+      : expiryMode === 'DATE' ? { type: 'SET_EXPIRY', date }
+      : { type: 'SHIFT_EXPIRY', days };
+    onApply(action);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight">{TITLES[kind]}</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {productCount} produto(s) · {lots.length} lote(s) · {units} un.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-5">
+          {kind === 'DELETE' && (
+            <p className="text-sm text-slate-600">
+              Os produtos marcados vão para a lixeira com todos os lotes e o histórico de movimentações,
+              inclusive lotes que não aparecem no filtro atual. Dá para restaurá-los em Ajustes.
+            </p>
+          )}
+
+          {kind === 'WRITE_OFF' && (
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Motivo</span>
+              <div className="grid grid-cols-1 gap-2">
+                {WRITE_OFF_TYPES.map(type => (
+                  <OptionButton key={type} active={movement === type} onClick={() => setMovement(type)}>{MOVEMENT_LABELS[type]}</OptionButton>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-slate-400">Zera o saldo dos lotes visíveis no filtro ({units} un.).</p>
+            </div>
+          )}
+
+          {kind === 'CATEGORY' && (
+            <SuggestInput label="Nova categoria" listId="bulk-categories" value={category} onChange={setCategory} options={categories} />
+          )}
+
+          {kind === 'LOCATION' && (
+            <SuggestInput label="Novo local (vazio remove)" listId="bulk-locations" value={location} onChange={setLocation} options={locations} />
+          )}
+
+          {kind === 'EXPIRY' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <OptionButton active={expiryMode === 'DATE'} onClick={() => setExpiryMode('DATE')}>Nova data</OptionButton>
+                <OptionButton active={expiryMode === 'SHIFT'} onClick={() => setExpiryMode('SHIFT')}>Adiar / antecipar</OptionButton>
+              </div>
+              {expiryMode === 'DATE' ? (
+                <input
+                  type="date"
+                  className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-700"
+                  value={date}
+                  onChange={e => setDate(e.target.value)}
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-700"
+                    value={days}
+                    onChange={e => setDays(Math.trunc(Number(e.target.value)) || 0)}
+                  />
+                  <span className="text-xs font-bold text-slate-400 whitespace-nowrap">dias (negativo antecipa)</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {kind === 'EXPORT' && (
+            <p className="text-sm text-slate-600">
+              Planilha no mesmo layout da importação, só com os lotes visíveis dos itens marcados.
+            </p>
+          )}
+
+          {kind !== 'EXPORT' && (
+            <p className="text-xs text-slate-400">Dá para desfazer logo depois, pelo aviso na tela.</p>
+          )}
+
+          <button
+            onClick={handleConfirm}
+            disabled={!isValid}
+            className={`w-full py-4 text-white font-bold rounded-2xl transition-all shadow-xl active:scale-[0.98] disabled:opacity-50 ${
+              kind === 'DELETE' ? 'bg-rose-600 hover:bg-rose-700 shadow-rose-100' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-100'
+            }`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SuggestInput = ({ label, listId, value, onChange, options }: any) => (
+  <div>
+    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">{label}</label>
+    <input
+      autoFocus
+      type="text"
+      list={listId}
+      className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-700"
+      value={value}
+      onChange={e => onChange(e.target.value)}
+    />
+    <datalist id={listId}>
+      {options.filter((o: FacetOption) => o.value).map((o: FacetOption) => <option key={o.value} value={o.value} />)}
+    </datalist>
+  </div>
+);
+
+const OptionButton = ({ active, onClick, children }: any) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-wider border transition-all ${
+      active ? 'border-indigo-100 text-indigo-600 bg-indigo-50' : 'border-slate-50 text-slate-400 bg-white hover:bg-slate-50'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+export default BulkActionDialog;
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { ExpirySettings, Product } from '../types';
+import { CalendarGrouping, exportCalendar } from '../utils/calendarExport';
+import { ProductGroup } from '../utils/productFilters';
+import { normalizeCategoryKey } from '../utils/expiryRules';
+import { getActiveLots } from '../utils/lots';
+import { CalendarPlus, X } from 'lucide-react';
+
+interface CalendarExportProps {
+  products: Product[];
+  filteredGroups: ProductGroup[]; // o que a lista está mostrando agora
+  expirySettings: ExpirySettings;
+  onClose: () => void;
+}
+
+type ExportScope = 'FILTER' | 'CATEGORY' | 'ALL';
+
+const CalendarExport: React.FC<CalendarExportProps> = ({ products, filteredGroups, expirySettings, onClose }) => {
+  const [scope, setScope] = useState<ExportScope>('FILTER');
+  const [category, setCategory] = useState('');
+  const [grouping, setGrouping] = useState<CalendarGrouping>('PRODUCT');
+
+  const categories = useMemo(() => {
+    const unique = new Map<string, string>();
+    products.forEach(p => {
+      const key = normalizeCategoryKey(p.category);
+      if (key && !unique.has(key)) unique.set(key, p.category.trim());
+    });
+    return [...unique.values()].sort((a, b) => a.localeCompare(b));
+  }, [products]);
+
+  const groups = useMemo((): ProductGroup[] => {
+    if (scope === 'FILTER') return filteredGroups;
+    return products
+      .filter(p => scope === 'ALL' || normalizeCategoryKey(p.category) === normalizeCategoryKey(category))
+      .map(product => ({ product, lots: getActiveLots(product) }));
+  }, [scope, category, products, filteredGroups]);
+
+  const eventCount = grouping === 'PRODUCT'
+    ? groups.filter(g => g.lots.length > 0).length
+    : new Set(groups.flatMap(g => g.lots.map(l => l.expiryDate))).size;
+
+  const handleExport = () => {
+    exportCalendar(groups, expirySettings, grouping);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight">Exportar para calendário</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              Arquivo .ics com lembrete no prazo de atenção
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-5">
+          <div>
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Quais itens</span>
+            <div className="grid grid-cols-3 gap-2">
+              <OptionButton active={scope === 'FILTER'} onClick={() => setScope('FILTER')}>Filtro atual</OptionButton>
+              <OptionButton active={scope === 'CATEGORY'} onClick={() => setScope('CATEGORY')}>Categoria</OptionButton>
+              <OptionButton active={scope === 'ALL'} onClick={() => setScope('ALL')}>Todos</OptionButton>
+            </div>
+          </div>
+
+          {scope === 'CATEGORY' && (
+            <select
+              className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-700"
+              value={category}
+              onChange={e => setCategory(e.target.value)}
+            >
+              <option value="">Selecione uma categoria</option>
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          )}
+
+          <div>
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Eventos</span>
+            <div className="grid grid-cols-2 gap-2">
+              <OptionButton active={grouping === 'PRODUCT'} onClick={() => setGrouping('PRODUCT')}>Um por produto</OptionButton>
+              <OptionButton active={grouping === 'DAY'} onClick={() => setGrouping('DAY')}>Um por dia</OptionButton>
+            </div>
+            <p className="mt-2 text-xs text-slate-400">
+              Exportar de novo os mesmos itens atualiza os eventos já importados, sem duplicar.
+            </p>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={eventCount === 0}
+            className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98] disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <CalendarPlus className="w-5 h-5" /> Baixar {eventCount} evento(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const OptionButton = ({ active, onClick, children }: any) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-wider border transition-all ${
+      active ? 'border-indigo-100 text-indigo-600 bg-indigo-50' : 'border-slate-50 text-slate-400 bg-white hover:bg-slate-50'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+export default CalendarExport;
@@ -0,0 +1,226 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CatalogItem } from '../types';
+import { normalizeBarcode } from '../utils/catalog';
+import { Search, XCircle, PlusCircle, Edit3, Trash2, FileUp, Download, Barcode, MapPin, CalendarClock, BookOpen } from 'lucide-react';
+
+interface CatalogProps {
+  items: CatalogItem[];
+  onSave: (item: CatalogItem, previousBarcode?: string) => void;
+  onDelete: (barcode: string) => void;
+  onImport: (file: File) => Promise<{ imported: number; skipped: number }>;
+  onExport: () => void;
+}
+
+const SOURCE_LABELS: Record<CatalogItem['source'], string> = {
+  HISTORY: 'Histórico',
+  MANUAL: 'Editado',
+  IMPORT: 'Importado'
+};
+
+// Chave de edição de uma ficha nova, ainda sem código
+const NEW_ITEM = '__nova__';
+
+const Catalog: React.FC<CatalogProps> = ({ items, onSave, onDelete, onImport, onExport }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ ok: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filtered = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return items;
+    return items.filter(item =>
+      item.name.toLowerCase().includes(term) ||
+      item.category.toLowerCase().includes(term) ||
+      item.barcode.includes(term)
+    );
+  }, [items, searchTerm]);
+
+  const importFile = async (file: File) => {
+    try {
+      const { imported, skipped } = await onImport(file);
+      setNotice({ ok: true, text: `${imported} ficha(s) importada(s)${skipped ? `, ${skipped} linha(s) sem código ou nome ignorada(s)` : ''}.` });
+    } catch (err: any) {
+      setNotice({ ok: false, text: err?.message || 'Não foi possível ler o arquivo.' });
+    }
+  };
+
+  const save = (item: CatalogItem, previousBarcode?: string) => {
+    onSave(item, previousBarcode);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-indigo-50 text-indigo-600 p-2.5 rounded-xl"><BookOpen className="w-5 h-5" /></div>
+          <div>
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight">Catálogo</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              Preenche o cadastro a partir do código de barras
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <ActionButton onClick={() => fileInputRef.current?.click()} icon={<FileUp className="w-4 h-4" />}>Importar</ActionButton>
+          <ActionButton onClick={onExport} icon={<Download className="w-4 h-4" />}>Exportar</ActionButton>
+          <ActionButton onClick={() => setEditing(NEW_ITEM)} icon={<PlusCircle className="w-4 h-4" />} primary>Nova ficha</ActionButton>
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept=".xlsx, .xls, .csv"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {notice && (
+        <div className={`p-4 rounded-r-xl border-l-4 flex items-start gap-3 text-sm font-bold ${notice.ok ? 'bg-emerald-50 border-emerald-500 text-emerald-700' : 'bg-rose-50 border-rose-500 text-rose-700'}`}>
+          <p className="flex-1">{notice.text}</p>
+          <button onClick={() => setNotice(null)} className="opacity-60 hover:opacity-100 transition-opacity">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+      )}
+
+      <div className="relative w-full">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300 w-5 h-5" />
+        <input
+          type="text"
+          placeholder="Buscar por nome, categoria ou código"
+          className="w-full pl-12 pr-12 py-4 bg-white border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm transition-all text-slate-700"
+          value={searchTerm}
+          onChange={e => setSearchTerm(e.target.value)}
+        />
+        {searchTerm && (
+          <button
+            onClick={() => setSearchTerm('')}
+            className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-300 hover:text-slate-500 transition-colors"
+          >
+            <XCircle className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] bg-slate-100 px-3 py-1.5 rounded-full w-fit">
+        {filtered.length} de {items.length} fichas
+      </div>
+
+      {editing === NEW_ITEM && (
+        <ItemEditor onSave={save} onCancel={() => setEditing(null)} existing={items} />
+      )}
+
+      <div className="grid grid-cols-1 gap-3">
+        {filtered.map(item => editing === item.barcode ? (
+          <ItemEditor key={item.barcode} item={item} onSave={save} onCancel={() => setEditing(null)} existing={items} />
+        ) : (
+          <div key={item.barcode} className="bg-white p-5 rounded-3xl shadow-sm border border-slate-100 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-bold text-slate-800 truncate">{item.name}</p>
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-50 px-2 py-0.5 rounded-full">
+                  {SOURCE_LABELS[item.source]}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs text-slate-500">
+                <span className="flex items-center gap-1"><Barcode className="w-3.5 h-3.5" /> {item.barcode}</span>
+                <span>{item.category}</span>
+                {item.location && <span className="flex items-center gap-1"><MapPin className="w-3.5 h-3.5" /> {item.location}</span>}
+                {item.shelfLifeDays && (
+                  <span className="flex items-center gap-1"><CalendarClock className="w-3.5 h-3.5" /> {item.shelfLifeDays} dias</span>
+                )}
+              </div>
+            </div>
+            <button onClick={() => setEditing(item.barcode)} className="p-2 text-slate-300 hover:text-indigo-600 transition-colors" aria-label="Editar ficha">
+              <Edit3 className="w-5 h-5" />
+            </button>
+            <button onClick={() => onDelete(item.barcode)} className="p-2 text-slate-300 hover:text-rose-600 transition-colors" aria-label="Excluir ficha">
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+
+        {items.length === 0 && (
+          <div className="bg-white rounded-[2.5rem] p-12 text-center border-2 border-dashed border-slate-100">
+            <h3 className="text-xl font-bold text-slate-800">Catálogo vazio</h3>
+            <p className="text-slate-400 text-sm mt-2 max-w-xs mx-auto">
+              Produtos cadastrados com código de barras entram aqui automaticamente.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ActionButton = ({ onClick, icon, children, primary }: any) => (
+  <button
+    onClick={onClick}
+    className={`flex items-center gap-2 px-4 py-2.5 rounded-xl text-xs font-bold transition-all ${
+      primary ? 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-100' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+    }`}
+  >
+    {icon} {children}
+  </button>
+);
+
+const ItemEditor = ({ item, existing, onSave, onCancel }: any) => {
+  const [form, setForm] = useState({
+    barcode: item?.barcode || '',
+    name: item?.name || '',
+    category: item?.category || '',
+    location: item?.location || '',
+    shelfLifeDays: item?.shelfLifeDays?.toString() || ''
+  });
+  const barcode = normalizeBarcode(form.barcode);
+  const duplicate = barcode !== item?.barcode && existing.some((i: CatalogItem) => i.barcode === barcode);
+  const inputClass = 'w-full px-4 py-3 bg-slate-50 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm';
+
+  return (
+    <div className="bg-white p-5 rounded-3xl shadow-sm border border-indigo-100 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input className={inputClass} placeholder="Código de barras" value={form.barcode} onChange={e => setForm({ ...form, barcode: e.target.value })} />
+        <input className={inputClass} placeholder="Nome do produto" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+        <input className={inputClass} placeholder="Categoria" value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} />
+        <input className={inputClass} placeholder="Local padrão" value={form.location} onChange={e => setForm({ ...form, location: e.target.value })} />
+        <input
+          type="number"
+          min="1"
+          className={inputClass}
+          placeholder="Validade típica (dias)"
+          value={form.shelfLifeDays}
+          onChange={e => setForm({ ...form, shelfLifeDays: e.target.value })}
+        />
+      </div>
+      {duplicate && <p className="text-xs font-bold text-rose-600">Já existe uma ficha com este código.</p>}
+      <div className="flex gap-2 justify-end">
+        <button onClick={onCancel} className="px-4 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-bold rounded-xl transition-colors">
+          Cancelar
+        </button>
+        <button
+          disabled={!barcode || !form.name.trim() || duplicate}
+          onClick={() => onSave({
+            barcode,
+            name: form.name.trim(),
+            category: form.category.trim() || 'Geral',
+            location: form.location.trim() || undefined,
+            shelfLifeDays: parseInt(form.shelfLifeDays) > 0 ? parseInt(form.shelfLifeDays) : undefined,
+            source: 'MANUAL',
+            updatedAt: Date.now()
+          } as CatalogItem, item?.barcode)}
+          className="px-4 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold rounded-xl transition-all disabled:opacity-50"
+        >
+          Salvar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Catalog;
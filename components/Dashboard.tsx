@@ -1,45 +1,79 @@
 
-import React, { useMemo } from 'react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { Product, ExpiryStatus } from '../types';
-import { calculateDaysRemaining, getExpiryStatus } from '../utils/helpers';
-import { AlertCircle, CheckCircle2, Clock, Package } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { Product, ExpiryBucket, ExpiryStatus, ExpirySettings } from '../types';
+import { computeInventoryStats, TimelineBucketSize } from '../utils/inventoryStats';
+import { computeFinancials } from '../utils/financials';
+import { ListScope, ProductFilter } from '../utils/productFilters';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import ExpiryTimeline from './ExpiryTimeline';
+import StockBreakdown from './StockBreakdown';
+import { AlertCircle, AlertTriangle, CheckCircle2, Clock, Package, TrendingDown, Wallet } from 'lucide-react';
 
 interface DashboardProps {
   products: Product[];
+  expirySettings: ExpirySettings;
+  onOpenInventory: (scope: ListScope | null, filter?: Partial<ProductFilter>) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ products }) => {
-  const stats = useMemo(() => {
-    const s = { expired: 0, warning: 0, safe: 0 };
-    products.forEach(p => {
-      const days = calculateDaysRemaining(p.expiryDate);
-      const status = getExpiryStatus(days);
-      if (status === ExpiryStatus.EXPIRED) s.expired++;
-      else if (status === ExpiryStatus.WARNING) s.warning++;
-      else s.safe++;
+const Dashboard: React.FC<DashboardProps> = ({ products, expirySettings, onOpenInventory }) => {
+  const [horizonDays, setHorizonDays] = useState(30);
+  const [bucketSize, setBucketSize] = useState<TimelineBucketSize>('DAY');
+
+  const inventory = useMemo(
+    () => computeInventoryStats(products, expirySettings, { horizonDays, bucket: bucketSize }),
+    [products, expirySettings, horizonDays, bucketSize]
+  );
+
+  const openSector = (field: 'category' | 'location') => (name: string, status: ExpiryStatus | 'ALL') => {
+    onOpenInventory(null, { [field]: name, status });
+  };
+
+  // As contagens são por lote: um produto com três validades conta três vezes
+  const stats = {
+    total: inventory.total.lots,
+    expired: inventory.byStatus[ExpiryStatus.EXPIRED].lots,
+    critical: inventory.byStatus[ExpiryStatus.CRITICAL].lots,
+    warning: inventory.byStatus[ExpiryStatus.WARNING].lots,
+    safe: inventory.byStatus[ExpiryStatus.SAFE].lots
+  };
+
+  const openBucket = (bucket: ExpiryBucket) => {
+    onOpenInventory({
+      label: bucket.start === bucket.end
+        ? `Vencendo em ${formatDate(bucket.start)}`
+        : `Vencendo de ${formatDate(bucket.start)} a ${formatDate(bucket.end)}`,
+      filter: { expiryRange: { from: bucket.start, to: bucket.end } }
     });
-    return s;
-  }, [products]);
+  };
+
+  const financials = useMemo(() => computeFinancials(products, expirySettings), [products, expirySettings]);
+
+  const lossChartData = financials.monthly.map(m => ({
+    ...m,
+    label: new Date(`${m.month}-01T00:00:00`).toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' })
+  }));
 
   const chartData = [
     { name: 'Vencidos', value: stats.expired, color: '#f43f5e' }, // rose-500
+    { name: 'Crítico', value: stats.critical, color: '#f97316' }, // orange-500
     { name: 'Atenção', value: stats.warning, color: '#f59e0b' }, // amber-500
     { name: 'OK', value: stats.safe, color: '#10b981' }, // emerald-500
   ].filter(d => d.value > 0);
 
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <StatCard title="Total" value={products.length} icon={<Package className="w-5 h-5" />} color="text-indigo-600" bg="bg-indigo-50" />
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <StatCard title="Lotes" value={stats.total} icon={<Package className="w-5 h-5" />} color="text-indigo-600" bg="bg-indigo-50" />
         <StatCard title="Vencidos" value={stats.expired} icon={<AlertCircle className="w-5 h-5" />} color="text-rose-600" bg="bg-rose-50" />
+        <StatCard title="Crítico" value={stats.critical} icon={<AlertTriangle className="w-5 h-5" />} color="text-orange-600" bg="bg-orange-50" />
         <StatCard title="Atenção" value={stats.warning} icon={<Clock className="w-5 h-5" />} color="text-amber-600" bg="bg-amber-50" />
         <StatCard title="Seguros" value={stats.safe} icon={<CheckCircle2 className="w-5 h-5" />} color="text-emerald-600" bg="bg-emerald-50" />
       </div>
 
       <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 flex flex-col md:flex-row items-center gap-8">
         <div className="w-full h-64 md:w-1/2">
-          {products.length > 0 ? (
+          {stats.total > 0 ? (
             <ResponsiveContainer width="100%" height="100%">
               <PieChart>
                 <Pie
@@ -72,24 +106,113 @@ const Dashboard: React.FC<DashboardProps> = ({ products }) => {
           <h3 className="text-xl font-bold text-slate-800">Status do Estoque</h3>
           <p className="text-slate-500 text-sm leading-relaxed">
             Mantenha seu controle em dia. Atualmente, 
-            <span className="font-bold text-rose-500 mx-1">{(stats.expired / products.length * 100 || 0).toFixed(0)}%</span> 
+            <span className="font-bold text-rose-500 mx-1">{(stats.expired / stats.total * 100 || 0).toFixed(0)}%</span> 
             dos seus itens estão fora do prazo.
           </p>
           <div className="pt-2">
              <div className="w-full bg-slate-100 rounded-full h-3">
                 <div 
                   className="bg-emerald-500 h-3 rounded-full transition-all duration-700 shadow-sm" 
-                  style={{ width: `${(stats.safe / products.length * 100) || 0}%` }}
+                  style={{ width: `${(stats.safe / stats.total * 100) || 0}%` }}
                 ></div>
              </div>
-             <p className="text-xs font-bold text-slate-400 mt-3 text-right uppercase tracking-wider">Eficiência: {((stats.safe / products.length * 100) || 0).toFixed(0)}% saudável</p>
+             <p className="text-xs font-bold text-slate-400 mt-3 text-right uppercase tracking-wider">Eficiência: {((stats.safe / stats.total * 100) || 0).toFixed(0)}% saudável</p>
+          </div>
+        </div>
+      </div>
+
+      <ExpiryTimeline
+        timeline={inventory.timeline}
+        horizonDays={horizonDays}
+        bucket={bucketSize}
+        onHorizonChange={setHorizonDays}
+        onBucketChange={setBucketSize}
+        onSelect={openBucket}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <StockBreakdown title="Por categoria" emptyLabel="Sem categoria" sectors={inventory.byCategory} onSelect={openSector('category')} />
+        <StockBreakdown title="Por local" emptyLabel="Sem local" sectors={inventory.byLocation} onSelect={openSector('location')} />
+      </div>
+
+      {/* Perdas financeiras */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <MoneyCard
+          title="Em risco (Atenção/Crítico)"
+          value={financials.atRiskValue}
+          icon={<Wallet className="w-6 h-6" />}
+          color="text-amber-600"
+          bg="bg-amber-50"
+        />
+        <MoneyCard
+          title="Perdido (vencido ou baixado)"
+          value={financials.lostValue}
+          icon={<TrendingDown className="w-6 h-6" />}
+          color="text-rose-600"
+          bg="bg-rose-50"
+        />
+      </div>
+      {financials.productsWithoutCost > 0 && (
+        <p className="text-xs font-bold text-slate-400 -mt-2">
+          {financials.productsWithoutCost} produto(s) sem custo unitário não entram nos valores.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800 mb-4">Perdas por mês</h3>
+          <div className="w-full h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={lossChartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} />
+                <YAxis tick={{ fontSize: 10 }} tickLine={false} axisLine={false} width={60} tickFormatter={v => formatCurrency(v)} />
+                <Tooltip
+                  formatter={(value: any) => formatCurrency(Number(value))}
+                  contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }}
+                />
+                <Legend verticalAlign="bottom" height={36} iconType="circle" />
+                <Bar dataKey="expiredInStock" name="Vencido em estoque" stackId="loss" fill="#f43f5e" />
+                <Bar dataKey="discarded" name="Descartado" stackId="loss" fill="#f97316" />
+                <Bar dataKey="donated" name="Doado" stackId="loss" fill="#6366f1" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
           </div>
         </div>
+
+        <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800 mb-4">Por categoria</h3>
+          {financials.byCategory.length === 0 ? (
+            <div className="h-64 flex items-center justify-center text-slate-400 italic">Nenhuma perda registrada</div>
+          ) : (
+            <div className="space-y-3 max-h-64 overflow-y-auto">
+              {financials.byCategory.map(c => (
+                <div key={c.category} className="flex items-center justify-between gap-4 p-3 bg-slate-50 rounded-2xl">
+                  <span className="font-bold text-slate-700 truncate">{c.category}</span>
+                  <div className="text-right shrink-0">
+                    <p className="text-sm font-black text-rose-600">{formatCurrency(c.lost)}</p>
+                    <p className="text-[10px] font-bold text-amber-500 uppercase tracking-widest">{formatCurrency(c.atRisk)} em risco</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
 };
 
+const MoneyCard = ({ title, value, icon, color, bg }: any) => (
+  <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm flex items-center gap-4">
+    <div className={`${bg} ${color} p-3 rounded-2xl`}>{icon}</div>
+    <div>
+      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{title}</p>
+      <p className={`text-2xl font-black ${color}`}>{formatCurrency(value)}</p>
+    </div>
+  </div>
+);
+
 const StatCard = ({ title, value, icon, color, bg }: any) => (
   <div className="bg-white p-5 rounded-2xl border border-slate-100 shadow-sm transition-transform hover:scale-[1.02]">
     <div className="flex items-center justify-between mb-3">
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { formatDate } from '../utils/helpers';
+import { parseExpiryDate } from '../utils/dateParser';
+
+interface ExpiryInputProps {
+  value: string; // ISO, ou vazio quando o texto não é uma data
+  onChange: (iso: string) => void;
+  className?: string;
+}
+
+const DEFAULT_CLASS = 'w-full px-4 py-3 bg-white border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300';
+
+// Aceita o que estiver impresso no rótulo ("DEZ/25", "31.12.25", "12/2025") e guarda em ISO
+const ExpiryInput: React.FC<ExpiryInputProps> = ({ value, onChange, className = DEFAULT_CLASS }) => {
+  const [text, setText] = useState(value ? formatDate(value) : '');
+  const parsed = parseExpiryDate(text);
+
+  // Data aplicada de fora (sugestão do catálogo) substitui o texto digitado
+  useEffect(() => {
+    if (value && value !== parsed?.iso) setText(formatDate(value));
+  }, [value]);
+
+  return (
+    <>
+      <input
+        required
+        type="text"
+        className={className}
+        placeholder="DD/MM/AAAA"
+        value={text}
+        onChange={e => {
+          setText(e.target.value);
+          onChange(parseExpiryDate(e.target.value)?.iso || '');
+        }}
+      />
+      {text && (
+        <p className={`mt-1 text-[10px] font-bold ${parsed ? 'text-slate-400' : 'text-rose-500'}`}>
+          {parsed ? `${formatDate(parsed.iso)}${parsed.monthOnly ? ' (fim do mês)' : ''}` : 'Data não reconhecida'}
+        </p>
+      )}
+    </>
+  );
+};
+
+export default ExpiryInput;
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { ExpirySettings, Product } from '../types';
+import { EMPTY_PRODUCT_FILTER, ProductFilter, filterProductGroups } from '../utils/productFilters';
+import { GROUPING_LABELS, REPORT_PRESETS, ReportGrouping, exportExpiryReport } from '../utils/pdfReport';
+import { Printer, X } from 'lucide-react';
+
+interface ExpiryReportProps {
+  products: Product[];
+  currentFilter: ProductFilter; // filtro aplicado na lista de itens
+  expirySettings: ExpirySettings;
+  onClose: () => void;
+}
+
+const CURRENT_FILTER = 'CURRENT';
+
+const ExpiryReport: React.FC<ExpiryReportProps> = ({ products, currentFilter, expirySettings, onClose }) => {
+  const [presetId, setPresetId] = useState(REPORT_PRESETS[0].id);
+  const [grouping, setGrouping] = useState<ReportGrouping>('LOCATION');
+
+  const preset = REPORT_PRESETS.find(p => p.id === presetId);
+  const filter: ProductFilter = preset ? { ...EMPTY_PRODUCT_FILTER, ...preset.filter } : currentFilter;
+
+  const groups = useMemo(
+    () => filterProductGroups(products, expirySettings, filter).filter(g => g.lots.length > 0),
+    [products, expirySettings, presetId, currentFilter]
+  );
+  const lotCount = groups.reduce((sum, g) => sum + g.lots.length, 0);
+
+  const handleExport = () => {
+    exportExpiryReport(groups, expirySettings, grouping, preset?.label || 'Filtro da lista');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight">Relatório para impressão</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              PDF com coluna para marcar na conferência
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-5">
+          <div>
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Quais lotes</span>
+            <div className="grid grid-cols-2 gap-2">
+              {REPORT_PRESETS.map(p => (
+                <OptionButton key={p.id} active={presetId === p.id} onClick={() => setPresetId(p.id)}>{p.label}</OptionButton>
+              ))}
+              <OptionButton active={presetId === CURRENT_FILTER} onClick={() => setPresetId(CURRENT_FILTER)}>Filtro da lista</OptionButton>
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Agrupar por</span>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(GROUPING_LABELS) as ReportGrouping[]).map(g => (
+                <OptionButton key={g} active={grouping === g} onClick={() => setGrouping(g)}>{GROUPING_LABELS[g]}</OptionButton>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={lotCount === 0}
+            className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98] disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Printer className="w-5 h-5" /> Gerar PDF com {lotCount} lote(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const OptionButton = ({ active, onClick, children }: any) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-wider border transition-all ${
+      active ? 'border-indigo-100 text-indigo-600 bg-indigo-50' : 'border-slate-50 text-slate-400 bg-white hover:bg-slate-50'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+export default ExpiryReport;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { ExpiryBucket, StockTotals } from '../types';
+import { TIMELINE_HORIZONS, TimelineBucketSize } from '../utils/inventoryStats';
+import { formatDate } from '../utils/helpers';
+
+interface ExpiryTimelineProps {
+  timeline: ExpiryBucket[];
+  horizonDays: number;
+  bucket: TimelineBucketSize;
+  onHorizonChange: (days: number) => void;
+  onBucketChange: (bucket: TimelineBucketSize) => void;
+  onSelect: (bucket: ExpiryBucket) => void;
+}
+
+type Metric = keyof StockTotals;
+
+// Acima disso as categorias menores viram "Outras" para o gráfico continuar legível
+const MAX_STACKED_CATEGORIES = 6;
+const OTHER_CATEGORIES = 'Outras';
+const CATEGORY_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#f43f5e', '#0ea5e9', '#8b5cf6', '#94a3b8'];
+
+const shortDate = (iso: string) => formatDate(iso).slice(0, 5);
+
+const ExpiryTimeline: React.FC<ExpiryTimelineProps> = ({ timeline, horizonDays, bucket, onHorizonChange, onBucketChange, onSelect }) => {
+  const [metric, setMetric] = useState<Metric>('units');
+  const [stacked, setStacked] = useState(false);
+
+  const categories = useMemo(() => {
+    const totals = new Map<string, number>();
+    timeline.forEach(b => Object.entries(b.byCategory).forEach(([name, t]) => totals.set(name, (totals.get(name) || 0) + t[metric])));
+    const sorted = [...totals.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+    return sorted.length > MAX_STACKED_CATEGORIES
+      ? [...sorted.slice(0, MAX_STACKED_CATEGORIES), OTHER_CATEGORIES]
+      : sorted;
+  }, [timeline, metric]);
+
+  const data = useMemo(() => timeline.map(b => {
+    const values: Record<string, number> = {};
+    Object.entries(b.byCategory).forEach(([name, t]) => {
+      const key = categories.includes(name) ? name : OTHER_CATEGORIES;
+      values[key] = (values[key] || 0) + t[metric];
+    });
+    return {
+      bucket: b,
+      label: bucket === 'WEEK' ? `${shortDate(b.start)}–${shortDate(b.end)}` : shortDate(b.start),
+      total: b.totals[metric],
+      values
+    };
+  }), [timeline, categories, metric, bucket]);
+
+  const metricLabel = metric === 'units' ? 'Unidades' : 'Lotes';
+  const isEmpty = timeline.every(b => b.totals.lots === 0);
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Linha do tempo de vencimentos</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Clique numa barra para ver os itens do período</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Toggle options={TIMELINE_HORIZONS.map(d => [d, `${d} dias`])} value={horizonDays} onChange={onHorizonChange} />
+          <Toggle options={[['DAY', 'Dia'], ['WEEK', 'Semana']]} value={bucket} onChange={onBucketChange} />
+          <Toggle options={[['units', 'Unidades'], ['lots', 'Lotes']]} value={metric} onChange={setMetric} />
+          <Toggle options={[[false, 'Total'], [true, 'Por categoria']]} value={stacked} onChange={setStacked} />
+        </div>
+      </div>
+      <div className="w-full h-72">
+        {isEmpty ? (
+          <div className="h-full flex items-center justify-center text-slate-400 italic">
+            Nada vence nos próximos {horizonDays} dias
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} interval="preserveStartEnd" />
+              <YAxis tick={{ fontSize: 10 }} tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+              <Tooltip
+                cursor={{ fill: '#f8fafc' }}
+                contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }}
+              />
+              {stacked ? (
+                <>
+                  <Legend verticalAlign="bottom" height={36} iconType="circle" />
+                  {categories.map((name, i) => (
+                    <Bar
+                      key={name}
+                      // Função em vez de caminho: nomes de categoria podem ter pontos
+                      dataKey={(row: any) => row.values[name] || 0}
+                      name={name}
+                      stackId="category"
+                      fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]}
+                      className="cursor-pointer"
+                      onClick={(entry: any) => onSelect(entry.payload.bucket)}
+                    />
+                  ))}
+                </>
+              ) : (
+                <Bar
+                  dataKey="total"
+                  name={metricLabel}
+                  fill="#6366f1"
+                  radius={[6, 6, 0, 0]}
+                  className="cursor-pointer"
+                  onClick={(entry: any) => onSelect(entry.payload.bucket)}
+                />
+              )}
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const Toggle = ({ options, value, onChange }: any) => (
+  <div className="flex bg-slate-50 p-1 rounded-xl">
+    {options.map(([optionValue, label]: [any, string]) => (
+      <button
+        key={String(optionValue)}
+        onClick={() => onChange(optionValue)}
+        className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${
+          value === optionValue ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+        }`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ExpiryTimeline;
@@ -0,0 +1,524 @@
+import React, { useMemo, useState } from 'react';
+import { ImportField, ImportMode, ImportOptions, Product, UpsertKey } from '../types';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportDiagnostics,
+  ImportEntry,
+  RowValues,
+  RowParseOptions,
+  SpreadsheetData,
+  expiryColumnValues,
+  mapRows,
+  missingRequiredFields,
+  validateRowValues
+} from '../utils/excelParser';
+import { UPSERT_KEY_LABELS, planImport } from '../utils/importPlan';
+import { detectDateOrder } from '../utils/dateParser';
+import { AlertTriangle, ArrowLeft, ArrowRight, CalendarClock, CheckCircle2, FileSpreadsheet, Layers, Trash2, X } from 'lucide-react';
+
+type WizardStep = 'SHEETS' | 'PREVIEW' | 'MAPPING' | 'REVIEW' | 'CONFIRM';
+
+export interface SheetImport {
+  sheet: string;
+  mapping: ColumnMapping;
+  diagnostics: ImportDiagnostics;
+}
+
+interface ImportWizardProps {
+  data: SpreadsheetData;
+  products: Product[];
+  initialMappings: Record<string, ColumnMapping>; // por aba
+  initialOptions: ImportOptions;
+  // Layout já conhecido: o mapeamento salvo é aplicado sem perguntar
+  isSavedLayout: boolean;
+  onConfirm: (entries: ImportEntry[], sheets: SheetImport[], options: ImportOptions) => void;
+  onCancel: () => void;
+}
+
+const STEP_LABELS: Record<WizardStep, string> = {
+  SHEETS: 'Abas',
+  PREVIEW: 'Prévia',
+  MAPPING: 'Colunas',
+  REVIEW: 'Revisão',
+  CONFIRM: 'Confirmar'
+};
+
+const PREVIEW_ROWS = 8;
+
+const MODES: { id: ImportMode; label: string; hint: string }[] = [
+  { id: 'APPEND', label: 'Adicionar', hint: 'Cada linha entra como recebimento' },
+  { id: 'UPSERT', label: 'Atualizar', hint: 'Atualiza lotes existentes e cria os novos' },
+  { id: 'REPLACE', label: 'Substituir', hint: 'Apaga o estoque atual e usa só a planilha' }
+];
+
+// Correções e descartes são identificados por aba + linha
+const rowKey = (sheet: string, row: number) => `${sheet}#${row}`;
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ data, products, initialMappings, initialOptions, isSavedLayout, onConfirm, onCancel }) => {
+  const isWorkbook = data.sheets.length > 1;
+  const steps: WizardStep[] = isWorkbook
+    ? ['SHEETS', 'PREVIEW', 'MAPPING', 'REVIEW', 'CONFIRM']
+    : ['PREVIEW', 'MAPPING', 'REVIEW', 'CONFIRM'];
+
+  const [selected, setSelected] = useState<string[]>(data.sheets.map(s => s.name));
+  const [activeSheet, setActiveSheet] = useState(data.sheets[0].name);
+  const [mappings, setMappings] = useState<Record<string, ColumnMapping>>(initialMappings);
+  const [options, setOptions] = useState<ImportOptions>(initialOptions);
+  const [replaceConfirmed, setReplaceConfirmed] = useState(false);
+  // Correções feitas à mão nas linhas rejeitadas
+  const [fixes, setFixes] = useState<Record<string, RowValues>>({});
+  const [dropped, setDropped] = useState<Set<string>>(new Set());
+
+  const selectedSheets = data.sheets.filter(s => selected.includes(s.name));
+
+  // A ordem dia/mês vale para o arquivo todo: só se pergunta quando nenhuma data a resolve
+  const detectedOrder = useMemo(
+    () => detectDateOrder(selectedSheets.flatMap(sheet => expiryColumnValues(sheet, mappings[sheet.name]))),
+    [data, selected, mappings]
+  );
+  const dateOrder = detectedOrder === 'AMBIGUOUS' ? options.dateOrder : detectedOrder;
+  const needsDateOrder = detectedOrder === 'AMBIGUOUS' && !options.dateOrder;
+
+  const results = useMemo(
+    () => selectedSheets.map(sheet => {
+      const parseOptions: RowParseOptions = {
+        defaultCategory: options.sheetAsCategory ? sheet.name : undefined,
+        dateOrder
+      };
+      return { sheet, parseOptions, result: mapRows(sheet, mappings[sheet.name], parseOptions) };
+    }),
+    [data, selected, mappings, options.sheetAsCategory, dateOrder]
+  );
+
+  const sheetStates = results.map(({ sheet, parseOptions, result }) => {
+    const rejected = result.diagnostics.skippedRows
+      .filter(r => !dropped.has(rowKey(sheet.name, r.row)))
+      .map(r => {
+        const values = fixes[rowKey(sheet.name, r.row)] || r.values;
+        return { ...r, values, check: validateRowValues(values, parseOptions) };
+      });
+    const fixed = rejected.filter(r => r.check.entry).map(r => r.check.entry!);
+    const pending = rejected.filter(r => !r.check.entry);
+    const diagnostics: ImportDiagnostics = {
+      ...result.diagnostics,
+      successCount: result.products.length + fixed.length,
+      skippedRows: [
+        ...pending.map(({ row, values, check }) => ({ row, values, reason: check.reason! })),
+        ...result.diagnostics.skippedRows
+          .filter(r => dropped.has(rowKey(sheet.name, r.row)))
+          .map(r => ({ ...r, reason: `Descartada: ${r.reason}` }))
+      ]
+    };
+    return { sheet, result, rejected, entries: [...result.products, ...fixed], pending, diagnostics };
+  });
+
+  const entries = sheetStates.flatMap(s => s.entries);
+  const pendingCount = sheetStates.reduce((sum, s) => sum + s.pending.length, 0);
+  const hasRejected = sheetStates.some(s => s.result.diagnostics.skippedRows.length > 0);
+  const incompleteSheets = selectedSheets.filter(s => missingRequiredFields(mappings[s.name]).length > 0);
+
+  const [step, setStep] = useState<WizardStep>(() => {
+    if (!isSavedLayout || incompleteSheets.length > 0) return steps[0];
+    if (needsDateOrder) return 'MAPPING';
+    return hasRejected ? 'REVIEW' : 'CONFIRM';
+  });
+
+  // Simulação da importação para o resumo de diferenças
+  const plan = step === 'CONFIRM' ? planImport(products, entries, options) : null;
+  const blocked = entries.length === 0 || (options.mode === 'REPLACE' && !replaceConfirmed);
+
+  const currentSheet = selectedSheets.find(s => s.name === activeSheet) || selectedSheets[0];
+  const mapping = currentSheet ? mappings[currentSheet.name] : {};
+  const missing = missingRequiredFields(mapping);
+
+  const toggleSheet = (name: string) => {
+    const next = selected.includes(name) ? selected.filter(n => n !== name) : [...selected, name];
+    setSelected(next);
+    if (!next.includes(activeSheet) && next.length > 0) setActiveSheet(next[0]);
+  };
+
+  const assignColumn = (column: string, field: ImportField | null) => {
+    // Cada campo aponta para uma única coluna
+    const next: ColumnMapping = { ...mapping };
+    if (field) Object.keys(next).forEach(c => { if (next[c] === field) next[c] = null; });
+    next[column] = field;
+    setMappings({ ...mappings, [currentSheet.name]: next });
+    setFixes({});
+    setDropped(new Set());
+  };
+
+  const updateFix = (key: string, values: RowValues, field: ImportField, value: string) =>
+    setFixes(prev => ({ ...prev, [key]: { ...values, [field]: value } }));
+
+  const dropRow = (key: string) => setDropped(prev => new Set(prev).add(key));
+
+  const goNext = () => {
+    if (step === 'SHEETS') setStep('PREVIEW');
+    else if (step === 'PREVIEW') setStep('MAPPING');
+    else if (step === 'MAPPING') setStep(hasRejected ? 'REVIEW' : 'CONFIRM');
+    else if (step === 'REVIEW') setStep('CONFIRM');
+  };
+
+  const goBack = () => {
+    if (step === 'PREVIEW') setStep('SHEETS');
+    else if (step === 'MAPPING') setStep('PREVIEW');
+    else if (step === 'REVIEW') setStep('MAPPING');
+    else if (step === 'CONFIRM') setStep(hasRejected ? 'REVIEW' : 'MAPPING');
+  };
+
+  const canAdvance = (step === 'SHEETS' && selected.length > 0)
+    || step === 'PREVIEW'
+    || (step === 'MAPPING' && incompleteSheets.length === 0 && !needsDateOrder)
+    || step === 'REVIEW';
+
+  const confirm = () => onConfirm(
+    entries,
+    sheetStates.map(s => ({ sheet: s.sheet.name, mapping: mappings[s.sheet.name], diagnostics: s.diagnostics })),
+    options
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight">Importar planilha</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+              {data.fileName} · {isWorkbook ? `${data.sheets.length} abas` : `${data.sheets[0].rows.length} linha(s)`}
+              {isSavedLayout ? ' · layout conhecido' : ''}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-8 pt-5 flex gap-2">
+          {steps.map((s, i) => (
+            <div key={s} className="flex-1">
+              <div className={`h-1.5 rounded-full ${steps.indexOf(step) >= i ? 'bg-indigo-500' : 'bg-slate-100'}`} />
+              <p className={`mt-2 text-[10px] font-black uppercase tracking-widest ${s === step ? 'text-indigo-600' : 'text-slate-300'}`}>{STEP_LABELS[s]}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1">
+          {step === 'SHEETS' && (
+            <div className="space-y-3">
+              <p className="text-sm text-slate-500">Escolha quais abas da pasta de trabalho serão importadas.</p>
+              {data.sheets.map(sheet => (
+                <label key={sheet.name} className="flex items-center gap-3 p-4 bg-slate-50 rounded-2xl cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="rounded text-indigo-600 focus:ring-indigo-500"
+                    checked={selected.includes(sheet.name)}
+                    onChange={() => toggleSheet(sheet.name)}
+                  />
+                  <Layers className="w-4 h-4 text-emerald-500 shrink-0" />
+                  <span className="font-bold text-slate-800 flex-1 truncate">{sheet.name}</span>
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{sheet.rows.length} linha(s)</span>
+                </label>
+              ))}
+              <label className="flex items-center gap-3 p-4 border border-slate-100 rounded-2xl cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded text-indigo-600 focus:ring-indigo-500"
+                  checked={!!options.sheetAsCategory}
+                  onChange={e => setOptions({ ...options, sheetAsCategory: e.target.checked })}
+                />
+                <span className="text-sm text-slate-600">Usar o nome da aba como categoria quando a linha não tiver uma</span>
+              </label>
+            </div>
+          )}
+
+          {(step === 'PREVIEW' || step === 'MAPPING') && isWorkbook && (
+            <div className="flex gap-2 mb-5 overflow-x-auto">
+              {selectedSheets.map(sheet => (
+                <button
+                  key={sheet.name}
+                  onClick={() => setActiveSheet(sheet.name)}
+                  className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-wider whitespace-nowrap border transition-all ${
+                    sheet.name === currentSheet.name ? 'border-indigo-100 text-indigo-600 bg-indigo-50' : 'border-slate-50 text-slate-400 bg-white hover:bg-slate-50'
+                  }`}
+                >
+                  {sheet.name}
+                  {incompleteSheets.includes(sheet) && <span className="ml-1 text-rose-500">•</span>}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {step === 'PREVIEW' && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-500">Confira se o arquivo foi lido corretamente antes de continuar.</p>
+              <div className="overflow-x-auto rounded-2xl border border-slate-100">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      {currentSheet.columns.map(c => (
+                        <th key={c} className="px-3 py-2 text-left font-black text-slate-500 whitespace-nowrap">{c}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {currentSheet.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                      <tr key={i} className="border-t border-slate-50">
+                        {currentSheet.columns.map(c => (
+                          <td key={c} className="px-3 py-2 text-slate-700 whitespace-nowrap">{String(row[c] ?? '')}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {currentSheet.rows.length > PREVIEW_ROWS && (
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  + {currentSheet.rows.length - PREVIEW_ROWS} linha(s) não exibidas
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'MAPPING' && (
+            <div className="space-y-3">
+              <p className="text-sm text-slate-500">Indique o que cada coluna representa. Colunas sem campo são ignoradas.</p>
+              {currentSheet.columns.map(column => (
+                <div key={column} className="flex items-center gap-3 p-3 bg-slate-50 rounded-2xl">
+                  <FileSpreadsheet className="w-4 h-4 text-emerald-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-800 truncate">{column}</p>
+                    <p className="text-[10px] text-slate-400 truncate">ex.: {String(currentSheet.rows[0]?.[column] ?? '') || '—'}</p>
+                  </div>
+                  <select
+                    className="w-44 px-4 py-2.5 bg-white border-none rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    value={mapping[column] || ''}
+                    onChange={e => assignColumn(column, (e.target.value || null) as ImportField | null)}
+                  >
+                    <option value="">Ignorar</option>
+                    {IMPORT_FIELDS.map(f => (
+                      <option key={f.field} value={f.field}>{f.label}{f.required ? ' *' : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {missing.length > 0 && (
+                <div className="bg-rose-50 border-l-4 border-rose-500 p-3 rounded-r-xl text-rose-700 text-sm font-bold">
+                  Falta indicar: {missing.map(f => IMPORT_FIELDS.find(x => x.field === f)!.label).join(', ')}
+                </div>
+              )}
+              {missing.length === 0 && incompleteSheets.length > 0 && (
+                <p className="text-sm text-rose-600 font-bold">Complete também: {incompleteSheets.map(s => s.name).join(', ')}</p>
+              )}
+              {detectedOrder === 'AMBIGUOUS' && (
+                <div className="p-4 bg-amber-50 rounded-2xl space-y-3">
+                  <div className="flex items-start gap-3">
+                    <CalendarClock className="w-5 h-5 text-amber-500 shrink-0" />
+                    <p className="text-sm text-amber-800">
+                      As datas deste arquivo servem tanto para dia/mês quanto para mês/dia. Como devem ser lidas?
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {([['DMY', 'Dia/mês (03/04 = 3 de abril)'], ['MDY', 'Mês/dia (03/04 = 4 de março)']] as const).map(([order, label]) => (
+                      <button
+                        key={order}
+                        onClick={() => setOptions({ ...options, dateOrder: order })}
+                        className={`px-3 py-2.5 rounded-xl text-xs font-bold border transition-all ${
+                          options.dateOrder === order ? 'border-indigo-100 text-indigo-600 bg-indigo-50' : 'border-amber-100 text-slate-600 bg-white hover:bg-slate-50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'REVIEW' && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-500">
+                {sheetStates.reduce((sum, s) => sum + s.result.products.length, 0)} linha(s) válidas. Corrija as rejeitadas abaixo ou descarte-as.
+              </p>
+              {sheetStates.every(s => s.rejected.length === 0) && (
+                <p className="text-slate-400 text-sm text-center italic py-6">Nenhuma linha pendente.</p>
+              )}
+              {sheetStates.map(({ sheet, rejected }) => rejected.map(r => {
+                const key = rowKey(sheet.name, r.row);
+                const fields = IMPORT_FIELDS.filter(f => Object.values(mappings[sheet.name]).includes(f.field));
+                return (
+                  <div key={key} className={`p-4 rounded-2xl space-y-3 ${r.check.entry ? 'bg-emerald-50' : 'bg-rose-50'}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                        {isWorkbook ? `${sheet.name} · ` : ''}Linha {r.row}
+                      </span>
+                      <span className={`text-xs font-bold flex-1 truncate ${r.check.entry ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {r.check.entry ? 'Corrigida' : r.check.reason}
+                      </span>
+                      <button onClick={() => dropRow(key)} title="Descartar linha" className="p-1.5 text-slate-400 hover:text-rose-500 transition-colors">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {fields.map(f => (
+                        <div key={f.field}>
+                          <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{f.label}</label>
+                          <input
+                            className="w-full px-3 py-2 bg-white border-none rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                            value={r.values[f.field] || ''}
+                            onChange={e => updateFix(key, r.values, f.field, e.target.value)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              }))}
+            </div>
+          )}
+
+          {step === 'CONFIRM' && plan && (
+            <div className="space-y-5">
+              <div className="grid grid-cols-3 gap-2">
+                {MODES.map(m => (
+                  <button
+                    key={m.id}
+                    onClick={() => { setOptions({ ...options, mode: m.id }); setReplaceConfirmed(false); }}
+                    className={`p-3 rounded-2xl border text-left transition-all ${
+                      options.mode === m.id ? 'border-indigo-100 bg-indigo-50' : 'border-slate-50 bg-white hover:bg-slate-50'
+                    }`}
+                  >
+                    <p className={`text-[10px] font-black uppercase tracking-wider ${options.mode === m.id ? 'text-indigo-600' : 'text-slate-400'}`}>{m.label}</p>
+                    <p className="text-[11px] text-slate-500 mt-1">{m.hint}</p>
+                  </button>
+                ))}
+              </div>
+
+              {options.mode === 'UPSERT' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Chave</label>
+                    <select
+                      className="w-full px-4 py-3 bg-slate-50 border-none rounded-2xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                      value={options.upsertKey}
+                      onChange={e => setOptions({ ...options, upsertKey: e.target.value as UpsertKey })}
+                    >
+                      {(Object.keys(UPSERT_KEY_LABELS) as UpsertKey[]).map(k => (
+                        <option key={k} value={k}>{UPSERT_KEY_LABELS[k]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Quantidade</label>
+                    <select
+                      className="w-full px-4 py-3 bg-slate-50 border-none rounded-2xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                      value={options.quantity}
+                      onChange={e => setOptions({ ...options, quantity: e.target.value as ImportOptions['quantity'] })}
+                    >
+                      <option value="OVERWRITE">Sobrescrever saldo</option>
+                      <option value="SUM">Somar ao saldo</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <SummaryCard label="Novos" value={plan.diff.added} color="text-emerald-600" />
+                <SummaryCard label="Atualizados" value={plan.diff.updated} color="text-indigo-600" />
+                <SummaryCard label="Sem mudança" value={plan.diff.unchanged} color="text-slate-800" />
+                <SummaryCard label="Conflitos" value={plan.diff.conflicts.length} color="text-amber-600" />
+              </div>
+
+              {isWorkbook && (
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Por aba</p>
+                  {sheetStates.map(({ sheet, diagnostics }) => (
+                    <div key={sheet.name} className="flex items-center gap-3 px-4 py-2.5 bg-slate-50 rounded-xl text-xs">
+                      <Layers className="w-4 h-4 text-emerald-500 shrink-0" />
+                      <span className="font-bold text-slate-700 flex-1 truncate">{sheet.name}</span>
+                      <span className="text-slate-500">{diagnostics.successCount} de {diagnostics.totalRowsFound}</span>
+                      {diagnostics.skippedRows.length > 0 && (
+                        <span className="text-rose-500 font-bold">{diagnostics.skippedRows.length} fora</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {plan.diff.conflicts.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Conflitos (não serão aplicados)</p>
+                  {plan.diff.conflicts.map((c, i) => (
+                    <div key={i} className="flex items-center gap-3 px-4 py-2.5 bg-amber-50 rounded-xl text-xs">
+                      <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
+                      <span className="font-bold text-slate-700 truncate">{c.entry.name}</span>
+                      <span className="text-slate-500 truncate flex-1">{c.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {options.mode === 'REPLACE' && (
+                <label className="flex items-start gap-3 p-4 bg-rose-50 rounded-2xl text-sm text-rose-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5 rounded text-rose-600 focus:ring-rose-500"
+                    checked={replaceConfirmed}
+                    onChange={e => setReplaceConfirmed(e.target.checked)}
+                  />
+                  <span>Entendo que os <strong>{plan.diff.removed} produto(s)</strong> atuais e seu histórico serão apagados.</span>
+                </label>
+              )}
+
+              {pendingCount + dropped.size > 0 && (
+                <p className="text-sm text-slate-500">
+                  {pendingCount} linha(s) ainda com erro e {dropped.size} descartada(s) ficarão de fora.
+                </p>
+              )}
+              <p className="text-xs text-slate-400">O mapeamento e o modo serão lembrados para arquivos com o mesmo layout.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 border-t border-slate-50 flex gap-3">
+          {step === steps[0] ? (
+            <button onClick={onCancel} className="flex-1 py-4 px-4 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors">
+              Cancelar
+            </button>
+          ) : (
+            <button onClick={goBack} className="flex-1 flex items-center justify-center gap-2 py-4 px-4 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors">
+              <ArrowLeft className="w-4 h-4" /> Voltar
+            </button>
+          )}
+          {step === 'CONFIRM' ? (
+            <button
+              onClick={confirm}
+              disabled={blocked}
+              className="flex-1 flex items-center justify-center gap-2 py-4 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98] disabled:opacity-50"
+            >
+              <CheckCircle2 className="w-4 h-4" /> Importar {entries.length}
+            </button>
+          ) : (
+            <button
+              onClick={goNext}
+              disabled={!canAdvance}
+              className="flex-1 flex items-center justify-center gap-2 py-4 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98] disabled:opacity-50"
+            >
+              Continuar <ArrowRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SummaryCard = ({ label, value, color }: any) => (
+  <div className="bg-slate-50 p-4 rounded-2xl text-center">
+    <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">{label}</p>
+    <p className={`text-4xl font-black ${color}`}>{value}</p>
+  </div>
+);
+
+export default ImportWizard;
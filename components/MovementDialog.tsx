@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Lot, MovementType, Product } from '../types';
+import { MOVEMENT_LABELS, MovementInput } from '../utils/ledger';
+import { formatDate, toISODate } from '../utils/helpers';
+import { X } from 'lucide-react';
+
+interface MovementDialogProps {
+  product: Product;
+  lot: Lot;
+  initialType: MovementType;
+  onSubmit: (input: MovementInput) => void;
+  onClose: () => void;
+}
+
+const MovementDialog: React.FC<MovementDialogProps> = ({ product, lot, initialType, onSubmit, onClose }) => {
+  const [type, setType] = useState<MovementType>(initialType);
+  // Descarte por vencimento costuma levar o lote inteiro
+  const [quantity, setQuantity] = useState(initialType === MovementType.DISCARD_EXPIRED ? lot.quantity : 1);
+  const [reason, setReason] = useState(MOVEMENT_LABELS[initialType]);
+  const [date, setDate] = useState(toISODate());
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdjust = type === MovementType.ADJUST;
+
+  const changeType = (next: MovementType) => {
+    setType(next);
+    setReason(MOVEMENT_LABELS[next]);
+    setQuantity(next === MovementType.ADJUST ? lot.quantity : next === MovementType.DISCARD_EXPIRED ? lot.quantity : 1);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (quantity < 0 || (!isAdjust && quantity === 0)) {
+      setError('Informe uma quantidade maior que zero.');
+      return;
+    }
+    if (!isAdjust && type !== MovementType.RECEIVE && quantity > lot.quantity) {
+      setError(`O lote tem apenas ${lot.quantity} unidade(s).`);
+      return;
+    }
+    // No ajuste o usuário informa a contagem; o lançamento guarda a diferença
+    const movementQuantity = isAdjust ? quantity - lot.quantity : quantity;
+    if (isAdjust && movementQuantity === 0) {
+      onClose();
+      return;
+    }
+    onSubmit({ lotId: lot.id, type, quantity: movementQuantity, reason: reason.trim() || MOVEMENT_LABELS[type], date, note: note.trim() || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight">Baixa de estoque</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+              {product.name} · vence {formatDate(lot.expiryDate)} · saldo {lot.quantity}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-8 space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {Object.values(MovementType).map(t => (
+              <button
+                key={t}
+                type="button"
+                onClick={() => changeType(t)}
+                className={`px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-wider border transition-all ${
+                  type === t ? 'border-indigo-100 text-indigo-600 bg-indigo-50' : 'border-slate-50 text-slate-400 bg-white hover:bg-slate-50'
+                }`}
+              >
+                {MOVEMENT_LABELS[t]}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">
+                {isAdjust ? 'Contagem' : 'Qtd.'}
+              </label>
+              <input
+                required
+                type="number"
+                min="0"
+                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                value={quantity}
+                onChange={e => setQuantity(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Data</label>
+              <input
+                required
+                type="date"
+                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                value={date}
+                onChange={e => setDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Motivo</label>
+            <input
+              type="text"
+              className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Observação</label>
+            <textarea
+              rows={2}
+              className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300 resize-none"
+              placeholder="Opcional"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-rose-50 border-l-4 border-rose-500 p-3 rounded-r-xl text-rose-700 text-sm font-bold">{error}</div>
+          )}
+
+          <div className="pt-2 flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-4 px-4 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 py-4 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98]"
+            >
+              Registrar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MovementDialog;
@@ -1,45 +1,129 @@
 
-import React, { useState, useEffect } from 'react';
-import { Product } from '../types';
-import { X, Barcode } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { CatalogItem, Lot, Product, ProductEntry } from '../types';
+import { formatDate, generateId, parseMoney, toISODate } from '../utils/helpers';
+import { findCatalogItem, suggestExpiryDate } from '../utils/catalog';
+import { getActiveLots } from '../utils/lots';
+import ExpiryInput from './ExpiryInput';
+import { X, Barcode, PlusCircle, Trash2, BookOpen } from 'lucide-react';
 
 interface ProductFormProps {
-  onSubmit: (data: Omit<Product, 'id' | 'createdAt'>) => void;
+  onSubmit: (data: Omit<Product, 'id' | 'createdAt' | 'movements'>) => void;
   onClose: () => void;
   initialData?: Product | null;
+  // Campos já conhecidos de um novo registro (ex.: código lido pelo scanner)
+  prefill?: Partial<ProductEntry> | null;
+  catalog: CatalogItem[];
 }
 
-const ProductForm: React.FC<ProductFormProps> = ({ onSubmit, onClose, initialData }) => {
-  const [formData, setFormData] = useState({
+type FormFields = { name: string; category: string; barcode: string; unitCost: string; salePrice: string };
+
+// Completa só o que está vazio: nunca sobrescreve o que o usuário digitou
+const fillFromCatalog = (form: FormFields, lots: Lot[], item: CatalogItem): [FormFields, Lot[]] => [
+  { ...form, barcode: form.barcode || item.barcode, name: form.name || item.name, category: form.category || item.category },
+  lots.map(l => (l.location || !item.location ? l : { ...l, location: item.location }))
+];
+
+const emptyLot = (): Lot => ({
+  id: generateId(),
+  expiryDate: '',
+  quantity: 1,
+  location: '',
+  receivedAt: toISODate()
+});
+
+const ProductForm: React.FC<ProductFormProps> = ({ onSubmit, onClose, initialData, prefill, catalog }) => {
+  const [formData, setFormData] = useState<FormFields>({
     name: '',
     category: '',
-    expiryDate: '',
-    quantity: 1,
-    location: '',
-    barcode: ''
+    barcode: '',
+    unitCost: '',
+    salePrice: ''
   });
+  const [lots, setLots] = useState<Lot[]>([emptyLot()]);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (initialData) {
       setFormData({
         name: initialData.name,
         category: initialData.category,
-        expiryDate: initialData.expiryDate,
-        quantity: initialData.quantity,
-        location: initialData.location || '',
-        barcode: initialData.barcode || ''
+        barcode: initialData.barcode || '',
+        unitCost: initialData.unitCost?.toString() ?? '',
+        salePrice: initialData.salePrice?.toString() ?? ''
       });
+      // Lotes zerados são histórico: não voltam ao formulário, mas também não somem do produto
+      const active = getActiveLots(initialData);
+      setLots(active.length > 0 ? active : [emptyLot()]);
+    } else if (prefill) {
+      const form: FormFields = {
+        name: prefill.name || '',
+        category: prefill.category || '',
+        barcode: prefill.barcode || '',
+        unitCost: prefill.unitCost?.toString() ?? '',
+        salePrice: prefill.salePrice?.toString() ?? ''
+      };
+      const prefilledLots = [{
+        ...emptyLot(),
+        expiryDate: prefill.expiryDate || '',
+        quantity: prefill.quantity ?? 1,
+        location: prefill.location || ''
+      }];
+      const item = findCatalogItem(catalog, prefill.barcode);
+      const [filledForm, filledLots] = item ? fillFromCatalog(form, prefilledLots, item) : [form, prefilledLots];
+      setFormData(filledForm);
+      setLots(filledLots);
+    }
+  }, [initialData, prefill]);
+
+  const catalogItem = useMemo(() => findCatalogItem(catalog, formData.barcode), [catalog, formData.barcode]);
+
+  const handleBarcodeChange = (barcode: string) => {
+    const next = { ...formData, barcode };
+    const item = findCatalogItem(catalog, barcode);
+    if (!item) {
+      setFormData(next);
+      return;
+    }
+    const [filledForm, filledLots] = fillFromCatalog(next, lots, item);
+    setFormData(filledForm);
+    setLots(filledLots);
+  };
+
+  // Escolher um nome do catálogo traz o código e a categoria junto
+  const handleNameChange = (name: string) => {
+    const next = { ...formData, name };
+    const item = catalog.find(i => i.name.toLowerCase() === name.trim().toLowerCase());
+    if (!item || formData.barcode) {
+      setFormData(next);
+      return;
     }
-  }, [initialData]);
+    const [filledForm, filledLots] = fillFromCatalog(next, lots, item);
+    setFormData(filledForm);
+    setLots(filledLots);
+  };
+
+  const updateLot = (id: string, patch: Partial<Lot>) => {
+    setLots(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    if (lots.some(l => !l.expiryDate)) {
+      setError('Informe uma validade reconhecível em todos os lotes.');
+      return;
+    }
+    onSubmit({
+      ...formData,
+      unitCost: parseMoney(formData.unitCost),
+      salePrice: parseMoney(formData.salePrice),
+      lots
+    });
   };
 
   return (
     <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 border border-white/20">
+      <div className="bg-white w-full max-w-md max-h-[95vh] overflow-y-auto rounded-[2rem] shadow-2xl animate-in fade-in zoom-in duration-200 border border-white/20">
         <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
           <h2 className="text-2xl font-black text-slate-800 tracking-tight">
             {initialData ? 'Editar Item' : 'Novo Registro'}
@@ -59,9 +143,14 @@ const ProductForm: React.FC<ProductFormProps> = ({ onSubmit, onClose, initialDat
                 className="w-full pl-12 pr-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
                 placeholder="EAN-13 / GTIN"
                 value={formData.barcode}
-                onChange={e => setFormData({ ...formData, barcode: e.target.value })}
+                onChange={e => handleBarcodeChange(e.target.value)}
               />
             </div>
+            {catalogItem && (
+              <p className="mt-2 flex items-center gap-1.5 text-[10px] font-bold text-indigo-500 uppercase tracking-widest">
+                <BookOpen className="w-3.5 h-3.5" /> No catálogo: {catalogItem.name}
+              </p>
+            )}
           </div>
 
           <div>
@@ -71,58 +160,133 @@ const ProductForm: React.FC<ProductFormProps> = ({ onSubmit, onClose, initialDat
               type="text"
               className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
               placeholder="Ex: Leite Integral"
+              list="catalog-names"
               value={formData.name}
-              onChange={e => setFormData({ ...formData, name: e.target.value })}
+              onChange={e => handleNameChange(e.target.value)}
+            />
+            <datalist id="catalog-names">
+              {catalog.map(item => <option key={item.barcode} value={item.name} />)}
+            </datalist>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Categoria</label>
+            <input
+              type="text"
+              className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+              placeholder="Laticínios"
+              value={formData.category}
+              onChange={e => setFormData({ ...formData, category: e.target.value })}
             />
           </div>
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Categoria</label>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Custo unit. (R$)</label>
               <input
                 type="text"
-                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                placeholder="Laticínios"
-                value={formData.category}
-                onChange={e => setFormData({ ...formData, category: e.target.value })}
+                inputMode="decimal"
+                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
+                placeholder="0,00"
+                value={formData.unitCost}
+                onChange={e => setFormData({ ...formData, unitCost: e.target.value })}
               />
             </div>
             <div>
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Vencimento</label>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Preço venda (R$)</label>
               <input
-                required
-                type="date"
-                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                value={formData.expiryDate}
-                onChange={e => setFormData({ ...formData, expiryDate: e.target.value })}
+                type="text"
+                inputMode="decimal"
+                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
+                placeholder="Opcional"
+                value={formData.salePrice}
+                onChange={e => setFormData({ ...formData, salePrice: e.target.value })}
               />
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Qtd.</label>
-              <input
-                required
-                type="number"
-                min="1"
-                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                value={formData.quantity}
-                onChange={e => setFormData({ ...formData, quantity: parseInt(e.target.value) })}
-              />
-            </div>
-            <div>
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Local</label>
-              <input
-                type="text"
-                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                placeholder="Armário A1"
-                value={formData.location}
-                onChange={e => setFormData({ ...formData, location: e.target.value })}
-              />
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest">Lotes</label>
+              <button
+                type="button"
+                onClick={() => setLots(prev => [...prev, emptyLot()])}
+                className="flex items-center gap-1.5 text-xs font-bold text-indigo-600 hover:text-indigo-700"
+              >
+                <PlusCircle className="w-4 h-4" /> Adicionar lote
+              </button>
             </div>
+
+            {lots.map((lot, index) => (
+              <div key={lot.id} className="p-4 bg-slate-50 rounded-2xl space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Lote {index + 1}</span>
+                  {lots.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setLots(prev => prev.filter(l => l.id !== lot.id))}
+                      className="p-1.5 text-slate-300 hover:text-rose-600 transition-colors"
+                      aria-label="Remover lote"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Vencimento</label>
+                    <ExpiryInput value={lot.expiryDate} onChange={(iso: string) => updateLot(lot.id, { expiryDate: iso })} />
+                    {!lot.expiryDate && catalogItem && suggestExpiryDate(catalogItem, lot.receivedAt) && (
+                      <button
+                        type="button"
+                        onClick={() => updateLot(lot.id, { expiryDate: suggestExpiryDate(catalogItem, lot.receivedAt)! })}
+                        className="mt-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-700"
+                        title={`Validade típica de ${catalogItem.shelfLifeDays} dias`}
+                      >
+                        Sugerido: {formatDate(suggestExpiryDate(catalogItem, lot.receivedAt)!)}
+                      </button>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Qtd.</label>
+                    <input
+                      required
+                      type="number"
+                      min="0"
+                      className="w-full px-4 py-3 bg-white border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                      value={lot.quantity}
+                      onChange={e => updateLot(lot.id, { quantity: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Local</label>
+                    <input
+                      type="text"
+                      className="w-full px-4 py-3 bg-white border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
+                      placeholder="Armário A1"
+                      value={lot.location || ''}
+                      onChange={e => updateLot(lot.id, { location: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Recebido em</label>
+                    <input
+                      required
+                      type="date"
+                      className="w-full px-4 py-3 bg-white border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                      value={lot.receivedAt}
+                      onChange={e => updateLot(lot.id, { receivedAt: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
           </div>
 
+          {error && (
+            <div className="bg-rose-50 border-l-4 border-rose-500 p-3 rounded-r-xl text-rose-700 text-sm font-bold">{error}</div>
+          )}
+
           <div className="pt-6 flex gap-3">
             <button
               type="button"
@@ -1,12 +1,25 @@
 
-import React, { useState, useMemo } from 'react';
-import { Product, ExpiryStatus } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Product, Lot, ExpiryStatus, ExpirySettings, MovementType, SavedView } from '../types';
 import { 
-  calculateDaysRemaining, 
-  getExpiryStatus, 
   formatDate, 
-  getStatusColor 
+  generateId,
+  getStatusColor,
+  toISODate,
+  getStatusBarColor
 } from '../utils/helpers';
+import { getLotExpiry } from '../utils/expiryRules';
+import { getTotalQuantity } from '../utils/lots';
+import { EMPTY_PRODUCT_FILTER, ListScope, ProductFilter, ProductGroup, collectFacets, filterProductGroups, sortProductGroups } from '../utils/productFilters';
+import { DEFAULT_LIST_VIEW, ListView, parseListView, replaceSearch, serializeListView } from '../utils/listView';
+import { MOVEMENT_LABELS, MovementInput, movementDelta } from '../utils/ledger';
+import { BulkAction } from '../utils/bulkActions';
+import { exportToExcel } from '../utils/excelParser';
+import MovementDialog from './MovementDialog';
+import CalendarExport from './CalendarExport';
+import ExpiryReport from './ExpiryReport';
+import AdvancedFilters from './AdvancedFilters';
+import BulkActionDialog, { BulkDialogKind } from './BulkActionDialog';
 import { 
   Search, 
   Filter, 
@@ -17,49 +30,131 @@ import {
   Barcode,
   XCircle,
   PackageSearch,
-  PlusCircle
+  PlusCircle,
+  ShoppingCart,
+  HeartHandshake,
+  PackageX,
+  SlidersHorizontal,
+  History,
+  CalendarPlus,
+  Printer,
+  ListFilter,
+  Bookmark,
+  BookmarkPlus,
+  Square,
+  SquareCheck,
+  CalendarClock,
+  FileSpreadsheet,
+  X
 } from 'lucide-react';
 
 interface ProductListProps {
   products: Product[];
+  expirySettings: ExpirySettings;
   onDelete: (id: string) => void;
   onEdit: (product: Product) => void;
+  onRecordMovement: (productId: string, input: MovementInput) => void;
   onAddManual: () => void;
+  // Filtros com que a lista abre (ex.: clique no painel); depois o usuário ajusta à vontade
+  initialFilter?: Partial<ProductFilter> | null;
+  // Recorte vindo de fora (notificação, gráfico); a lista respeita até limpar
+  scope?: ListScope | null;
+  onClearScope?: () => void;
+  savedViews: SavedView[];
+  onSavedViewsChange: (views: SavedView[]) => void;
+  // Ação em lote sobre os itens marcados; quem chama guarda o estado para desfazer
+  onBulkAction: (groups: ProductGroup[], action: BulkAction) => void;
 }
 
-const ProductList: React.FC<ProductListProps> = ({ products, onDelete, onEdit, onAddManual }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<ExpiryStatus | 'ALL'>('ALL');
+type MovementTarget = { product: Product; lot: Lot; type: MovementType };
+
+const ProductList: React.FC<ProductListProps> = ({
+  products,
+  expirySettings,
+  onDelete,
+  onEdit,
+  onRecordMovement,
+  onAddManual,
+  initialFilter,
+  scope,
+  onClearScope,
+  savedViews,
+  onSavedViewsChange,
+  onBulkAction
+}) => {
+  // Vindo de um atalho, a lista abre só com o filtro dele; senão, com o que está na URL
+  const [view, setView] = useState<ListView>(() =>
+    initialFilter || scope
+      ? { ...DEFAULT_LIST_VIEW, filter: { ...EMPTY_PRODUCT_FILTER, ...initialFilter } }
+      : parseListView(window.location.search)
+  );
+  const [isFiltersOpen, setIsFiltersOpen] = useState(false);
+  const [newViewName, setNewViewName] = useState<string | null>(null);
+  // null fora do modo de seleção
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [bulkDialog, setBulkDialog] = useState<BulkDialogKind | null>(null);
+  const [movementTarget, setMovementTarget] = useState<MovementTarget | null>(null);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  const { term: searchTerm, status: filterStatus, category, location, expiryRange, daysRange, quantityRange } = view.filter;
+  const updateFilter = (patch: Partial<ProductFilter>) => setView(v => ({ ...v, filter: { ...v.filter, ...patch } }));
+  const setSearchTerm = (term: string) => updateFilter({ term });
+  const setFilterStatus = (status: ExpiryStatus | 'ALL') => updateFilter({ status });
+
+  // A URL acompanha a lista, para guardar nos favoritos ou mandar a um colega
+  const viewQuery = serializeListView(view);
+  useEffect(() => {
+    replaceSearch(serializeListView(view, window.location.search));
+  }, [viewQuery]);
 
   // Se o estoque total estiver vazio, mostramos um estado diferente
   const isInventoryEmpty = products.length === 0;
 
-  const filteredProducts = useMemo(() => {
-    const term = searchTerm.trim().toLowerCase();
-    
-    return products.filter(p => {
-      // Lógica de busca textual segura
-      const nameMatch = (p.name || '').toLowerCase().includes(term);
-      const categoryMatch = (p.category || '').toLowerCase().includes(term);
-      const barcodeMatch = (p.barcode || '').toLowerCase().includes(term);
-      const locationMatch = (p.location || '').toLowerCase().includes(term);
-      
-      const matchesSearch = !term || nameMatch || categoryMatch || barcodeMatch || locationMatch;
+  // Cada grupo traz o produto e apenas os lotes que passaram nos filtros
+  const filter = useMemo(
+    (): ProductFilter => ({ ...view.filter, ...scope?.filter }),
+    [view.filter, scope]
+  );
+  const sortedGroups = useMemo(
+    () => sortProductGroups(filterProductGroups(products, expirySettings, filter), view.sort),
+    [products, expirySettings, filter, view.sort]
+  );
+  const facets = useMemo(() => collectFacets(products), [products]);
+  const advancedCount = [category, location].filter(v => v != null).length
+    + [expiryRange, daysRange, quantityRange].filter(Boolean).length;
 
-      // Lógica de filtro por status
-      const days = calculateDaysRemaining(p.expiryDate);
-      const status = getExpiryStatus(days);
-      const matchesFilter = filterStatus === 'ALL' || status === filterStatus;
-      
-      return matchesSearch && matchesFilter;
-    });
-  }, [products, searchTerm, filterStatus]);
+  const saveView = (name: string) => {
+    const existing = savedViews.find(v => v.name.toLowerCase() === name.toLowerCase());
+    onSavedViewsChange(existing
+      ? savedViews.map(v => v.id === existing.id ? { ...v, query: viewQuery } : v)
+      : [...savedViews, { id: generateId(), name, query: viewQuery }]);
+    setNewViewName(null);
+  };
+
+  const visibleLotCount = sortedGroups.reduce((sum, g) => sum + g.lots.length, 0);
+
+  // Só conta o que está marcado e ainda visível no filtro
+  const selectedGroups = selectedIds ? sortedGroups.filter(g => selectedIds.has(g.product.id)) : [];
+  const allSelected = sortedGroups.length > 0 && selectedGroups.length === sortedGroups.length;
 
-  const sortedProducts = useMemo(() => {
-    return [...filteredProducts].sort((a, b) => {
-      return new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime();
-    });
-  }, [filteredProducts]);
+  const toggleSelected = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const applyBulk = (action: BulkAction) => {
+    onBulkAction(selectedGroups, action);
+    setBulkDialog(null);
+    setSelectedIds(new Set());
+  };
+
+  const exportSelection = () => {
+    exportToExcel(selectedGroups.map(g => ({ ...g.product, lots: g.lots })), `Selecao_Estoque_${toISODate()}.xlsx`);
+    setBulkDialog(null);
+  };
 
   if (isInventoryEmpty) {
     return (
@@ -104,30 +199,180 @@ const ProductList: React.FC<ProductListProps> = ({ products, onDelete, onEdit, o
             </button>
           )}
         </div>
+
+        {(savedViews.length > 0 || viewQuery) && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Bookmark className="w-4 h-4 text-slate-300" />
+            {savedViews.map(saved => (
+              <SavedViewChip
+                key={saved.id}
+                name={saved.name}
+                active={saved.query === viewQuery}
+                onApply={() => setView(parseListView(saved.query))}
+                onRemove={() => onSavedViewsChange(savedViews.filter(v => v.id !== saved.id))}
+              />
+            ))}
+            {newViewName === null ? (
+              viewQuery && (
+                <button
+                  onClick={() => setNewViewName('')}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-black text-indigo-600 uppercase tracking-widest hover:bg-indigo-50 rounded-full transition-colors"
+                >
+                  <BookmarkPlus className="w-3.5 h-3.5" /> Salvar visão
+                </button>
+              )
+            ) : (
+              <form
+                onSubmit={e => { e.preventDefault(); if (newViewName.trim()) saveView(newViewName.trim()); }}
+                className="flex items-center gap-2"
+              >
+                <input
+                  autoFocus
+                  type="text"
+                  placeholder="Ex.: Frios – próximos 5 dias"
+                  className="px-4 py-1.5 bg-white border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-sm text-slate-700"
+                  value={newViewName}
+                  onChange={e => setNewViewName(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Escape') setNewViewName(null); }}
+                />
+                <button type="submit" disabled={!newViewName.trim()} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold rounded-xl transition-colors disabled:opacity-50">
+                  Salvar
+                </button>
+                <button type="button" onClick={() => setNewViewName(null)} className="text-xs font-bold text-slate-400 hover:text-slate-600">
+                  Cancelar
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {advancedCount > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {category != null && (
+              <FilterChip label={`Categoria: ${category || 'Sem categoria'}`} onRemove={() => updateFilter({ category: null })} />
+            )}
+            {location != null && (
+              <FilterChip label={`Local: ${location || 'Sem local'}`} onRemove={() => updateFilter({ location: null })} />
+            )}
+            {expiryRange && (
+              <FilterChip
+                label={`Vence ${expiryRange.from ? `de ${formatDate(expiryRange.from)} ` : ''}${expiryRange.to ? `até ${formatDate(expiryRange.to)}` : 'em diante'}`}
+                onRemove={() => updateFilter({ expiryRange: null })}
+              />
+            )}
+            {daysRange && (
+              <FilterChip label={`Próximos ${daysRange.max} dias`} onRemove={() => updateFilter({ daysRange: null })} />
+            )}
+            {quantityRange && (
+              <FilterChip
+                label={`Qtd: ${quantityRange.min != null && quantityRange.max != null
+                  ? `${quantityRange.min} a ${quantityRange.max}`
+                  : quantityRange.min != null ? `a partir de ${quantityRange.min}` : `até ${quantityRange.max}`}`}
+                onRemove={() => updateFilter({ quantityRange: null })}
+              />
+            )}
+          </div>
+        )}
+
+        {scope && (
+          <div className="flex items-center justify-between gap-3 px-4 py-3 bg-indigo-50 rounded-2xl text-sm text-indigo-700">
+            <span className="flex items-center gap-2 font-bold">
+              <Filter className="w-4 h-4" /> {scope.label}
+            </span>
+            <button onClick={onClearScope} className="text-[10px] font-black uppercase tracking-widest hover:underline">
+              Ver todos
+            </button>
+          </div>
+        )}
         
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div className="flex gap-2 w-full sm:w-auto overflow-x-auto pb-2 sm:pb-0 no-scrollbar">
             <FilterButton active={filterStatus === 'ALL'} onClick={() => setFilterStatus('ALL')}>Todos</FilterButton>
             <FilterButton active={filterStatus === ExpiryStatus.EXPIRED} onClick={() => setFilterStatus(ExpiryStatus.EXPIRED)} color="rose">Vencidos</FilterButton>
+            <FilterButton active={filterStatus === ExpiryStatus.CRITICAL} onClick={() => setFilterStatus(ExpiryStatus.CRITICAL)} color="orange">Crítico</FilterButton>
             <FilterButton active={filterStatus === ExpiryStatus.WARNING} onClick={() => setFilterStatus(ExpiryStatus.WARNING)} color="amber">Atenção</FilterButton>
             <FilterButton active={filterStatus === ExpiryStatus.SAFE} onClick={() => setFilterStatus(ExpiryStatus.SAFE)} color="emerald">Seguros</FilterButton>
           </div>
           
-          <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] whitespace-nowrap bg-slate-100 px-3 py-1.5 rounded-full">
-            {sortedProducts.length} itens
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setSelectedIds(prev => prev ? null : new Set())}
+              className={`flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest whitespace-nowrap px-3 py-1.5 rounded-full transition-colors ${
+                selectedIds ? 'bg-indigo-600 text-white' : 'text-indigo-600 bg-indigo-50 hover:bg-indigo-100'
+              }`}
+              title="Marcar vários itens para alterar de uma vez"
+            >
+              <SquareCheck className="w-3.5 h-3.5" /> Selecionar
+            </button>
+            <button
+              onClick={() => setIsFiltersOpen(v => !v)}
+              className={`flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest whitespace-nowrap px-3 py-1.5 rounded-full transition-colors ${
+                isFiltersOpen ? 'bg-indigo-600 text-white' : 'text-indigo-600 bg-indigo-50 hover:bg-indigo-100'
+              }`}
+              title="Categoria, local, prazos, quantidade e ordenação"
+            >
+              <ListFilter className="w-3.5 h-3.5" /> Filtros{advancedCount > 0 ? ` (${advancedCount})` : ''}
+            </button>
+            <button
+              onClick={() => setIsCalendarOpen(true)}
+              className="flex items-center gap-1.5 text-[10px] font-black text-indigo-600 uppercase tracking-widest whitespace-nowrap bg-indigo-50 hover:bg-indigo-100 px-3 py-1.5 rounded-full transition-colors"
+              title="Exportar vencimentos para o calendário (.ics)"
+            >
+              <CalendarPlus className="w-3.5 h-3.5" /> Calendário
+            </button>
+            <button
+              onClick={() => setIsReportOpen(true)}
+              className="flex items-center gap-1.5 text-[10px] font-black text-indigo-600 uppercase tracking-widest whitespace-nowrap bg-indigo-50 hover:bg-indigo-100 px-3 py-1.5 rounded-full transition-colors"
+              title="Gerar relatório em PDF para impressão"
+            >
+              <Printer className="w-3.5 h-3.5" /> Relatório
+            </button>
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] whitespace-nowrap bg-slate-100 px-3 py-1.5 rounded-full">
+              {sortedGroups.length} itens · {visibleLotCount} lotes
+            </div>
           </div>
         </div>
+
+        {isFiltersOpen && (
+          <AdvancedFilters view={view} categories={facets.categories} locations={facets.locations} onChange={setView} />
+        )}
       </div>
 
+      {selectedIds && (
+        <div className="sticky top-4 z-20 flex flex-wrap items-center gap-2 px-4 py-3 bg-slate-900 text-white rounded-2xl shadow-2xl">
+          <span className="text-sm font-bold mr-1">{selectedGroups.length} selecionado(s)</span>
+          <button
+            onClick={() => setSelectedIds(allSelected ? new Set() : new Set(sortedGroups.map(g => g.product.id)))}
+            className="text-[10px] font-black uppercase tracking-widest text-indigo-300 hover:text-white transition-colors mr-auto"
+          >
+            {allSelected ? 'Desmarcar todos' : `Marcar todos do filtro (${sortedGroups.length})`}
+          </button>
+          <BulkButton disabled={selectedGroups.length === 0} onClick={() => setBulkDialog('WRITE_OFF')} icon={<PackageX className="w-4 h-4" />} label="Dar baixa" />
+          <BulkButton disabled={selectedGroups.length === 0} onClick={() => setBulkDialog('CATEGORY')} icon={<Layers className="w-4 h-4" />} label="Categoria" />
+          <BulkButton disabled={selectedGroups.length === 0} onClick={() => setBulkDialog('LOCATION')} icon={<MapPin className="w-4 h-4" />} label="Local" />
+          <BulkButton disabled={selectedGroups.length === 0} onClick={() => setBulkDialog('EXPIRY')} icon={<CalendarClock className="w-4 h-4" />} label="Validade" />
+          <BulkButton disabled={selectedGroups.length === 0} onClick={() => setBulkDialog('EXPORT')} icon={<FileSpreadsheet className="w-4 h-4" />} label="Exportar" />
+          <BulkButton disabled={selectedGroups.length === 0} onClick={() => setBulkDialog('DELETE')} icon={<Trash2 className="w-4 h-4" />} label="Excluir" danger />
+          <button onClick={() => setSelectedIds(null)} className="p-1.5 text-white/50 hover:text-white transition-colors" aria-label="Sair da seleção">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Product List */}
       <div className="grid grid-cols-1 gap-4">
-        {sortedProducts.length > 0 ? (
-          sortedProducts.map(product => (
+        {sortedGroups.length > 0 ? (
+          sortedGroups.map(({ product, lots }) => (
             <ProductItem 
               key={product.id} 
               product={product} 
+              lots={lots}
+              expirySettings={expirySettings}
               onDelete={onDelete} 
               onEdit={onEdit} 
+              onMovement={(lot, type) => setMovementTarget({ product, lot, type })}
+              selected={selectedIds?.has(product.id)}
+              onToggleSelect={selectedIds ? () => toggleSelected(product.id) : undefined}
             />
           ))
         ) : (
@@ -140,7 +385,7 @@ const ProductList: React.FC<ProductListProps> = ({ products, onDelete, onEdit, o
               Não encontramos nenhum item para "{searchTerm}" neste filtro.
             </p>
             <button 
-              onClick={() => { setSearchTerm(''); setFilterStatus('ALL'); }}
+              onClick={() => { setView(v => ({ ...v, filter: EMPTY_PRODUCT_FILTER })); onClearScope?.(); }}
               className="mt-6 text-indigo-600 font-bold hover:underline bg-indigo-50 px-6 py-2 rounded-xl transition-colors"
             >
               Limpar todos os filtros
@@ -148,14 +393,90 @@ const ProductList: React.FC<ProductListProps> = ({ products, onDelete, onEdit, o
           </div>
         )}
       </div>
+
+      {movementTarget && (
+        <MovementDialog
+          product={movementTarget.product}
+          lot={movementTarget.lot}
+          initialType={movementTarget.type}
+          onSubmit={input => {
+            onRecordMovement(movementTarget.product.id, input);
+            setMovementTarget(null);
+          }}
+          onClose={() => setMovementTarget(null)}
+        />
+      )}
+
+      {isCalendarOpen && (
+        <CalendarExport
+          products={products}
+          filteredGroups={sortedGroups}
+          expirySettings={expirySettings}
+          onClose={() => setIsCalendarOpen(false)}
+        />
+      )}
+
+      {bulkDialog && (
+        <BulkActionDialog
+          kind={bulkDialog}
+          groups={selectedGroups}
+          categories={facets.categories}
+          locations={facets.locations}
+          onApply={applyBulk}
+          onExport={exportSelection}
+          onClose={() => setBulkDialog(null)}
+        />
+      )}
+
+      {isReportOpen && (
+        <ExpiryReport
+          products={products}
+          currentFilter={filter}
+          expirySettings={expirySettings}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
     </div>
   );
 };
 
+const FilterChip = ({ label, onRemove }: any) => (
+  <span className="flex items-center gap-1.5 pl-4 pr-2 py-1.5 bg-indigo-50 text-indigo-700 rounded-2xl text-xs font-bold">
+    {label}
+    <button onClick={onRemove} className="p-0.5 text-indigo-400 hover:text-indigo-700 transition-colors" aria-label="Remover filtro">
+      <XCircle className="w-4 h-4" />
+    </button>
+  </span>
+);
+
+const SavedViewChip = ({ name, active, onApply, onRemove }: any) => (
+  <span className={`flex items-center gap-1 pl-3 pr-1.5 py-1 rounded-2xl text-xs font-bold border transition-all ${
+    active ? 'border-indigo-100 text-indigo-600 bg-indigo-50' : 'border-slate-100 text-slate-500 bg-white hover:bg-slate-50'
+  }`}>
+    <button onClick={onApply}>{name}</button>
+    <button onClick={onRemove} className="p-0.5 text-slate-300 hover:text-rose-500 transition-colors" aria-label={`Excluir a visão ${name}`}>
+      <XCircle className="w-3.5 h-3.5" />
+    </button>
+  </span>
+);
+
+const BulkButton = ({ onClick, icon, label, disabled, danger }: any) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold transition-colors disabled:opacity-40 ${
+      danger ? 'bg-rose-600 hover:bg-rose-700' : 'bg-white/10 hover:bg-white/20'
+    }`}
+  >
+    {icon} {label}
+  </button>
+);
+
 const FilterButton = ({ active, children, onClick, color = 'indigo' }: any) => {
   const colors: any = {
     indigo: 'border-indigo-100 text-indigo-600 bg-indigo-50',
     rose: 'border-rose-100 text-rose-600 bg-rose-50',
+    orange: 'border-orange-100 text-orange-600 bg-orange-50',
     amber: 'border-amber-100 text-amber-600 bg-amber-50',
     emerald: 'border-emerald-100 text-emerald-600 bg-emerald-50'
   };
@@ -173,16 +494,39 @@ const FilterButton = ({ active, children, onClick, color = 'indigo' }: any) => {
 
 const ProductItem: React.FC<{ 
   product: Product; 
+  lots: Lot[];
+  expirySettings: ExpirySettings;
   onDelete: (id: string) => void; 
   onEdit: (product: Product) => void; 
-}> = ({ product, onDelete, onEdit }) => {
-  const daysRemaining = calculateDaysRemaining(product.expiryDate);
-  const status = getExpiryStatus(daysRemaining);
-  const statusClasses = getStatusColor(status);
+  onMovement: (lot: Lot, type: MovementType) => void;
+  selected?: boolean;
+  onToggleSelect?: () => void; // presente só no modo de seleção
+}> = ({ product, lots, expirySettings, onDelete, onEdit, onMovement, selected, onToggleSelect }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const hasStock = lots.length > 0;
+  // O primeiro lote (FEFO) define a cor e a barra do produto
+  const { rule, daysRemaining, status } = hasStock
+    ? getLotExpiry(product, lots[0], expirySettings)
+    : { rule: expirySettings.defaultRule, daysRemaining: 0, status: null };
+  // A barra cobre o dobro da janela de alerta (mínimo de 30 dias)
+  const barScale = Math.max(30, rule.warningDays * 2);
+  const statusClasses = status ? getStatusColor(status) : 'text-slate-400 bg-slate-50 border-slate-100';
 
   return (
-    <div className="group bg-white p-5 rounded-[2rem] border border-slate-50 shadow-sm hover:shadow-xl hover:shadow-indigo-500/5 hover:border-indigo-100 transition-all relative overflow-hidden">
+    <div className={`group bg-white p-5 rounded-[2rem] border shadow-sm hover:shadow-xl hover:shadow-indigo-500/5 hover:border-indigo-100 transition-all relative overflow-hidden ${
+      selected ? 'border-indigo-300 ring-2 ring-indigo-100' : 'border-slate-50'
+    }`}>
       <div className="flex items-center gap-5">
+        {onToggleSelect && (
+          <button
+            onClick={onToggleSelect}
+            className={`shrink-0 transition-colors ${selected ? 'text-indigo-600' : 'text-slate-300 hover:text-indigo-400'}`}
+            aria-label={selected ? 'Desmarcar' : 'Marcar'}
+            aria-pressed={Boolean(selected)}
+          >
+            {selected ? <SquareCheck className="w-6 h-6" /> : <Square className="w-6 h-6" />}
+          </button>
+        )}
         <div className={`w-14 h-14 rounded-2xl flex items-center justify-center border shrink-0 shadow-sm ${statusClasses}`}>
           <span className="text-xl font-black">{product.name.charAt(0).toUpperCase()}</span>
         </div>
@@ -191,7 +535,7 @@ const ProductItem: React.FC<{
           <div className="flex items-center justify-between mb-1">
             <h3 className="font-black text-slate-800 truncate pr-3 text-lg leading-none">{product.name}</h3>
             <span className={`text-[10px] px-3 py-1 rounded-full font-black uppercase tracking-tighter border shrink-0 ${statusClasses}`}>
-              {status === ExpiryStatus.EXPIRED ? 'Expirou' : `${daysRemaining} dias`}
+              {!status ? 'Sem estoque' : status === ExpiryStatus.EXPIRED ? 'Expirou' : `${daysRemaining} dias`}
             </span>
           </div>
           
@@ -205,20 +549,19 @@ const ProductItem: React.FC<{
               <Layers className="w-3.5 h-3.5 text-slate-300" /> {product.category}
             </span>
             <span className="flex items-center gap-1.5">
-              <span className="text-slate-300">Qtd:</span> {product.quantity}
-            </span>
-            {product.location && (
-              <span className="flex items-center gap-1.5">
-                <MapPin className="w-3.5 h-3.5 text-slate-300" /> {product.location}
-              </span>
-            )}
-            <span className="flex items-center gap-1.5 text-slate-500">
-              Vence: {formatDate(product.expiryDate)}
+              <span className="text-slate-300">Qtd total:</span> {getTotalQuantity(product)}
             </span>
           </div>
         </div>
 
         <div className="flex items-center gap-2 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
+          <button 
+            onClick={() => setShowHistory(v => !v)}
+            className={`p-3 rounded-xl transition-all ${showHistory ? 'bg-indigo-50 text-indigo-600' : 'bg-slate-50 hover:bg-indigo-50 text-slate-400 hover:text-indigo-600'}`}
+            aria-label="Histórico"
+          >
+            <History className="w-5 h-5" />
+          </button>
           <button 
             onClick={() => onEdit(product)}
             className="p-3 bg-slate-50 hover:bg-indigo-50 text-slate-400 hover:text-indigo-600 rounded-xl transition-all"
@@ -229,24 +572,124 @@ const ProductItem: React.FC<{
           <button 
             onClick={() => onDelete(product.id)}
             className="p-3 bg-slate-50 hover:bg-rose-50 text-slate-400 hover:text-rose-600 rounded-xl transition-all"
-            aria-label="Excluir"
+            aria-label="Mover para a lixeira"
+            title="Mover para a lixeira"
           >
             <Trash2 className="w-5 h-5" />
           </button>
         </div>
       </div>
+
+      {/* Lotes em ordem FEFO */}
+      {hasStock && (
+        <div className="mt-4 space-y-2">
+          {lots.map(lot => (
+            <LotRow key={lot.id} product={product} lot={lot} expirySettings={expirySettings} onMovement={type => onMovement(lot, type)} />
+          ))}
+        </div>
+      )}
+
+      {showHistory && <MovementHistory product={product} />}
       
-      <div className="absolute bottom-0 left-0 h-1 bg-slate-50 w-full">
-        <div 
-          className={`h-full transition-all duration-1000 ease-out ${
-            status === ExpiryStatus.EXPIRED ? 'bg-rose-500' : 
-            status === ExpiryStatus.WARNING ? 'bg-amber-500' : 'bg-emerald-500'
-          }`} 
-          style={{ width: `${Math.max(5, Math.min(100, (daysRemaining / 30) * 100))}%` }}
-        ></div>
+      {status && (
+        <div className="absolute bottom-0 left-0 h-1 bg-slate-50 w-full">
+          <div 
+            className={`h-full transition-all duration-1000 ease-out ${getStatusBarColor(status)}`} 
+            style={{ width: `${Math.max(5, Math.min(100, (daysRemaining / barScale) * 100))}%` }}
+          ></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LotRow: React.FC<{
+  product: Product;
+  lot: Lot;
+  expirySettings: ExpirySettings;
+  onMovement: (type: MovementType) => void;
+}> = ({ product, lot, expirySettings, onMovement }) => {
+  const { daysRemaining, status } = getLotExpiry(product, lot, expirySettings);
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-5 gap-y-2 px-4 py-2 rounded-xl bg-slate-50/60 text-xs text-slate-400 font-bold uppercase tracking-tighter">
+      <span className={`px-2 py-0.5 rounded-full border ${getStatusColor(status)}`}>
+        {status === ExpiryStatus.EXPIRED ? 'Expirou' : `${daysRemaining} dias`}
+      </span>
+      <span className="text-slate-500">Vence: {formatDate(lot.expiryDate)}</span>
+      <span className="flex items-center gap-1.5">
+        <span className="text-slate-300">Qtd:</span> {lot.quantity}
+      </span>
+      {lot.location && (
+        <span className="flex items-center gap-1.5">
+          <MapPin className="w-3.5 h-3.5 text-slate-300" /> {lot.location}
+        </span>
+      )}
+      {lot.lotCode && (
+        <span className="flex items-center gap-1.5">
+          <span className="text-slate-300">Lote:</span> {lot.lotCode}
+        </span>
+      )}
+      <span className="flex items-center gap-1.5">
+        <span className="text-slate-300">Recebido:</span> {formatDate(lot.receivedAt)}
+      </span>
+
+      {/* Baixas rápidas */}
+      <div className="flex items-center gap-1 ml-auto">
+        <QuickAction onClick={() => onMovement(MovementType.CONSUME)} icon={<ShoppingCart className="w-4 h-4" />} label={MOVEMENT_LABELS[MovementType.CONSUME]} />
+        <QuickAction
+          onClick={() => onMovement(MovementType.DISCARD_EXPIRED)}
+          icon={<PackageX className="w-4 h-4" />}
+          label={MOVEMENT_LABELS[MovementType.DISCARD_EXPIRED]}
+          highlight={status === ExpiryStatus.EXPIRED}
+        />
+        <QuickAction onClick={() => onMovement(MovementType.DONATE)} icon={<HeartHandshake className="w-4 h-4" />} label={MOVEMENT_LABELS[MovementType.DONATE]} />
+        <QuickAction onClick={() => onMovement(MovementType.ADJUST)} icon={<SlidersHorizontal className="w-4 h-4" />} label={MOVEMENT_LABELS[MovementType.ADJUST]} />
       </div>
     </div>
   );
 };
 
+const QuickAction = ({ onClick, icon, label, highlight }: any) => (
+  <button
+    onClick={onClick}
+    title={label}
+    aria-label={label}
+    className={`p-2 rounded-lg transition-all ${
+      highlight ? 'bg-rose-500 text-white hover:bg-rose-600' : 'bg-white text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'
+    }`}
+  >
+    {icon}
+  </button>
+);
+
+const MovementHistory: React.FC<{ product: Product }> = ({ product }) => {
+  const lotsById = new Map<string, Lot>(product.lots.map(l => [l.id, l]));
+  const entries = [...product.movements].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+
+  return (
+    <div className="mt-4 border-t border-slate-50 pt-4 space-y-1.5">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Movimentações</p>
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">Nenhuma movimentação registrada.</p>
+      ) : entries.map(m => {
+        const delta = movementDelta(m);
+        const lot = lotsById.get(m.lotId);
+        return (
+          <div key={m.id} className="flex flex-wrap items-center gap-x-4 gap-y-0.5 text-xs">
+            <span className="text-slate-400 font-bold w-20">{formatDate(m.date)}</span>
+            <span className={`font-black w-12 text-right ${delta >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+              {delta > 0 ? `+${delta}` : delta}
+            </span>
+            <span className="font-bold text-slate-700">{MOVEMENT_LABELS[m.type]}</span>
+            {m.reason !== MOVEMENT_LABELS[m.type] && <span className="text-slate-500">{m.reason}</span>}
+            {lot && <span className="text-slate-400">lote {formatDate(lot.expiryDate)}</span>}
+            {m.note && <span className="text-slate-400 italic">“{m.note}”</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 export default ProductList;
@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  ReceivingSession,
+  isItemComplete,
+  mergeRepeated,
+  removeItem,
+  summarizeSession,
+  updateItem
+} from '../services/receivingSession';
+import ExpiryInput from './ExpiryInput';
+import { CheckCircle, Combine, Minus, Plus, Trash2 } from 'lucide-react';
+
+interface ReceivingListProps {
+  session: ReceivingSession;
+  lastAdded: string | null;
+  onChange: (session: ReceivingSession) => void;
+  onFinish: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border-none rounded-xl text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none placeholder:text-white/30';
+
+const ReceivingList: React.FC<ReceivingListProps> = ({ session, lastAdded, onChange, onFinish }) => {
+  const summary = summarizeSession(session);
+
+  return (
+    <div className="mt-6 w-full max-w-md space-y-3 text-white">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-[10px] font-black uppercase tracking-widest text-white/50">
+            {summary.items} item(ns) · {summary.units} unidade(s)
+          </p>
+          {lastAdded && <p className="text-xs font-bold text-emerald-300 truncate">+ {lastAdded}</p>}
+        </div>
+        <div className="flex gap-2">
+          {summary.repeated > 0 && (
+            <button
+              onClick={() => onChange(mergeRepeated(session))}
+              className="flex items-center gap-1.5 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-xs font-bold transition-colors"
+            >
+              <Combine className="w-4 h-4" /> Juntar repetidos ({summary.repeated})
+            </button>
+          )}
+          <button
+            onClick={onFinish}
+            disabled={summary.items === 0}
+            className="flex items-center gap-1.5 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-xl text-xs font-bold transition-colors disabled:opacity-40"
+          >
+            <CheckCircle className="w-4 h-4" /> Concluir
+          </button>
+        </div>
+      </div>
+
+      {session.items.map(item => (
+        <div
+          key={item.id}
+          className={`p-3 rounded-2xl space-y-2 ${isItemComplete(item) ? 'bg-white/5' : 'bg-amber-500/10 ring-1 ring-amber-400/40'}`}
+        >
+          <div className="flex items-center gap-2">
+            <input
+              className={inputClass}
+              placeholder="Nome do produto"
+              value={item.name}
+              onChange={e => onChange(updateItem(session, item.id, { name: e.target.value }))}
+            />
+            <button
+              onClick={() => onChange(removeItem(session, item.id))}
+              className="p-2 text-white/40 hover:text-rose-400 transition-colors"
+              aria-label="Remover item"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-[1fr_auto] gap-2 items-start">
+            <div>
+              <ExpiryInput
+                className={inputClass}
+                value={item.expiryDate}
+                onChange={iso => onChange(updateItem(session, item.id, { expiryDate: iso }))}
+              />
+            </div>
+            <div className="flex items-center gap-1">
+              <StepButton onClick={() => onChange(updateItem(session, item.id, { quantity: Math.max(1, item.quantity - 1) }))} icon={<Minus className="w-3.5 h-3.5" />} />
+              <input
+                type="number"
+                min="1"
+                className={`${inputClass} w-14 text-center`}
+                value={item.quantity}
+                onChange={e => onChange(updateItem(session, item.id, { quantity: Math.max(1, parseInt(e.target.value) || 1) }))}
+              />
+              <StepButton onClick={() => onChange(updateItem(session, item.id, { quantity: item.quantity + 1 }))} icon={<Plus className="w-3.5 h-3.5" />} />
+            </div>
+          </div>
+          <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">
+            {item.barcode || 'Sem código'}{item.location ? ` · ${item.location}` : ''}
+          </p>
+        </div>
+      ))}
+
+      {session.items.length === 0 && (
+        <p className="py-6 text-center text-white/40 text-xs font-bold uppercase tracking-widest">
+          Aponte a câmera para o primeiro item
+        </p>
+      )}
+    </div>
+  );
+};
+
+const StepButton = ({ onClick, icon }: any) => (
+  <button onClick={onClick} className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors">
+    {icon}
+  </button>
+);
+
+export default ReceivingList;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ReceivingSession, isItemComplete, summarizeSession } from '../services/receivingSession';
+import { formatDate } from '../utils/helpers';
+import { AlertTriangle, PackageCheck } from 'lucide-react';
+
+interface ReceivingSummaryProps {
+  session: ReceivingSession;
+  onConfirm: () => void;
+  onBack: () => void;
+  onDiscard: () => void;
+}
+
+const ReceivingSummary: React.FC<ReceivingSummaryProps> = ({ session, onConfirm, onBack, onDiscard }) => {
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+  const summary = summarizeSession(session);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg max-h-[90vh] flex flex-col rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 border-b border-slate-50">
+          <h2 className="text-2xl font-black text-slate-800 tracking-tight">Resumo do recebimento</h2>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Iniciado em {new Date(session.startedAt).toLocaleString('pt-BR')}
+          </p>
+        </div>
+
+        <div className="p-8 space-y-5 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <SummaryCard label="Itens" value={summary.items} color="text-slate-800" />
+            <SummaryCard label="Unidades" value={summary.units} color="text-indigo-600" />
+            <SummaryCard label="Incompletos" value={summary.incomplete} color={summary.incomplete ? 'text-amber-600' : 'text-slate-300'} />
+          </div>
+
+          {summary.incomplete > 0 && (
+            <div className="flex items-start gap-3 p-4 bg-amber-50 rounded-2xl text-sm text-amber-700">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <span>Volte à lista e informe nome e validade dos itens em destaque para salvar.</span>
+            </div>
+          )}
+
+          <div className="divide-y divide-slate-50">
+            {session.items.map(item => (
+              <div key={item.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className={`font-bold truncate ${isItemComplete(item) ? 'text-slate-700' : 'text-amber-600'}`}>
+                    {item.name || item.barcode || 'Sem nome'}
+                  </p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {item.expiryDate ? `Vence ${formatDate(item.expiryDate)}` : 'Sem validade'}
+                    {item.location ? ` · ${item.location}` : ''}
+                  </p>
+                </div>
+                <span className="font-black text-slate-800">{item.quantity}x</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="pt-2 flex gap-3">
+            <button
+              onClick={onBack}
+              className="flex-1 py-4 px-4 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors"
+            >
+              Continuar lendo
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={summary.items === 0 || summary.incomplete > 0}
+              className="flex-1 py-4 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98] disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              <PackageCheck className="w-5 h-5" /> Salvar {summary.items} item(ns)
+            </button>
+          </div>
+
+          <button
+            onClick={() => (confirmDiscard ? onDiscard() : setConfirmDiscard(true))}
+            className="w-full text-xs font-bold text-rose-500 hover:text-rose-600"
+          >
+            {confirmDiscard ? 'Toque de novo para descartar todos os itens lidos' : 'Descartar recebimento'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SummaryCard = ({ label, value, color }: any) => (
+  <div className="bg-slate-50 p-4 rounded-2xl text-center">
+    <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">{label}</p>
+    <p className={`text-3xl font-black ${color}`}>{value}</p>
+  </div>
+);
+
+export default ReceivingSummary;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ProductEntry } from '../types';
+import { LabelField, LabelRecognition } from '../services/labelRecognition';
+import ExpiryInput from './ExpiryInput';
+import { AlertTriangle, Camera, CheckCircle } from 'lucide-react';
+
+interface ScanReviewProps {
+  image: string;    // base64 da foto analisada
+  mimeType: string;
+  result: LabelRecognition;
+  onConfirm: (entry: ProductEntry) => void;
+  onRetake: () => void;
+  retakeLabel?: string;
+}
+
+// Abaixo disso o campo é destacado para conferência
+const LOW_CONFIDENCE = 0.7;
+
+const ScanReview: React.FC<ScanReviewProps> = ({ image, mimeType, result, onConfirm, onRetake, retakeLabel = 'Tirar outra foto' }) => {
+  const [entry, setEntry] = useState({
+    name: result.name.value || '',
+    expiryDate: result.expiryDate.value || '',
+    category: result.category.value || '',
+    barcode: result.barcode.value || '',
+    lotCode: result.lotCode.value || '',
+    quantity: 1,
+    location: ''
+  });
+  // Campo editado pelo usuário deixa de ser uma suposição do reconhecimento
+  const [touched, setTouched] = useState<Set<LabelField>>(new Set());
+
+  const update = (field: LabelField | 'quantity' | 'location', value: string | number) => {
+    setEntry(prev => ({ ...prev, [field]: value }));
+    if (field !== 'quantity' && field !== 'location') setTouched(prev => new Set(prev).add(field));
+  };
+
+  const warning = (field: LabelField): string | null => {
+    if (touched.has(field)) return null;
+    // Nem todo rótulo traz o lote impresso; só a leitura incerta merece destaque
+    if (!result[field].value) return field === 'lotCode' ? null : 'Não encontrado no rótulo';
+    if (result[field].confidence < LOW_CONFIDENCE) return `Leitura incerta (${Math.round(result[field].confidence * 100)}%)`;
+    return null;
+  };
+
+  const inputClass = (field?: LabelField) =>
+    `w-full px-4 py-3 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300 ${
+      field && warning(field) ? 'bg-amber-50 ring-2 ring-amber-300' : 'bg-slate-50'
+    }`;
+
+  const canConfirm = entry.name.trim() && entry.expiryDate;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-3xl max-h-[95vh] overflow-y-auto rounded-[2rem] shadow-2xl">
+        <div className="px-8 py-6 border-b border-slate-50">
+          <h2 className="text-2xl font-black text-slate-800 tracking-tight">Conferir leitura</h2>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Campos em destaque precisam de atenção antes de salvar
+          </p>
+        </div>
+
+        <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <img
+            src={`data:${mimeType};base64,${image}`}
+            alt="Rótulo fotografado"
+            className="w-full max-h-96 md:max-h-none object-contain bg-slate-900 rounded-2xl"
+          />
+
+          <div className="space-y-4">
+            <Field label="Nome do Produto" warning={warning('name')}>
+              <input className={inputClass('name')} value={entry.name} onChange={e => update('name', e.target.value)} />
+            </Field>
+            <Field label="Vencimento" warning={warning('expiryDate')}>
+              <ExpiryInput className={inputClass('expiryDate')} value={entry.expiryDate} onChange={iso => update('expiryDate', iso)} />
+            </Field>
+            <Field label="Categoria" warning={warning('category')}>
+              <input className={inputClass('category')} placeholder="Geral" value={entry.category} onChange={e => update('category', e.target.value)} />
+            </Field>
+            <Field label="Código de Barras" warning={warning('barcode')}>
+              <input className={inputClass('barcode')} placeholder="EAN-13 / GTIN" value={entry.barcode} onChange={e => update('barcode', e.target.value)} />
+            </Field>
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Qtd.">
+                <input
+                  type="number"
+                  min="1"
+                  className={inputClass()}
+                  value={entry.quantity}
+                  onChange={e => update('quantity', parseInt(e.target.value) || 0)}
+                />
+              </Field>
+              <Field label="Local">
+                <input className={inputClass()} placeholder="Armário A1" value={entry.location} onChange={e => update('location', e.target.value)} />
+              </Field>
+            </div>
+            <Field label="Lote impresso" warning={warning('lotCode')}>
+              <input className={inputClass('lotCode')} placeholder="Opcional" value={entry.lotCode} onChange={e => update('lotCode', e.target.value)} />
+            </Field>
+          </div>
+        </div>
+
+        <div className="px-8 pb-8 flex gap-3">
+          <button
+            onClick={onRetake}
+            className="flex-1 py-4 px-4 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors flex items-center justify-center gap-2"
+          >
+            <Camera className="w-5 h-5" /> {retakeLabel}
+          </button>
+          <button
+            disabled={!canConfirm}
+            onClick={() => onConfirm({
+              name: entry.name.trim(),
+              expiryDate: entry.expiryDate,
+              category: entry.category.trim() || 'Geral',
+              barcode: entry.barcode.replace(/\s+/g, '') || undefined,
+              quantity: entry.quantity,
+              location: entry.location.trim() || undefined,
+              lotCode: entry.lotCode.trim() || undefined
+            })}
+            className="flex-1 py-4 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-100 active:scale-[0.98] disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <CheckCircle className="w-5 h-5" /> Confirmar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Field = ({ label, warning, children }: any) => (
+  <div>
+    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{label}</label>
+    {children}
+    {warning && (
+      <p className="mt-1 flex items-center gap-1 text-[10px] font-bold text-amber-600">
+        <AlertTriangle className="w-3.5 h-3.5" /> {warning}
+      </p>
+    )}
+  </div>
+);
+
+export default ScanReview;
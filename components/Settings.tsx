@@ -0,0 +1,577 @@
+import React, { useMemo, useState } from 'react';
+import { AppSettings, ExpiryRule, Product } from '../types';
+import { normalizeCategoryKey } from '../utils/expiryRules';
+import { getDeviceId } from '../services/syncClient';
+import { Snapshot, downloadBackup } from '../services/backupService';
+import { RECOGNITION_PROVIDERS } from '../services/labelRecognition';
+import { requestNotificationPermission } from '../services/notificationService';
+import { TrashedProduct, trashExpiresAt } from '../services/trashBin';
+import { categoryAlerts } from '../utils/notifications';
+import { ArchiveRestore, Bell, Cloud, Download, HardDrive, Layers, Package, PlusCircle, Trash2, SlidersHorizontal, ScanText } from 'lucide-react';
+
+interface SettingsProps {
+  settings: AppSettings;
+  products: Product[];
+  onChange: (settings: AppSettings) => void;
+  snapshots: Snapshot[];
+  onSnapshotNow: () => void;
+  onRestoreSnapshot: (snapshot: Snapshot) => void;
+  onDeleteSnapshot: (snapshot: Snapshot) => void;
+  // false quando o navegador só consegue avisar com o app aberto
+  backgroundNotifications: boolean;
+  trash: TrashedProduct[];
+  onRestoreTrash: (items: TrashedProduct[]) => void;
+  onEmptyTrash: () => void;
+}
+
+const Settings: React.FC<SettingsProps> = ({
+  settings,
+  products,
+  onChange,
+  snapshots,
+  onSnapshotNow,
+  onRestoreSnapshot,
+  onDeleteSnapshot,
+  backgroundNotifications,
+  trash,
+  onRestoreTrash,
+  onEmptyTrash
+}) => {
+  const [newCategory, setNewCategory] = useState('');
+  const [newProductId, setNewProductId] = useState('');
+  const [newAlertProductId, setNewAlertProductId] = useState('');
+  const [permissionDenied, setPermissionDenied] = useState(false);
+  const [confirmEmptyTrash, setConfirmEmptyTrash] = useState(false);
+  const { expiry, sync, backup, recognition, notifications } = settings;
+
+  const categories = useMemo(() => {
+    const unique = new Map<string, string>();
+    products.forEach(p => {
+      const key = normalizeCategoryKey(p.category);
+      if (key && !unique.has(key)) unique.set(key, p.category.trim());
+    });
+    return [...unique.values()].sort((a, b) => a.localeCompare(b));
+  }, [products]);
+
+  const sortedProducts = useMemo(
+    () => [...products].sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  );
+
+  const updateRecognition = (patch: Partial<AppSettings['recognition']>) => {
+    onChange({ ...settings, recognition: { ...recognition, ...patch } });
+  };
+
+  const updateNotifications = (patch: Partial<AppSettings['notifications']>) => {
+    onChange({ ...settings, notifications: { ...notifications, ...patch } });
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) {
+      setPermissionDenied(true);
+      return;
+    }
+    setPermissionDenied(false);
+    updateNotifications({ enabled });
+  };
+
+  // Nenhuma categoria marcada equivale a todas
+  const toggleAlertCategory = (category: string) => {
+    const selected = notifications.categories;
+    const key = normalizeCategoryKey(category);
+    const next = selected.some(c => normalizeCategoryKey(c) === key)
+      ? selected.filter(c => normalizeCategoryKey(c) !== key)
+      : [...selected, category];
+    updateNotifications({ categories: next });
+  };
+
+  const addItemAlert = () => {
+    if (!newAlertProductId || notifications.itemAlerts[newAlertProductId] !== undefined) return;
+    updateNotifications({ itemAlerts: { ...notifications.itemAlerts, [newAlertProductId]: 3 } });
+    setNewAlertProductId('');
+  };
+
+  const updateSync = (patch: Partial<AppSettings['sync']>) => {
+    onChange({ ...settings, sync: { ...sync, ...patch } });
+  };
+
+  const updateBackup = (patch: Partial<AppSettings['backup']>) => {
+    onChange({ ...settings, backup: { ...backup, ...patch } });
+  };
+
+  const updateExpiry = (patch: Partial<AppSettings['expiry']>) => {
+    onChange({ ...settings, expiry: { ...expiry, ...patch } });
+  };
+
+  const addCategoryRule = () => {
+    const name = newCategory.trim();
+    if (!name) return;
+    const exists = Object.keys(expiry.categoryRules).some(c => normalizeCategoryKey(c) === normalizeCategoryKey(name));
+    if (!exists) {
+      updateExpiry({ categoryRules: { ...expiry.categoryRules, [name]: { ...expiry.defaultRule } } });
+    }
+    setNewCategory('');
+  };
+
+  const addProductRule = () => {
+    if (!newProductId || expiry.productRules[newProductId]) return;
+    updateExpiry({ productRules: { ...expiry.productRules, [newProductId]: { ...expiry.defaultRule } } });
+    setNewProductId('');
+  };
+
+  const removeKey = <T,>(rules: Record<string, T>, key: string) => {
+    const { [key]: _removed, ...rest } = rules;
+    return rest;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-black text-slate-800 tracking-tight">Ajustes</h2>
+        <p className="text-slate-500 text-sm">Regras de alerta de vencimento e preferências do aplicativo.</p>
+      </div>
+
+      <Section icon={<SlidersHorizontal className="w-5 h-5" />} title="Regra padrão" subtitle="Vale para todos os itens sem regra específica">
+        <RuleEditor rule={expiry.defaultRule} onChange={rule => updateExpiry({ defaultRule: rule })} />
+      </Section>
+
+      <Section icon={<Layers className="w-5 h-5" />} title="Por categoria" subtitle="Sobrepõe a regra padrão">
+        <div className="space-y-3">
+          {Object.entries(expiry.categoryRules).map(([name, rule]) => (
+            <RuleRow
+              key={name}
+              label={name}
+              rule={rule}
+              onChange={r => updateExpiry({ categoryRules: { ...expiry.categoryRules, [name]: r } })}
+              onRemove={() => updateExpiry({ categoryRules: removeKey(expiry.categoryRules, name) })}
+            />
+          ))}
+          <div className="flex gap-2">
+            <input
+              list="settings-categories"
+              className="flex-1 px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
+              placeholder="Ex: Laticínios"
+              value={newCategory}
+              onChange={e => setNewCategory(e.target.value)}
+            />
+            <datalist id="settings-categories">
+              {categories.map(c => <option key={c} value={c} />)}
+            </datalist>
+            <AddButton onClick={addCategoryRule} />
+          </div>
+        </div>
+      </Section>
+
+      <Section icon={<Package className="w-5 h-5" />} title="Por produto" subtitle="Sobrepõe as regras de categoria e padrão">
+        <div className="space-y-3">
+          {Object.entries(expiry.productRules).map(([id, rule]) => (
+            <RuleRow
+              key={id}
+              label={products.find(p => p.id === id)?.name || 'Produto removido'}
+              rule={rule}
+              onChange={r => updateExpiry({ productRules: { ...expiry.productRules, [id]: r } })}
+              onRemove={() => updateExpiry({ productRules: removeKey(expiry.productRules, id) })}
+            />
+          ))}
+          <div className="flex gap-2">
+            <select
+              className="flex-1 px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-700"
+              value={newProductId}
+              onChange={e => setNewProductId(e.target.value)}
+            >
+              <option value="">Selecione um produto</option>
+              {sortedProducts
+                .filter(p => !expiry.productRules[p.id])
+                .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <AddButton onClick={addProductRule} />
+          </div>
+        </div>
+      </Section>
+
+      <Section icon={<Bell className="w-5 h-5" />} title="Notificações" subtitle="Resumo diário e avisos antes do vencimento">
+        <div className="space-y-4">
+          <label className="flex items-center gap-3 font-bold text-slate-700">
+            <input
+              type="checkbox"
+              className="w-5 h-5 accent-indigo-600"
+              checked={notifications.enabled}
+              onChange={e => toggleNotifications(e.target.checked)}
+            />
+            Ativar notificações
+          </label>
+          {permissionDenied && (
+            <p className="p-3 bg-rose-50 rounded-2xl text-sm text-rose-600">
+              O navegador bloqueou as notificações. Libere a permissão nas configurações do site e tente de novo.
+            </p>
+          )}
+          {notifications.enabled && !backgroundNotifications && (
+            <p className="p-3 bg-amber-50 rounded-2xl text-sm text-amber-700">
+              Este navegador não verifica em segundo plano: os avisos só chegam com o app aberto.
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <HourInput label="Resumo às" value={notifications.digestHour} onChange={(h: number) => updateNotifications({ digestHour: h })} />
+            <HourInput
+              label="Silêncio de"
+              value={notifications.quietHours?.start ?? ''}
+              disabled={!notifications.quietHours}
+              onChange={(h: number) => notifications.quietHours && updateNotifications({ quietHours: { ...notifications.quietHours, start: h } })}
+            />
+            <HourInput
+              label="Até"
+              value={notifications.quietHours?.end ?? ''}
+              disabled={!notifications.quietHours}
+              onChange={(h: number) => notifications.quietHours && updateNotifications({ quietHours: { ...notifications.quietHours, end: h } })}
+            />
+          </div>
+          <label className="flex items-center gap-3 text-sm font-bold text-slate-600">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-indigo-600"
+              checked={!!notifications.quietHours}
+              onChange={e => updateNotifications({ quietHours: e.target.checked ? { start: 22, end: 7 } : null })}
+            />
+            Não notificar no horário silencioso
+          </label>
+
+          {categories.length > 0 && (
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">
+                Categorias {notifications.categories.length === 0 && '(todas)'}
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {categories.map(category => {
+                  const active = notifications.categories.length > 0 && categoryAlerts(notifications, category);
+                  return (
+                    <button
+                      key={category}
+                      onClick={() => toggleAlertCategory(category)}
+                      className={`px-4 py-2 rounded-2xl text-xs font-bold border transition-all ${
+                        active ? 'border-indigo-100 bg-indigo-50 text-indigo-700' : 'border-slate-50 bg-white text-slate-500 hover:bg-slate-50'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest">Avisar por item</span>
+            {Object.entries(notifications.itemAlerts).map(([id, days]) => (
+              <div key={id} className="flex items-center gap-3 p-4 bg-slate-50 rounded-2xl">
+                <span className="flex-1 font-bold text-slate-700 truncate">{products.find(p => p.id === id)?.name || 'Produto removido'}</span>
+                <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-20 px-3 py-2 bg-white border border-slate-100 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none text-sm text-slate-700"
+                    value={days}
+                    onChange={e => updateNotifications({ itemAlerts: { ...notifications.itemAlerts, [id]: Math.max(0, parseInt(e.target.value) || 0) } })}
+                  />
+                  dias antes
+                </label>
+                <IconButton
+                  onClick={() => updateNotifications({ itemAlerts: removeKey(notifications.itemAlerts, id) })}
+                  label="Remover"
+                  icon={<Trash2 className="w-4 h-4" />}
+                  danger
+                />
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <select
+                className="flex-1 px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-700"
+                value={newAlertProductId}
+                onChange={e => setNewAlertProductId(e.target.value)}
+              >
+                <option value="">Selecione um produto</option>
+                {sortedProducts
+                  .filter(p => notifications.itemAlerts[p.id] === undefined)
+                  .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              <AddButton onClick={addItemAlert} />
+            </div>
+          </div>
+        </div>
+      </Section>
+
+      <Section icon={<Cloud className="w-5 h-5" />} title="Sincronização" subtitle="Compartilhe o estoque entre dispositivos">
+        <div className="space-y-3">
+          <label className="flex items-center gap-3 font-bold text-slate-700">
+            <input
+              type="checkbox"
+              className="w-5 h-5 accent-indigo-600"
+              checked={sync.enabled}
+              onChange={e => updateSync({ enabled: e.target.checked })}
+            />
+            Ativar sincronização
+          </label>
+          <input
+            type="url"
+            className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
+            placeholder="http://192.168.0.10:8787"
+            value={sync.serverUrl}
+            onChange={e => updateSync({ serverUrl: e.target.value })}
+          />
+          <input
+            type="password"
+            className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300"
+            placeholder="Token (opcional)"
+            value={sync.token}
+            onChange={e => updateSync({ token: e.target.value })}
+          />
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Este dispositivo: {getDeviceId().slice(0, 8)}
+          </p>
+        </div>
+      </Section>
+
+      <Section icon={<ScanText className="w-5 h-5" />} title="Leitura de rótulos" subtitle="Quem interpreta a foto do rótulo no scanner">
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {Object.values(RECOGNITION_PROVIDERS).map(provider => (
+              <button
+                key={provider.id}
+                onClick={() => updateRecognition({ provider: provider.id })}
+                className={`p-3 rounded-2xl border text-left transition-all ${
+                  recognition.provider === provider.id ? 'border-indigo-100 bg-indigo-50' : 'border-slate-50 bg-white hover:bg-slate-50'
+                }`}
+              >
+                <p className={`text-sm font-bold ${recognition.provider === provider.id ? 'text-indigo-700' : 'text-slate-700'}`}>{provider.label}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {provider.offline ? 'Funciona sem internet' : 'Requer internet'}
+                </p>
+              </button>
+            ))}
+          </div>
+          {recognition.provider === 'GEMINI' && (
+            <label className="block">
+              <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Modelo</span>
+              <input
+                type="text"
+                className="w-full px-5 py-3.5 bg-slate-50 border-none rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                value={recognition.geminiModel}
+                onChange={e => updateRecognition({ geminiModel: e.target.value })}
+              />
+            </label>
+          )}
+        </div>
+      </Section>
+
+      <Section icon={<HardDrive className="w-5 h-5" />} title="Instantâneos locais" subtitle="Cópias automáticas guardadas neste dispositivo">
+        <div className="space-y-3">
+          <label className="flex items-center gap-3 font-bold text-slate-700">
+            <input
+              type="checkbox"
+              className="w-5 h-5 accent-indigo-600"
+              checked={backup.autoSnapshots}
+              onChange={e => updateBackup({ autoSnapshots: e.target.checked })}
+            />
+            Criar instantâneos automaticamente
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">A cada (horas)</span>
+              <input
+                type="number"
+                min="1"
+                className="w-full px-4 py-2.5 bg-slate-50 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none"
+                value={backup.intervalHours}
+                onChange={e => updateBackup({ intervalHours: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Manter os últimos</span>
+              <input
+                type="number"
+                min="1"
+                className="w-full px-4 py-2.5 bg-slate-50 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none"
+                value={backup.keep}
+                onChange={e => updateBackup({ keep: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </label>
+          </div>
+          {snapshots.map(snapshot => (
+            <div key={snapshot.id} className="flex items-center gap-2 p-3 bg-slate-50 rounded-2xl">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-slate-700 text-sm">{new Date(snapshot.createdAt).toLocaleString('pt-BR')}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{snapshot.productCount} produto(s)</p>
+              </div>
+              <IconButton onClick={() => onRestoreSnapshot(snapshot)} label="Restaurar" icon={<ArchiveRestore className="w-4 h-4" />} />
+              <IconButton onClick={() => downloadBackup(snapshot.backup)} label="Baixar" icon={<Download className="w-4 h-4" />} />
+              <IconButton onClick={() => onDeleteSnapshot(snapshot)} label="Excluir" icon={<Trash2 className="w-4 h-4" />} danger />
+            </div>
+          ))}
+          <button
+            onClick={onSnapshotNow}
+            className="w-full py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors"
+          >
+            Criar instantâneo agora
+          </button>
+        </div>
+      </Section>
+
+      <Section icon={<Trash2 className="w-5 h-5" />} title="Lixeira" subtitle="Itens excluídos, restauráveis por um prazo">
+        <div className="space-y-3">
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Manter por (dias)</span>
+            <input
+              type="number"
+              min="1"
+              className="w-full px-4 py-2.5 bg-slate-50 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none"
+              value={settings.trash.retentionDays}
+              onChange={e => onChange({ ...settings, trash: { retentionDays: Math.max(1, parseInt(e.target.value) || 1) } })}
+            />
+          </label>
+          {trash.length === 0 && <p className="text-sm text-slate-400 italic">A lixeira está vazia.</p>}
+          {trash.map(item => (
+            <div key={item.id} className="flex items-center gap-2 p-3 bg-slate-50 rounded-2xl">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-slate-700 text-sm truncate">{item.product.name}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  Excluído em {new Date(item.deletedAt).toLocaleDateString('pt-BR')} · some em {new Date(trashExpiresAt(item, settings.trash.retentionDays)).toLocaleDateString('pt-BR')}
+                </p>
+              </div>
+              <IconButton onClick={() => onRestoreTrash([item])} label="Restaurar" icon={<ArchiveRestore className="w-4 h-4" />} />
+            </div>
+          ))}
+          {trash.length > 1 && (
+            <button
+              onClick={() => onRestoreTrash(trash)}
+              className="w-full py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors"
+            >
+              Restaurar todos
+            </button>
+          )}
+          {trash.length > 0 && (confirmEmptyTrash ? (
+            <div className="flex gap-2">
+              <button
+                onClick={() => { onEmptyTrash(); setConfirmEmptyTrash(false); }}
+                className="flex-1 py-3 bg-rose-600 text-white rounded-2xl font-bold hover:bg-rose-700 transition-colors"
+              >
+                Apagar {trash.length} item(ns) de vez
+              </button>
+              <button
+                onClick={() => setConfirmEmptyTrash(false)}
+                className="px-5 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors"
+              >
+                Cancelar
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmEmptyTrash(true)}
+              className="w-full py-3 bg-rose-50 text-rose-600 rounded-2xl font-bold hover:bg-rose-100 transition-colors"
+            >
+              Esvaziar lixeira
+            </button>
+          ))}
+        </div>
+      </Section>
+    </div>
+  );
+};
+
+const Section = ({ icon, title, subtitle, children }: any) => (
+  <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-4">
+    <div className="flex items-center gap-3">
+      <div className="bg-indigo-50 text-indigo-600 p-2.5 rounded-xl">{icon}</div>
+      <div>
+        <h3 className="font-black text-slate-800">{title}</h3>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{subtitle}</p>
+      </div>
+    </div>
+    {children}
+  </div>
+);
+
+const AddButton = ({ onClick }: any) => (
+  <button
+    onClick={onClick}
+    className="p-3.5 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 active:scale-95 transition-all"
+    aria-label="Adicionar"
+  >
+    <PlusCircle className="w-5 h-5" />
+  </button>
+);
+
+const IconButton = ({ onClick, label, icon, danger }: any) => (
+  <button
+    onClick={onClick}
+    title={label}
+    aria-label={label}
+    className={`p-2.5 bg-white rounded-xl text-slate-400 transition-all ${danger ? 'hover:bg-rose-50 hover:text-rose-600' : 'hover:bg-indigo-50 hover:text-indigo-600'}`}
+  >
+    {icon}
+  </button>
+);
+
+const HourInput = ({ label, value, disabled, onChange }: any) => (
+  <label className="block">
+    <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{label}</span>
+    <input
+      type="number"
+      min="0"
+      max="23"
+      disabled={disabled}
+      className="w-full px-4 py-2.5 bg-slate-50 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-40"
+      value={value}
+      onChange={e => onChange(Math.min(23, Math.max(0, parseInt(e.target.value) || 0)))}
+    />
+  </label>
+);
+
+const RuleRow: React.FC<{
+  label: string;
+  rule: ExpiryRule;
+  onChange: (rule: ExpiryRule) => void;
+  onRemove: () => void;
+}> = ({ label, rule, onChange, onRemove }) => (
+  <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-slate-50 rounded-2xl">
+    <span className="flex-1 font-bold text-slate-700 truncate">{label}</span>
+    <RuleEditor rule={rule} onChange={onChange} />
+    <button
+      onClick={onRemove}
+      className="p-3 bg-white hover:bg-rose-50 text-slate-400 hover:text-rose-600 rounded-xl transition-all self-end sm:self-auto"
+      aria-label="Remover"
+    >
+      <Trash2 className="w-5 h-5" />
+    </button>
+  </div>
+);
+
+const RuleEditor: React.FC<{ rule: ExpiryRule; onChange: (rule: ExpiryRule) => void }> = ({ rule, onChange }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <label className="block">
+      <span className="block text-[10px] font-bold text-amber-500 uppercase tracking-widest mb-1">Atenção (dias)</span>
+      <input
+        type="number"
+        min="0"
+        className="w-full sm:w-28 px-4 py-2.5 bg-white border border-slate-100 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none"
+        value={rule.warningDays}
+        onChange={e => onChange({ ...rule, warningDays: Math.max(0, parseInt(e.target.value) || 0) })}
+      />
+    </label>
+    <label className="block">
+      <span className="block text-[10px] font-bold text-orange-500 uppercase tracking-widest mb-1">Crítico (opcional)</span>
+      <input
+        type="number"
+        min="0"
+        placeholder="—"
+        className="w-full sm:w-28 px-4 py-2.5 bg-white border border-slate-100 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none placeholder:text-slate-300"
+        value={rule.criticalDays ?? ''}
+        onChange={e => {
+          const value = e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0);
+          onChange({ ...rule, criticalDays: value });
+        }}
+      />
+    </label>
+  </div>
+);
+
+export default Settings;
@@ -1,19 +1,91 @@
 
 import React, { useRef, useState } from 'react';
-import { Camera, Scan, Sparkles, X, RotateCw, CheckCircle } from 'lucide-react';
-import { scanProductFromImage } from '../services/geminiService';
+import { Barcode, Camera, Scan, Sparkles, X, RotateCw, CheckCircle, PackagePlus } from 'lucide-react';
+import { CatalogItem, ProductEntry, RecognitionSettings } from '../types';
+import { recognizeLabel, LabelRecognition, RECOGNITION_PROVIDERS } from '../services/labelRecognition';
+import { createBarcodeReader } from '../services/barcodeScanner';
+import { queueScan } from '../services/scanQueue';
+import {
+  addBarcode,
+  addEntry,
+  loadSession,
+  saveSession,
+  sessionEntries,
+  startSession,
+  ReceivingSession
+} from '../services/receivingSession';
+import ScanReview from './ScanReview';
+import ReceivingList from './ReceivingList';
+import ReceivingSummary from './ReceivingSummary';
 
 interface SmartAddProps {
-  onScanComplete: (data: { name: string; expiryDate: string; category: string }) => void;
+  recognitionSettings: RecognitionSettings;
+  onScanComplete: (entry: ProductEntry) => void;
+  onBarcodeDetected: (barcode: string) => void;
+  // Recebimento: todos os itens da sessão são salvos de uma vez
+  catalog: CatalogItem[];
+  onCommitSession: (entries: ProductEntry[]) => void;
+  // Foto guardada para ser lida quando a internet voltar
+  onScanQueued: () => void;
   onClose: () => void;
 }
 
-const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
+type ScanMode = 'BARCODE' | 'LABEL';
+
+// Intervalo entre leituras do vídeo no modo código de barras
+const BARCODE_SCAN_INTERVAL_MS = 250;
+const CAPTURE_MIME_TYPE = 'image/jpeg';
+// O mesmo código continua na frente da câmera por um tempo depois de lido
+const REPEAT_SCAN_COOLDOWN_MS = 2000;
+
+const stopTracks = (stream: MediaStream | null) => stream?.getTracks().forEach(track => track.stop());
+
+const SmartAdd: React.FC<SmartAddProps> = ({
+  recognitionSettings,
+  onScanComplete,
+  onBarcodeDetected,
+  catalog,
+  onCommitSession,
+  onScanQueued,
+  onClose
+}) => {
+  const [mode, setMode] = useState<ScanMode>('BARCODE');
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [isScanning, setIsScanning] = useState(false);
+  const [review, setReview] = useState<LabelRecognition | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [session, setSession] = useState<ReceivingSession | null>(loadSession);
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [lastAdded, setLastAdded] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  // O stream também fica em ref: a limpeza ao desmontar enxerga o atual, não o do primeiro render
+  const streamRef = useRef<MediaStream | null>(null);
+  const unmountedRef = useRef(false);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  // Sobrevive a recarregar a página até ser salva ou descartada
+  React.useEffect(() => {
+    saveSession(session);
+  }, [session]);
+
+  /** Trata um código lido; devolve false quando a leitura contínua deve parar. */
+  const handleCode = (code: string): boolean => {
+    if (!session) {
+      onBarcodeDetected(code);
+      onClose();
+      return false;
+    }
+    const last = lastScanRef.current;
+    if (last && last.code === code && Date.now() - last.at < REPEAT_SCAN_COOLDOWN_MS) return true;
+    lastScanRef.current = { code, at: Date.now() };
+    setSession(prev => prev && addBarcode(prev, code, catalog));
+    setLastAdded(catalog.find(item => item.barcode === code)?.name || code);
+    return true;
+  };
+  const handleCodeRef = useRef(handleCode);
+  handleCodeRef.current = handleCode;
 
   const startCamera = async () => {
     try {
@@ -21,6 +93,13 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
       const mediaStream = await navigator.mediaDevices.getUserMedia({ 
         video: { facingMode: 'environment' } 
       });
+      // Fechado enquanto a permissão era pedida: a câmera não pode ficar ligada
+      if (unmountedRef.current) {
+        stopTracks(mediaStream);
+        return;
+      }
+      stopTracks(streamRef.current);
+      streamRef.current = mediaStream;
       setStream(mediaStream);
       if (videoRef.current) {
         videoRef.current.srcObject = mediaStream;
@@ -31,10 +110,9 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
   };
 
   const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
-    }
+    stopTracks(streamRef.current);
+    streamRef.current = null;
+    setStream(null);
   };
 
   const capturePhoto = () => {
@@ -45,22 +123,41 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.drawImage(videoRef.current, 0, 0);
-        const base64 = canvas.toDataURL('image/jpeg').split(',')[1];
+        const base64 = canvas.toDataURL(CAPTURE_MIME_TYPE).split(',')[1];
         setCapturedImage(base64);
         stopCamera();
       }
     }
   };
 
+  const needsConnection = !RECOGNITION_PROVIDERS[recognitionSettings.provider]?.offline;
+
+  // Sem internet a foto não se perde: vai para a fila e é lida depois
+  const queueCapture = async (image: string) => {
+    await queueScan({ data: image, mimeType: CAPTURE_MIME_TYPE });
+    onScanQueued();
+    setNotice('Sem internet: a foto foi guardada e será lida quando a conexão voltar.');
+    retake();
+  };
+
   const handleScan = async () => {
     if (!capturedImage) return;
     setIsScanning(true);
+    setNotice(null);
     try {
-      const result = await scanProductFromImage(capturedImage);
-      onScanComplete(result);
-      onClose();
-    } catch (err) {
-      setError("Falha ao analisar imagem. Tente novamente.");
+      if (needsConnection && !navigator.onLine) {
+        await queueCapture(capturedImage);
+        return;
+      }
+      // Nada é salvo sem conferência: campos faltando ou incertos ficam em destaque
+      setReview(await recognizeLabel({ data: capturedImage, mimeType: CAPTURE_MIME_TYPE }, recognitionSettings));
+    } catch (err: any) {
+      // A conexão pode cair durante a leitura
+      if (needsConnection && !navigator.onLine) {
+        await queueCapture(capturedImage).catch(() => setError('Não foi possível guardar a foto.'));
+        return;
+      }
+      setError(err?.message || "Falha ao analisar imagem. Tente novamente.");
       setCapturedImage(null);
     } finally {
       setIsScanning(false);
@@ -68,25 +165,103 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
   };
 
   React.useEffect(() => {
+    unmountedRef.current = false;
     startCamera();
-    return stopCamera;
+    return () => {
+      unmountedRef.current = true;
+      stopTracks(streamRef.current);
+      streamRef.current = null;
+    };
   }, []);
 
+  // Leitura contínua do vídeo, sem botão de captura
+  React.useEffect(() => {
+    if (mode !== 'BARCODE' || !stream) return;
+    let cancelled = false;
+    let timer: number | undefined;
+    const readerPromise = createBarcodeReader();
+
+    const tick = async () => {
+      if (cancelled) return;
+      try {
+        const reader = await readerPromise;
+        const code = videoRef.current ? await reader.detect(videoRef.current) : null;
+        if (code && !cancelled && !handleCodeRef.current(code)) return;
+      } catch (err) {
+        setError("Não foi possível iniciar o leitor de código de barras.");
+        return;
+      }
+      timer = window.setTimeout(tick, BARCODE_SCAN_INTERVAL_MS);
+    };
+    tick();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [mode, stream]);
+
+  const retake = () => {
+    setReview(null);
+    setCapturedImage(null);
+    startCamera();
+  };
+
+  const confirmReview = (entry: ProductEntry) => {
+    if (!session) {
+      onScanComplete(entry);
+      onClose();
+      return;
+    }
+    setSession(prev => prev && addEntry(prev, entry));
+    setLastAdded(entry.name);
+    retake();
+  };
+
+  const commitSession = () => {
+    if (!session) return;
+    onCommitSession(sessionEntries(session));
+    // Limpa já, sem esperar o efeito: quem fecha o scanner consulta a sessão salva
+    saveSession(null);
+    setSession(null);
+    onClose();
+  };
+
+  const switchMode = (next: ScanMode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+    if (capturedImage) retake();
+  };
+
   return (
-    <div className="fixed inset-0 bg-slate-950/95 backdrop-blur-xl z-[60] flex flex-col items-center justify-center p-4">
+    <div className={`fixed inset-0 bg-slate-950/95 backdrop-blur-xl z-[60] flex flex-col items-center p-4 overflow-y-auto ${session ? 'justify-start pt-28' : 'justify-center'}`}>
       <div className="absolute top-8 left-8 right-8 flex justify-between items-center text-white">
         <div className="flex items-center gap-3">
           <div className="p-2 bg-indigo-500 rounded-lg">
             <Sparkles className="w-5 h-5 text-white" />
           </div>
-          <span className="font-bold text-xl tracking-tight">Scanner AI</span>
+          <span className="font-bold text-xl tracking-tight">{session ? 'Recebimento' : 'Scanner'}</span>
+          {!session && (
+            <button
+              onClick={() => setSession(startSession())}
+              className="ml-2 flex items-center gap-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-xs font-bold transition-colors"
+              title="Registrar vários itens de uma entrega e salvar tudo no final"
+            >
+              <PackagePlus className="w-4 h-4" /> Iniciar recebimento
+            </button>
+          )}
+        </div>
+        <div className="flex bg-white/10 p-1 rounded-2xl">
+          <ModeButton active={mode === 'BARCODE'} onClick={() => switchMode('BARCODE')} icon={<Barcode className="w-4 h-4" />} label="Código" />
+          <ModeButton active={mode === 'LABEL'} onClick={() => switchMode('LABEL')} icon={<Sparkles className="w-4 h-4" />} label="Rótulo" />
         </div>
         <button onClick={onClose} className="p-2.5 bg-white/10 rounded-full hover:bg-white/20 transition-colors">
           <X className="w-7 h-7" />
         </button>
       </div>
 
-      <div className="relative w-full max-w-lg aspect-[3/4] bg-slate-900 rounded-[2.5rem] overflow-hidden shadow-[0_0_50px_rgba(79,70,229,0.3)] border-2 border-white/10">
+      <div className={`relative w-full bg-slate-900 ${session ? 'max-w-md aspect-[4/3] shrink-0' : 'max-w-lg aspect-[3/4]'} rounded-[2.5rem] overflow-hidden shadow-[0_0_50px_rgba(79,70,229,0.3)] border-2 border-white/10`}>
         {!capturedImage ? (
           <video 
             ref={videoRef} 
@@ -96,7 +271,7 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
           />
         ) : (
           <img 
-            src={`data:image/jpeg;base64,${capturedImage}`} 
+            src={`data:${CAPTURE_MIME_TYPE};base64,${capturedImage}`} 
             alt="Captured" 
             className="w-full h-full object-cover" 
           />
@@ -107,7 +282,7 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
             <div className="w-64 h-32 border-2 border-dashed border-indigo-400/50 rounded-2xl flex items-center justify-center">
               <span className="text-indigo-400 text-[10px] font-black uppercase tracking-widest bg-slate-950/60 px-3 py-1.5 rounded-full">
-                Alinhe o rótulo
+                {mode === 'BARCODE' ? 'Alinhe o código de barras' : 'Alinhe o rótulo'}
               </span>
             </div>
           </div>
@@ -118,7 +293,7 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
             <RotateCw className="w-16 h-16 text-indigo-400 animate-spin" />
             <div className="text-center">
               <p className="font-black text-lg tracking-wide uppercase">Analisando</p>
-              <p className="text-slate-400 text-sm">O Gemini está lendo os dados...</p>
+              <p className="text-slate-400 text-sm">{RECOGNITION_PROVIDERS[recognitionSettings.provider]?.label} está lendo os dados...</p>
             </div>
           </div>
         )}
@@ -130,8 +305,18 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
         </div>
       )}
 
-      <div className="mt-10 flex items-center gap-6">
-        {!capturedImage ? (
+      {notice && !error && (
+        <div className="mt-6 px-6 py-3 bg-indigo-500/20 text-indigo-200 border border-indigo-500/50 rounded-2xl text-sm font-bold max-w-md text-center">
+          {notice}
+        </div>
+      )}
+
+      <div className={`${session ? 'mt-6' : 'mt-10'} flex items-center gap-6`}>
+        {mode === 'BARCODE' ? (
+          <div className="flex items-center gap-3 text-indigo-300 text-sm font-bold">
+            <RotateCw className="w-5 h-5 animate-spin" /> Procurando código de barras...
+          </div>
+        ) : !capturedImage ? (
           <button 
             onClick={capturePhoto}
             className="w-24 h-24 bg-white rounded-full flex items-center justify-center shadow-2xl active:scale-90 transition-transform"
@@ -143,7 +328,7 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
         ) : (
           <div className="flex gap-4">
             <button 
-              onClick={() => { setCapturedImage(null); startCamera(); }}
+              onClick={retake}
               className="px-8 py-4 bg-white/10 hover:bg-white/20 text-white font-bold rounded-2xl flex items-center gap-2 transition-all"
             >
               Refazer
@@ -154,17 +339,63 @@ const SmartAdd: React.FC<SmartAddProps> = ({ onScanComplete, onClose }) => {
               className="px-8 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl flex items-center gap-3 shadow-2xl shadow-indigo-500/40 transition-all active:scale-95"
             >
               <Scan className="w-6 h-6" />
-              Processar AI
+              Analisar rótulo
             </button>
           </div>
         )}
       </div>
 
-      <p className="mt-8 text-slate-500 text-xs max-w-xs text-center font-medium leading-relaxed uppercase tracking-tighter">
-        Dica: fotos nítidas e com boa luz <br/> garantem leitura perfeita.
-      </p>
+      {review && capturedImage && (
+        <ScanReview
+          image={capturedImage}
+          mimeType={CAPTURE_MIME_TYPE}
+          result={review}
+          onRetake={retake}
+          onConfirm={confirmReview}
+        />
+      )}
+
+      {session ? (
+        <ReceivingList
+          session={session}
+          lastAdded={lastAdded}
+          onChange={setSession}
+          onFinish={() => setIsSummaryOpen(true)}
+        />
+      ) : (
+        <p className="mt-8 text-slate-500 text-xs max-w-xs text-center font-medium leading-relaxed uppercase tracking-tighter">
+          {mode === 'BARCODE'
+            ? <>Leitura feita no aparelho, <br/> sem internet.</>
+            : needsConnection && !navigator.onLine
+              ? <>Sem internet: as fotos ficam guardadas <br/> e são lidas quando a conexão voltar.</>
+              : <>Dica: fotos nítidas e com boa luz <br/> garantem leitura perfeita.</>}
+        </p>
+      )}
+
+      {session && isSummaryOpen && (
+        <ReceivingSummary
+          session={session}
+          onConfirm={commitSession}
+          onBack={() => setIsSummaryOpen(false)}
+          onDiscard={() => {
+            setSession(null);
+            setIsSummaryOpen(false);
+          }}
+        />
+      )}
     </div>
   );
 };
 
+const ModeButton = ({ active, onClick, icon, label }: any) => (
+  <button
+    onClick={onClick}
+    className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${
+      active ? 'bg-white text-slate-900' : 'text-white/70 hover:text-white'
+    }`}
+  >
+    {icon} {label}
+  </button>
+);
+
 export default SmartAdd;
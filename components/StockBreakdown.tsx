@@ -0,0 +1,72 @@
+import React from 'react';
+import { ExpiryStatus, SectorStats } from '../types';
+import { STATUS_LABELS } from '../utils/productFilters';
+
+interface StockBreakdownProps {
+  title: string;
+  emptyLabel: string; // nome exibido para o grupo sem categoria/local
+  sectors: SectorStats[];
+  onSelect: (name: string, status: ExpiryStatus | 'ALL') => void;
+}
+
+// Ordem das colunas: do pior para o melhor
+const COLUMNS: { status: ExpiryStatus; color: string }[] = [
+  { status: ExpiryStatus.EXPIRED, color: 'text-rose-600' },
+  { status: ExpiryStatus.CRITICAL, color: 'text-orange-600' },
+  { status: ExpiryStatus.WARNING, color: 'text-amber-600' },
+  { status: ExpiryStatus.SAFE, color: 'text-emerald-600' }
+];
+
+const StockBreakdown: React.FC<StockBreakdownProps> = ({ title, emptyLabel, sectors, onSelect }) => (
+  <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+    <h3 className="text-lg font-bold text-slate-800 mb-4">{title}</h3>
+    {sectors.length === 0 ? (
+      <div className="h-32 flex items-center justify-center text-slate-400 italic">Nenhum lote em estoque</div>
+    ) : (
+      <div className="max-h-80 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              <th className="text-left font-bold pb-2">Nome</th>
+              {COLUMNS.map(c => <th key={c.status} className="text-right font-bold pb-2 pl-2">{STATUS_LABELS[c.status]}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {sectors.map(sector => (
+              <tr key={sector.name}>
+                <td className="py-1.5 pr-2">
+                  <button
+                    onClick={() => onSelect(sector.name, 'ALL')}
+                    className="font-bold text-slate-700 hover:text-indigo-600 truncate max-w-[10rem] text-left transition-colors"
+                  >
+                    {sector.name || emptyLabel}
+                  </button>
+                </td>
+                {COLUMNS.map(({ status, color }) => {
+                  const totals = sector.byStatus[status];
+                  return (
+                    <td key={status} className="py-1.5 pl-2 text-right">
+                      {totals.lots > 0 ? (
+                        <button
+                          onClick={() => onSelect(sector.name, status)}
+                          className="px-2 py-1 rounded-lg hover:bg-slate-50 transition-colors text-right"
+                        >
+                          <span className={`block font-black ${color}`}>{totals.lots}</span>
+                          <span className="block text-[10px] font-bold text-slate-400">{totals.units} un.</span>
+                        </button>
+                      ) : (
+                        <span className="text-slate-200 font-black">–</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+export default StockBreakdown;
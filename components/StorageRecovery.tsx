@@ -0,0 +1,107 @@
+import React from 'react';
+import { InvalidRecord, StorageFailure } from '../services/inventoryRepository';
+import { downloadFile } from '../utils/helpers';
+import { AlertOctagon, ArchiveRestore, ArrowDownToLine, RotateCw, Trash2 } from 'lucide-react';
+
+interface StorageRecoveryProps {
+  failure: StorageFailure | null;
+  invalid: InvalidRecord[];
+  onRetry: () => void;
+  onArchiveLegacy: (key: string) => void;
+  onContinue: () => void;
+  onDiscardInvalid: () => void;
+}
+
+const STAGE_LABELS: Record<StorageFailure['stage'], string> = {
+  open: 'Abertura do banco local',
+  migration: 'Migração de dados antigos',
+  load: 'Leitura do estoque',
+  write: 'Gravação de alterações'
+};
+
+/**
+ * Tela exibida quando o estoque salvo não pôde ser lido por completo.
+ * Nunca inicia o usuário com um estoque vazio sem que ele decida isso.
+ */
+const StorageRecovery: React.FC<StorageRecoveryProps> = ({ failure, invalid, onRetry, onArchiveLegacy, onContinue, onDiscardInvalid }) => {
+  const downloadRaw = () => {
+    if (failure?.raw) downloadFile(failure.raw, 'estoque_dados_originais.json', 'application/json');
+  };
+
+  const downloadInvalid = () => {
+    downloadFile(JSON.stringify(invalid.map(r => r.raw), null, 2), 'estoque_registros_invalidos.json', 'application/json');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg rounded-[2.5rem] shadow-2xl overflow-hidden">
+        <div className="px-8 py-6 bg-rose-500 flex items-center gap-3 text-white">
+          <AlertOctagon className="w-8 h-8" />
+          <div>
+            <h2 className="text-xl font-black">Problema ao carregar o estoque</h2>
+            <p className="text-[10px] font-bold uppercase tracking-widest opacity-80">
+              {failure ? STAGE_LABELS[failure.stage] : `${invalid.length} registro(s) com problema`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-8 space-y-6">
+          {failure ? (
+            <div className="bg-rose-50 border-l-4 border-rose-500 p-4 rounded-r-xl">
+              <p className="text-rose-900 font-bold mb-1">O que falhou:</p>
+              <p className="text-rose-700 text-sm break-words">{failure.message}</p>
+            </div>
+          ) : (
+            <div className="max-h-60 overflow-y-auto space-y-2">
+              {invalid.map(record => (
+                <div key={record.id} className="bg-rose-50 p-3 rounded-xl text-sm">
+                  <p className="font-bold text-rose-900 truncate">{record.raw?.name || record.id}</p>
+                  <p className="text-rose-700">{record.reason}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-slate-500 text-sm leading-relaxed">
+            Seus dados não foram apagados. Baixe uma cópia antes de escolher como continuar.
+          </p>
+
+          <div className="space-y-3">
+            {failure?.raw && (
+              <RecoveryButton onClick={downloadRaw} icon={<ArrowDownToLine className="w-5 h-5" />}>Baixar dados originais</RecoveryButton>
+            )}
+            {!failure && (
+              <RecoveryButton onClick={downloadInvalid} icon={<ArrowDownToLine className="w-5 h-5" />}>Baixar registros com problema</RecoveryButton>
+            )}
+            {failure?.legacyKey && (
+              <RecoveryButton onClick={() => onArchiveLegacy(failure.legacyKey!)} icon={<ArchiveRestore className="w-5 h-5" />}>
+                Arquivar dados antigos e continuar
+              </RecoveryButton>
+            )}
+            {failure ? (
+              <RecoveryButton onClick={onRetry} icon={<RotateCw className="w-5 h-5" />} primary>Tentar novamente</RecoveryButton>
+            ) : (
+              <>
+                <RecoveryButton onClick={onDiscardInvalid} icon={<Trash2 className="w-5 h-5" />}>Remover registros com problema</RecoveryButton>
+                <RecoveryButton onClick={onContinue} icon={<RotateCw className="w-5 h-5" />} primary>Continuar sem eles</RecoveryButton>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RecoveryButton = ({ onClick, icon, children, primary }: any) => (
+  <button
+    onClick={onClick}
+    className={`w-full flex items-center justify-center gap-2 py-4 rounded-2xl font-bold transition-all active:scale-95 ${
+      primary ? 'bg-slate-900 text-white hover:bg-slate-800 shadow-xl' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+    }`}
+  >
+    {icon} {children}
+  </button>
+);
+
+export default StorageRecovery;
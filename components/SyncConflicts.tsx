@@ -0,0 +1,129 @@
+import React from 'react';
+import { Product } from '../types';
+import { StoredConflict, SyncStatus } from '../services/syncClient';
+import { DELETED_FIELD, parseItemField } from '../utils/syncMerge';
+import { GitMerge, RefreshCw, X } from 'lucide-react';
+
+interface SyncConflictsProps {
+  conflicts: StoredConflict[];
+  products: Product[];
+  status: SyncStatus;
+  onSyncNow: () => void;
+  onUseValue: (conflict: StoredConflict) => void;
+  onDismiss: (conflict: StoredConflict) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  category: 'Categoria',
+  barcode: 'Código de barras',
+  lots: 'Lotes',
+  movements: 'Movimentações',
+  unitCost: 'Custo unitário',
+  salePrice: 'Preço de venda',
+  [DELETED_FIELD]: 'Exclusão'
+};
+
+// Lotes e lançamentos chegam item a item: "lots/<id>", "movements/<id>"
+const ITEM_LABELS: Record<string, string> = { lots: 'Lote', movements: 'Lançamento' };
+
+const fieldLabel = (field: string) => {
+  const item = parseItemField(field);
+  return item ? ITEM_LABELS[item.list] : FIELD_LABELS[field] || field;
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (field === DELETED_FIELD) return value ? 'Excluído' : 'Mantido';
+  const item = parseItemField(field);
+  if (item && value === null) return 'Removido';
+  if (item?.list === 'lots' && value) {
+    const lot = value as any;
+    return [lot.expiryDate, lot.location].filter(Boolean).join(' · ');
+  }
+  if (item?.list === 'movements' && value) {
+    const movement = value as any;
+    return `${movement.date} · ${movement.reason || movement.type} (${movement.quantity})`;
+  }
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, products, status, onSyncNow, onUseValue, onDismiss, onClose }) => (
+  <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+    <div className="bg-white w-full max-w-lg max-h-[90vh] flex flex-col rounded-[2rem] shadow-2xl overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-50 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 tracking-tight">Sincronização</h2>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            {status.pending} pendente(s) · {conflicts.length} conflito(s)
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="p-8 space-y-4 overflow-y-auto">
+        {status.message && (
+          <div className="bg-rose-50 border-l-4 border-rose-500 p-4 rounded-r-xl text-rose-700 text-sm">{status.message}</div>
+        )}
+
+        {conflicts.length === 0 ? (
+          <p className="text-slate-400 text-sm text-center italic py-6">Nenhum conflito registrado.</p>
+        ) : conflicts.map(conflict => {
+          const product = products.find(p => p.id === conflict.recordId);
+          return (
+            <div key={conflict.id} className="p-4 bg-slate-50 rounded-2xl space-y-3">
+              <div className="flex items-center gap-2">
+                <GitMerge className="w-4 h-4 text-amber-500" />
+                <span className="font-black text-slate-800 truncate">{product?.name || 'Produto excluído'}</span>
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {fieldLabel(conflict.field)}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-xs">
+                <div className="bg-emerald-50 p-3 rounded-xl">
+                  <p className="font-black text-emerald-600 uppercase tracking-widest text-[10px] mb-1">Mantido</p>
+                  <p className="text-slate-700 break-words">{formatValue(conflict.field, conflict.winner.value)}</p>
+                  <p className="text-slate-400 mt-1">{new Date(conflict.winner.stamp.at).toLocaleString('pt-BR')}</p>
+                </div>
+                <div className="bg-white p-3 rounded-xl">
+                  <p className="font-black text-slate-400 uppercase tracking-widest text-[10px] mb-1">Descartado</p>
+                  <p className="text-slate-700 break-words">{formatValue(conflict.field, conflict.loser.value)}</p>
+                  <p className="text-slate-400 mt-1">{new Date(conflict.loser.stamp.at).toLocaleString('pt-BR')}</p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {product && conflict.field !== DELETED_FIELD && (
+                  <button
+                    onClick={() => onUseValue(conflict)}
+                    className="flex-1 py-2.5 bg-indigo-600 text-white text-xs font-bold rounded-xl hover:bg-indigo-700 transition-colors"
+                  >
+                    Usar valor descartado
+                  </button>
+                )}
+                <button
+                  onClick={() => onDismiss(conflict)}
+                  className="flex-1 py-2.5 bg-slate-200 text-slate-600 text-xs font-bold rounded-xl hover:bg-slate-300 transition-colors"
+                >
+                  Dispensar
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        <button
+          onClick={onSyncNow}
+          disabled={status.state === 'syncing'}
+          className="w-full flex items-center justify-center gap-2 py-4 bg-slate-900 text-white font-black rounded-2xl hover:bg-slate-800 transition-all active:scale-95 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-5 h-5 ${status.state === 'syncing' ? 'animate-spin' : ''}`} /> Sincronizar agora
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default SyncConflicts;
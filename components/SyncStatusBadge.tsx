@@ -0,0 +1,49 @@
+import React from 'react';
+import { SyncStatus } from '../services/syncClient';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus;
+  conflictCount: number;
+  onClick: () => void;
+}
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, conflictCount, onClick }) => {
+  if (status.state === 'disabled') return null;
+
+  const { icon, label, classes } = (() => {
+    switch (status.state) {
+      case 'syncing': return { icon: <RefreshCw className="w-5 h-5 animate-spin" />, label: 'Sincronizando', classes: 'bg-indigo-50 text-indigo-600' };
+      case 'offline': return { icon: <CloudOff className="w-5 h-5" />, label: 'Offline', classes: 'bg-slate-100 text-slate-500' };
+      case 'error': return { icon: <AlertTriangle className="w-5 h-5" />, label: 'Erro', classes: 'bg-rose-50 text-rose-600' };
+      default: return { icon: <Cloud className="w-5 h-5" />, label: 'Sincronizado', classes: 'bg-emerald-50 text-emerald-600' };
+    }
+  })();
+
+  const title = [
+    status.message,
+    status.lastSyncedAt ? `Última sincronização: ${new Date(status.lastSyncedAt).toLocaleTimeString('pt-BR')}` : null,
+    status.pending > 0 ? `${status.pending} alteração(ões) pendente(s)` : null
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button
+      onClick={onClick}
+      title={title || label}
+      className={`relative p-3 rounded-xl flex items-center gap-2 font-bold text-xs transition-colors ${classes}`}
+    >
+      {icon}
+      <span className="hidden sm:inline uppercase tracking-widest text-[10px]">{label}</span>
+      {status.pending > 0 && (
+        <span className="text-[10px] font-black bg-white/80 px-1.5 rounded-full">{status.pending}</span>
+      )}
+      {conflictCount > 0 && (
+        <span className="absolute -top-1 -right-1 w-5 h-5 bg-amber-500 text-white text-[10px] font-black rounded-full flex items-center justify-center">
+          {conflictCount}
+        </span>
+      )}
+    </button>
+  );
+};
+
+export default SyncStatusBadge;
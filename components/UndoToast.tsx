@@ -0,0 +1,40 @@
+import React, { useEffect } from 'react';
+import { UndoEntry } from '../utils/undo';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  entry: UndoEntry | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// Tempo para desfazer antes do aviso sumir
+const UNDO_TIMEOUT_MS = 15000;
+
+const UndoToast: React.FC<UndoToastProps> = ({ entry, onUndo, onDismiss }) => {
+  // Uma nova alteração reinicia a contagem
+  useEffect(() => {
+    if (!entry) return;
+    const timer = window.setTimeout(onDismiss, UNDO_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [entry]);
+
+  if (!entry) return null;
+
+  return (
+    <div className="fixed bottom-28 md:bottom-8 left-4 right-4 md:right-auto md:left-72 md:w-96 z-50 bg-slate-900 text-white p-4 rounded-2xl shadow-2xl flex items-center gap-3">
+      <p className="flex-1 text-sm font-bold">{entry.label}</p>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1.5 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-xs font-bold rounded-xl transition-colors"
+      >
+        <Undo2 className="w-4 h-4" /> Desfazer
+      </button>
+      <button onClick={onDismiss} className="p-1.5 text-white/50 hover:text-white transition-colors" aria-label="Fechar">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
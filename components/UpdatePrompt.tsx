@@ -0,0 +1,37 @@
+import React from 'react';
+import { RefreshCw, WifiOff, X } from 'lucide-react';
+
+interface UpdatePromptProps {
+  updateAvailable: boolean;
+  offlineReady: boolean;
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ updateAvailable, offlineReady, onUpdate, onDismiss }) => {
+  if (!updateAvailable && !offlineReady) return null;
+
+  return (
+    <div className="fixed bottom-28 md:bottom-8 left-4 right-4 md:left-auto md:right-8 md:w-96 z-50 bg-slate-900 text-white p-4 rounded-2xl shadow-2xl flex items-center gap-3">
+      <div className="p-2 bg-indigo-500 rounded-xl shrink-0">
+        {updateAvailable ? <RefreshCw className="w-5 h-5" /> : <WifiOff className="w-5 h-5" />}
+      </div>
+      <p className="flex-1 text-sm font-bold">
+        {updateAvailable ? 'Nova versão disponível.' : 'Pronto para usar sem internet.'}
+      </p>
+      {updateAvailable && (
+        <button
+          onClick={onUpdate}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-xs font-bold rounded-xl transition-colors"
+        >
+          Atualizar
+        </button>
+      )}
+      <button onClick={onDismiss} className="p-1.5 text-white/50 hover:text-white transition-colors" aria-label="Fechar">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -2,6 +2,13 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+// Estilos e fonte vão no build (e no precache do service worker): nada vem de CDN
+import '@fontsource/inter/latin-300.css';
+import '@fontsource/inter/latin-400.css';
+import '@fontsource/inter/latin-500.css';
+import '@fontsource/inter/latin-600.css';
+import '@fontsource/inter/latin-700.css';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
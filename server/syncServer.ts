@@ -0,0 +1,124 @@
+/**
+ * Servidor de sincronização auto-hospedável.
+ *
+ *   npm run sync-server
+ *
+ * Variáveis de ambiente:
+ *   SYNC_PORT       porta HTTP (padrão 8787)
+ *   SYNC_TOKEN      se definido, exige "Authorization: Bearer <token>"
+ *   SYNC_DATA_FILE  se definido, persiste os registros nesse arquivo JSON;
+ *                   caso contrário tudo fica em memória
+ */
+import http from 'node:http';
+import fs from 'node:fs';
+import { FieldConflict, SyncRecord, SyncRequest, SyncResponse, mergeRecords } from '../utils/syncMerge';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_FILE = process.env.SYNC_DATA_FILE || '';
+
+interface StoredRecord {
+  seq: number;
+  record: SyncRecord;
+}
+
+const store = new Map<string, StoredRecord>();
+let cursor = 0;
+
+const loadFromDisk = () => {
+  if (!DATA_FILE || !fs.existsSync(DATA_FILE)) return;
+  const saved = JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8')) as { cursor: number; records: StoredRecord[] };
+  cursor = saved.cursor;
+  saved.records.forEach(r => store.set(r.record.id, r));
+  console.log(`Carregados ${store.size} registros de ${DATA_FILE}`);
+};
+
+const saveToDisk = () => {
+  if (!DATA_FILE) return;
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ cursor, records: [...store.values()] }));
+  fs.renameSync(tmp, DATA_FILE);
+};
+
+/**
+ * Aplica as alterações enviadas por um dispositivo e devolve tudo o que ele
+ * ainda não viu (inclusive o resultado da fusão das próprias alterações).
+ */
+export const handleSync = (request: SyncRequest): SyncResponse => {
+  const conflicts: FieldConflict[] = [];
+
+  request.records.forEach(incoming => {
+    const existing = store.get(incoming.id);
+    const nextSeq = cursor + 1;
+    const stamped: SyncRecord = {
+      ...incoming,
+      stamps: Object.fromEntries(Object.entries(incoming.stamps).map(([f, s]) => [f, { ...s, seq: nextSeq }]))
+    };
+
+    // Conflito = o campo mudou no servidor depois do último pull desse dispositivo
+    const result = mergeRecords(existing?.record, stamped, base => (base.seq ?? 0) > request.since);
+    conflicts.push(...result.conflicts);
+
+    if (result.changedFields.length > 0) {
+      cursor = nextSeq;
+      store.set(incoming.id, { seq: cursor, record: result.record });
+    }
+  });
+
+  if (request.records.length > 0) saveToDisk();
+
+  const records = [...store.values()]
+    .filter(r => r.seq > request.since)
+    .map(r => r.record);
+
+  return { cursor, records, conflicts };
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const send = (res: http.ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, undefined);
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: 'Token inválido' });
+  }
+
+  if (req.method === 'GET' && req.url === '/health') {
+    return send(res, 200, { ok: true, cursor, records: store.size });
+  }
+
+  if (req.method === 'POST' && req.url === '/sync') {
+    try {
+      const body = JSON.parse(await readBody(req)) as SyncRequest;
+      if (!body.deviceId || !Array.isArray(body.records)) {
+        return send(res, 400, { error: 'Requisição inválida' });
+      }
+      return send(res, 200, handleSync({ ...body, since: Number(body.since) || 0 }));
+    } catch (err: any) {
+      return send(res, 400, { error: err.message || 'JSON inválido' });
+    }
+  }
+
+  send(res, 404, { error: 'Rota não encontrada' });
+});
+
+loadFromDisk();
+server.listen(PORT, () => {
+  console.log(`Servidor de sincronização em http://localhost:${PORT} (${DATA_FILE ? `arquivo ${DATA_FILE}` : 'memória'})`);
+});
@@ -0,0 +1,179 @@
+import { AppSettings, Product } from '../types';
+import { downloadFile, generateId, toISODate } from '../utils/helpers';
+import { withDerivedQuantities } from '../utils/ledger';
+import { mergeSettings } from '../utils/settings';
+import { sha256Hex } from '../utils/sha256';
+import {
+  openInventoryDb,
+  requestToPromise,
+  transactionDone,
+  validateProduct,
+  DB_VERSION,
+  SNAPSHOTS_STORE
+} from './inventoryRepository';
+
+const BACKUP_FORMAT = 'vencimentos-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  products: Product[];
+  settings: AppSettings;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // versão do banco local que gerou o arquivo
+  createdAt: number;
+  checksum: string;      // SHA-256 do JSON de `data`
+  data: BackupData;
+}
+
+export interface BackupDiff {
+  added: number;     // só no backup
+  changed: number;   // nos dois, com diferenças
+  unchanged: number;
+  missing: number;   // só no estoque atual
+}
+
+export type RestoreMode = 'MERGE' | 'REPLACE';
+
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  productCount: number;
+  backup: BackupFile;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  try {
+    return await sha256Hex(text);
+  } catch (err: any) {
+    throw { message: `Não foi possível calcular a soma de verificação do backup neste navegador: ${err?.message || err}` };
+  }
+};
+
+export const createBackup = async (products: Product[], settings: AppSettings): Promise<BackupFile> => {
+  const data: BackupData = { products, settings };
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: DB_VERSION,
+    createdAt: Date.now(),
+    checksum: await sha256(JSON.stringify(data)),
+    data
+  };
+};
+
+export const downloadBackup = (backup: BackupFile) => {
+  downloadFile(JSON.stringify(backup, null, 2), `Backup_Estoque_${toISODate(new Date(backup.createdAt))}.json`, 'application/json');
+};
+
+/**
+ * Lê e valida um arquivo de backup. Erros são lançados como `{ message }`
+ * para exibição direta ao usuário.
+ */
+export const parseBackup = async (text: string): Promise<BackupFile> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw { message: 'O arquivo não é um JSON válido.' };
+  }
+
+  if (parsed?.format !== BACKUP_FORMAT || !parsed.data) {
+    throw { message: 'Este arquivo não é um backup do aplicativo.' };
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw { message: `Backup na versão ${parsed.version}, mais nova que a suportada (${BACKUP_VERSION}). Atualize o aplicativo.` };
+  }
+  // O JSON.parse preserva a ordem das chaves, então a serialização é a mesma da gravação
+  if (await sha256(JSON.stringify(parsed.data)) !== parsed.checksum) {
+    throw { message: 'A soma de verificação não confere: o arquivo foi alterado ou está incompleto.' };
+  }
+  if (!Array.isArray(parsed.data.products)) {
+    throw { message: 'O backup não contém a lista de produtos.' };
+  }
+
+  const invalid = parsed.data.products
+    .map((p: any) => ({ p, reason: validateProduct(p) }))
+    .find((r: any) => r.reason);
+  if (invalid) {
+    throw { message: `Produto inválido no backup (${invalid.p?.name || invalid.p?.id || 'sem nome'}): ${invalid.reason}` };
+  }
+
+  return {
+    ...parsed,
+    data: { products: parsed.data.products, settings: mergeSettings(parsed.data.settings) }
+  };
+};
+
+export const diffBackup = (current: Product[], incoming: Product[]): BackupDiff => {
+  const currentById = new Map(current.map(p => [p.id, p]));
+  const incomingIds = new Set(incoming.map(p => p.id));
+  const diff: BackupDiff = { added: 0, changed: 0, unchanged: 0, missing: 0 };
+
+  incoming.forEach(p => {
+    const existing = currentById.get(p.id);
+    if (!existing) diff.added++;
+    else if (JSON.stringify(existing) === JSON.stringify(p)) diff.unchanged++;
+    else diff.changed++;
+  });
+  diff.missing = current.filter(p => !incomingIds.has(p.id)).length;
+  return diff;
+};
+
+const unionById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const ids = new Set(current.map(item => item.id));
+  return [...current, ...incoming.filter(item => !ids.has(item.id))];
+};
+
+/**
+ * Mescla o backup no estoque atual: produtos que faltam são recuperados e, nos
+ * que existem dos dois lados, lotes e lançamentos ausentes são acrescentados.
+ * Os dados atuais do produto prevalecem.
+ */
+export const mergeBackupProducts = (current: Product[], incoming: Product[]): Product[] => {
+  const incomingById = new Map(incoming.map(p => [p.id, p]));
+  const currentIds = new Set(current.map(p => p.id));
+
+  const merged = current.map(product => {
+    const backup = incomingById.get(product.id);
+    if (!backup) return product;
+    const lots = unionById(product.lots, backup.lots);
+    const movements = unionById(product.movements, backup.movements);
+    if (lots.length === product.lots.length && movements.length === product.movements.length) return product;
+    return withDerivedQuantities({ ...product, lots, movements });
+  });
+
+  return [...merged, ...incoming.filter(p => !currentIds.has(p.id))];
+};
+
+export const listSnapshots = async (): Promise<Snapshot[]> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const snapshots: Snapshot[] = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).getAll());
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Grava um instantâneo local e descarta os mais antigos além de `keep`.
+ */
+export const saveSnapshot = async (products: Product[], settings: AppSettings, keep: number): Promise<void> => {
+  const backup = await createBackup(products, settings);
+  const existing = await listSnapshots();
+
+  const db = await openInventoryDb();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const store = tx.objectStore(SNAPSHOTS_STORE);
+  store.put({ id: generateId(), createdAt: backup.createdAt, productCount: products.length, backup } as Snapshot);
+  existing.slice(Math.max(0, keep - 1)).forEach(s => store.delete(s.id));
+  await transactionDone(tx);
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  tx.objectStore(SNAPSHOTS_STORE).delete(id);
+  await transactionDone(tx);
+};
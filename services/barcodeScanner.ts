@@ -0,0 +1,73 @@
+/// <reference types="vite/client" />
+import { prepareZXingModule, readBarcodes } from 'zxing-wasm/reader';
+// O .wasm vai junto no build: nada é buscado em CDN, funciona offline
+import zxingWasmUrl from 'zxing-wasm/reader/zxing_reader.wasm?url';
+
+// Formatos de varejo impressos nas embalagens
+const NATIVE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128'];
+const WASM_FORMATS: ('EAN13' | 'EAN8' | 'UPCA' | 'UPCE' | 'Code128')[] = ['EAN13', 'EAN8', 'UPCA', 'UPCE', 'Code128'];
+
+// Quadros grandes deixam o decodificador WASM lento sem ganhar leitura
+const MAX_FRAME_WIDTH = 960;
+
+export interface BarcodeReader {
+  engine: 'native' | 'wasm';
+  /** Lê o quadro atual do vídeo; null quando não há código visível. */
+  detect: (video: HTMLVideoElement) => Promise<string | null>;
+}
+
+const createNativeReader = async (): Promise<BarcodeReader | null> => {
+  const Detector = (window as any).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    const supported: string[] = await Detector.getSupportedFormats();
+    const formats = NATIVE_FORMATS.filter(f => supported.includes(f));
+    if (!formats.includes('ean_13')) return null;
+    const detector = new Detector({ formats });
+    return {
+      engine: 'native',
+      detect: async (video) => {
+        const [found] = await detector.detect(video);
+        return found?.rawValue || null;
+      }
+    };
+  } catch {
+    return null;
+  }
+};
+
+const createWasmReader = (): BarcodeReader => {
+  prepareZXingModule({
+    overrides: {
+      locateFile: (path: string, prefix: string) => (path.endsWith('.wasm') ? zxingWasmUrl : prefix + path)
+    }
+  });
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  return {
+    engine: 'wasm',
+    detect: async (video) => {
+      if (!ctx || video.readyState < 2 || !video.videoWidth) return null;
+      const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const results = await readBarcodes(ctx.getImageData(0, 0, canvas.width, canvas.height), {
+        formats: WASM_FORMATS,
+        tryHarder: true,
+        maxNumberOfSymbols: 1
+      });
+      return results.find(r => r.isValid)?.text || null;
+    }
+  };
+};
+
+/**
+ * Usa a BarcodeDetector do navegador quando ela reconhece EAN; caso contrário,
+ * o decodificador WASM empacotado com o aplicativo.
+ */
+export const createBarcodeReader = async (): Promise<BarcodeReader> =>
+  (await createNativeReader()) || createWasmReader();
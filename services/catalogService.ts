@@ -0,0 +1,24 @@
+import { CatalogItem } from '../types';
+import { openInventoryDb, requestToPromise, transactionDone, CATALOG_STORE } from './inventoryRepository';
+
+export const listCatalog = async (): Promise<CatalogItem[]> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(CATALOG_STORE, 'readonly');
+  const items: CatalogItem[] = await requestToPromise(tx.objectStore(CATALOG_STORE).getAll());
+  return items.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCatalogItems = async (items: CatalogItem[]): Promise<void> => {
+  if (items.length === 0) return;
+  const db = await openInventoryDb();
+  const tx = db.transaction(CATALOG_STORE, 'readwrite');
+  items.forEach(item => tx.objectStore(CATALOG_STORE).put(item));
+  await transactionDone(tx);
+};
+
+export const deleteCatalogItem = async (barcode: string): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(CATALOG_STORE, 'readwrite');
+  tx.objectStore(CATALOG_STORE).delete(barcode);
+  await transactionDone(tx);
+};
@@ -1,43 +1,59 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
+import type { RecognitionProvider } from './labelRecognition';
+
+const PROMPT = "Extraia do rótulo o nome do produto, a data de validade (formato YYYY-MM-DD), o código de barras (EAN/GTIN se visível), o código do lote e sugira uma categoria curta. Para cada campo, informe em confidence de 0 a 1 o quanto o valor está legível na imagem. Use null quando o campo não aparecer; não invente datas. Responda apenas em JSON.";
+
+const field = {
+  type: Type.OBJECT,
+  properties: {
+    value: { type: Type.STRING, nullable: true },
+    confidence: { type: Type.NUMBER }
+  },
+  required: ["value", "confidence"]
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+let client: GoogleGenAI | null = null;
 
-export const scanProductFromImage = async (base64Image: string) => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+// Criado no primeiro uso: sem chave configurada o restante do app funciona normalmente
+const getClient = () => {
+  if (!process.env.API_KEY) throw { message: 'Chave da API do Gemini não configurada.' };
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+export const geminiProvider: RecognitionProvider = {
+  id: 'GEMINI',
+  label: 'Gemini (online)',
+  offline: false,
+  recognize: async (image, settings) => {
+    const response = await getClient().models.generateContent({
+      model: settings.geminiModel,
       contents: {
         parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: base64Image,
-            },
-          },
-          {
-            text: "Extraia o nome do produto, a data de validade (formato YYYY-MM-DD), o código de barras (EAN/GTIN se visível) e sugira uma categoria curta. Se não encontrar a data, tente estimar ou retorne null. Responda apenas em JSON.",
-          },
-        ],
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
+          { text: PROMPT }
+        ]
       },
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            name: { type: Type.STRING },
-            expiryDate: { type: Type.STRING },
-            category: { type: Type.STRING },
-            barcode: { type: Type.STRING }
+            name: field,
+            expiryDate: field,
+            category: field,
+            barcode: field,
+            lotCode: field
           },
-          required: ["name", "expiryDate", "category", "barcode"]
+          required: ["name", "expiryDate", "category", "barcode", "lotCode"]
         }
       }
     });
 
-    return JSON.parse(response.text);
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    throw error;
+    try {
+      return JSON.parse(response.text || '');
+    } catch {
+      throw { message: 'O Gemini devolveu uma resposta que não é JSON.' };
+    }
   }
 };
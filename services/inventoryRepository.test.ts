@@ -0,0 +1,70 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DB_VERSION, loadInventory, openInventoryDb } from './inventoryRepository';
+
+// localStorage mínimo para o Node. Como no navegador, os itens são
+// propriedades próprias e aparecem em Object.keys(localStorage).
+const createStorage = (): Storage => {
+  const storage: any = {};
+  const keys = () => Object.keys(storage);
+  Object.defineProperties(storage, {
+    length: { get: () => keys().length },
+    key: { value: (index: number) => keys()[index] ?? null },
+    getItem: { value: (key: string) => Object.prototype.hasOwnProperty.call(storage, key) ? storage[key] : null },
+    setItem: { value: (key: string, value: string) => { storage[key] = String(value); } },
+    removeItem: { value: (key: string) => { delete storage[key]; } },
+    clear: { value: () => keys().forEach(key => delete storage[key]) }
+  });
+  return storage;
+};
+
+// Como a v4 (localStorage) gravava: data única por produto, sem lotes nem livro
+const LEGACY_PRODUCTS = [
+  { id: 'a', name: 'Leite', category: 'Laticínios', expiryDate: '2026-03-10', quantity: 12, location: 'Geladeira', createdAt: Date.UTC(2026, 0, 5) },
+  { id: 'b', name: 'Arroz', category: 'Grãos', expiryDate: '2026-08-01', quantity: '3', createdAt: Date.UTC(2026, 0, 6) },
+  { id: 'c', name: 'Sal', category: 'Temperos', quantity: 0, createdAt: Date.UTC(2026, 0, 7) }
+];
+
+describe('migração do localStorage para o IndexedDB', () => {
+  beforeAll(() => {
+    const storage = createStorage();
+    storage.setItem('vencimentos_v4_storage', JSON.stringify(LEGACY_PRODUCTS));
+    storage.setItem('vencimentos_v4_settings', JSON.stringify({ expiry: { defaultRule: { warningDays: 45 } } }));
+    // Chave mais antiga com id repetido: prevalece o registro da v4
+    storage.setItem('vencimentos_v3_storage', JSON.stringify([{ id: 'a', name: 'Leite antigo', expiryDate: '2025-01-01', quantity: 1 }]));
+    Object.defineProperty(globalThis, 'localStorage', { value: storage, configurable: true });
+  });
+
+  it('abre o banco na versão atual', async () => {
+    const db = await openInventoryDb();
+    expect(db.version).toBe(DB_VERSION);
+  });
+
+  it('converte os registros antigos em produtos com lotes e livro', async () => {
+    const { products, invalid } = await loadInventory();
+    expect(invalid).toEqual([]);
+    expect(products).toHaveLength(3);
+
+    const milk = products.find(p => p.id === 'a')!;
+    expect(milk.name).toBe('Leite');
+    expect(milk.lots).toHaveLength(1);
+    expect(milk.lots[0]).toMatchObject({ expiryDate: '2026-03-10', quantity: 12, location: 'Geladeira', receivedAt: '2026-01-05' });
+    expect(milk.movements).toHaveLength(1);
+    expect(milk.movements[0]).toMatchObject({ lotId: milk.lots[0].id, type: 'RECEIVE', quantity: 12 });
+    expect(milk).not.toHaveProperty('expiryDate');
+
+    const rice = products.find(p => p.id === 'b')!;
+    expect(rice.lots[0].quantity).toBe(3);
+    expect(rice.movements[0]).toMatchObject({ lotId: rice.lots[0].id, quantity: 3 });
+
+    // Sem data não há lote, e sem saldo não há movimentação
+    const salt = products.find(p => p.id === 'c')!;
+    expect(salt.lots).toEqual([]);
+    expect(salt.movements).toEqual([]);
+  });
+
+  it('importa os ajustes antigos', async () => {
+    const { settings } = await loadInventory();
+    expect(settings.expiry.defaultRule.warningDays).toBe(45);
+  });
+});
@@ -0,0 +1,287 @@
+import { AppSettings, Product } from '../types';
+import { mergeSettings } from '../utils/settings';
+import { migrateProduct } from '../utils/lots';
+import { ensureLedger } from '../utils/ledger';
+
+const DB_NAME = 'vencimentos';
+export const PRODUCTS_STORE = 'products';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'app';
+export const SYNC_META_STORE = 'syncMeta';
+export const SYNC_STATE_STORE = 'syncState';
+export const SYNC_CONFLICTS_STORE = 'syncConflicts';
+export const SNAPSHOTS_STORE = 'snapshots';
+export const CATALOG_STORE = 'catalog';
+export const NOTIFICATION_STATE_STORE = 'notificationState';
+export const SCAN_QUEUE_STORE = 'scanQueue';
+export const TRASH_STORE = 'trash';
+
+// Chaves usadas pelas versões que salvavam tudo no localStorage
+const LEGACY_STORAGE_PATTERN = /^vencimentos_v(\d+)_storage$/;
+const LEGACY_SETTINGS_KEY = 'vencimentos_v4_settings';
+
+export interface StorageFailure {
+  message: string;
+  stage: 'open' | 'migration' | 'load' | 'write';
+  /** Conteúdo original que não pôde ser lido, para o usuário baixar. */
+  raw?: string;
+  /** Chave do localStorage de onde veio o conteúdo corrompido. */
+  legacyKey?: string;
+}
+
+export interface InvalidRecord {
+  id: string;
+  reason: string;
+  raw: any;
+}
+
+export interface LoadedInventory {
+  products: Product[];
+  settings: AppSettings;
+  invalid: InvalidRecord[];
+}
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * Migrações de schema, indexadas pela versão que produzem.
+ * Nunca edite uma migração já publicada: acrescente uma nova versão.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: cria os stores e importa o que estava no localStorage
+  1: (db, tx) => {
+    db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' });
+    db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+
+    const products = tx.objectStore(PRODUCTS_STORE);
+    readLegacyProducts().forEach(p => products.put(p));
+
+    const legacySettings = localStorage.getItem(LEGACY_SETTINGS_KEY);
+    if (legacySettings) {
+      const value = parseLegacy(LEGACY_SETTINGS_KEY, legacySettings);
+      tx.objectStore(SETTINGS_STORE).put({ key: SETTINGS_KEY, value });
+    }
+  },
+  // v2: registros de data única viram produtos com lotes
+  2: (_db, tx) => {
+    const request = tx.objectStore(PRODUCTS_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!Array.isArray(cursor.value.lots)) cursor.update(migrateProduct(cursor.value));
+      cursor.continue();
+    };
+  },
+  // v3: metadados de sincronização entre dispositivos
+  3: (db) => {
+    db.createObjectStore(SYNC_META_STORE, { keyPath: 'id' });
+    db.createObjectStore(SYNC_STATE_STORE, { keyPath: 'key' });
+    db.createObjectStore(SYNC_CONFLICTS_STORE, { keyPath: 'id' });
+  },
+  // v4: quantidades passam a ser derivadas do livro de movimentações.
+  // Roda na mesma transação que a v2, cujo cursor pode ainda não ter chegado
+  // ao registro: o que ainda está no formato antigo é convertido aqui mesmo.
+  4: (_db, tx) => {
+    const request = tx.objectStore(PRODUCTS_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const value = cursor.value;
+      if (!Array.isArray(value.movements)) cursor.update(ensureLedger(Array.isArray(value.lots) ? value : migrateProduct(value)));
+      cursor.continue();
+    };
+  },
+  // v5: instantâneos automáticos de backup
+  5: (db) => {
+    db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+  },
+  // v6: catálogo local de códigos de barras
+  6: (db) => {
+    db.createObjectStore(CATALOG_STORE, { keyPath: 'barcode' });
+  },
+  // v7: o que já foi avisado, compartilhado entre o app e o service worker
+  7: (db) => {
+    db.createObjectStore(NOTIFICATION_STATE_STORE, { keyPath: 'key' });
+  },
+  // v8: fotos de rótulo tiradas sem internet, à espera de leitura
+  8: (db) => {
+    db.createObjectStore(SCAN_QUEUE_STORE, { keyPath: 'id' });
+  },
+  // v9: lixeira com os produtos excluídos, restauráveis por um prazo
+  9: (db) => {
+    db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+  }
+};
+
+export const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+const parseLegacy = (key: string, raw: string) => {
+  try {
+    return JSON.parse(raw);
+  } catch (e: any) {
+    throw { message: `Dados antigos corrompidos em "${key}": ${e.message}`, stage: 'migration', raw, legacyKey: key } as StorageFailure;
+  }
+};
+
+/**
+ * Lê todas as chaves legadas (v1..vN), da mais nova para a mais antiga.
+ * Em caso de id repetido, prevalece o registro da versão mais nova.
+ */
+const readLegacyProducts = (): any[] => {
+  const keys = Object.keys(localStorage)
+    .filter(k => LEGACY_STORAGE_PATTERN.test(k))
+    .sort((a, b) => Number(b.match(LEGACY_STORAGE_PATTERN)![1]) - Number(a.match(LEGACY_STORAGE_PATTERN)![1]));
+
+  const byId = new Map<string, any>();
+  keys.forEach(key => {
+    const parsed = parseLegacy(key, localStorage.getItem(key) || '[]');
+    if (!Array.isArray(parsed)) {
+      throw { message: `Formato inesperado em "${key}": esperava uma lista de produtos.`, stage: 'migration', raw: localStorage.getItem(key) || '', legacyKey: key } as StorageFailure;
+    }
+    parsed.forEach(p => {
+      if (p && p.id && !byId.has(p.id)) byId.set(p.id, p);
+    });
+  });
+  return [...byId.values()];
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openInventoryDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject({ message: 'Este navegador não oferece IndexedDB.', stage: 'open' } as StorageFailure);
+      return;
+    }
+
+    let migrationFailure: StorageFailure | null = null;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        try {
+          MIGRATIONS[version](db, tx);
+        } catch (err: any) {
+          migrationFailure = err?.stage ? err : { message: `Falha na migração v${version}: ${err?.message || err}`, stage: 'migration' };
+          tx.abort();
+          return;
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      reject(migrationFailure || { message: request.error?.message || 'Não foi possível abrir o banco local.', stage: 'open' } as StorageFailure);
+    };
+    request.onblocked = () => {
+      reject({ message: 'O banco local está em uso por outra aba. Feche-a e tente novamente.', stage: 'open' } as StorageFailure);
+    };
+  });
+
+  // Permite tentar novamente após uma falha
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const validateProduct = (raw: any): string | null => {
+  if (!raw || typeof raw !== 'object') return 'Registro não é um objeto';
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return 'Produto sem nome';
+  if (!Array.isArray(raw.lots)) return 'Produto sem lista de lotes';
+  if (!Array.isArray(raw.movements)) return 'Produto sem livro de movimentações';
+  const badLot = raw.lots.find((l: any) => !l || typeof l.expiryDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(l.expiryDate));
+  if (badLot) return `Lote com validade inválida: ${badLot?.expiryDate}`;
+  return null;
+};
+
+/**
+ * Carrega o estoque. Registros que não passam na validação são devolvidos em
+ * `invalid` em vez de descartados, para o usuário decidir o que fazer.
+ */
+export const loadInventory = async (): Promise<LoadedInventory> => {
+  const db = await openInventoryDb();
+  try {
+    const tx = db.transaction([PRODUCTS_STORE, SETTINGS_STORE], 'readonly');
+    const [records, settingsRecord] = await Promise.all([
+      requestToPromise(tx.objectStore(PRODUCTS_STORE).getAll()),
+      requestToPromise(tx.objectStore(SETTINGS_STORE).get(SETTINGS_KEY))
+    ]);
+
+    const products: Product[] = [];
+    const invalid: InvalidRecord[] = [];
+    records.forEach(raw => {
+      const reason = validateProduct(raw);
+      if (reason) invalid.push({ id: String(raw?.id), reason, raw });
+      else products.push(raw);
+    });
+
+    return { products, settings: mergeSettings(settingsRecord?.value), invalid };
+  } catch (err: any) {
+    throw { message: err?.message || 'Falha ao ler o banco local.', stage: 'load' } as StorageFailure;
+  }
+};
+
+/**
+ * Grava apenas os registros que mudaram entre dois estados da lista.
+ * Compara por identidade de objeto: atualizações imutáveis geram objetos novos.
+ */
+export const persistProductChanges = async (prev: Product[], next: Product[]): Promise<void> => {
+  if (prev === next) return;
+
+  const prevById = new Map(prev.map(p => [p.id, p]));
+  const nextIds = new Set(next.map(p => p.id));
+  const changed = next.filter(p => prevById.get(p.id) !== p);
+  const removed = prev.filter(p => !nextIds.has(p.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openInventoryDb();
+  const tx = db.transaction(PRODUCTS_STORE, 'readwrite');
+  const store = tx.objectStore(PRODUCTS_STORE);
+  changed.forEach(p => store.put(p));
+  removed.forEach(p => store.delete(p.id));
+  try {
+    await transactionDone(tx);
+  } catch (err: any) {
+    throw { message: err?.message || 'Falha ao salvar alterações.', stage: 'write' } as StorageFailure;
+  }
+};
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).put({ key: SETTINGS_KEY, value: settings });
+  await transactionDone(tx);
+};
+
+export const deleteProductRecords = async (ids: string[]): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(PRODUCTS_STORE, 'readwrite');
+  ids.forEach(id => tx.objectStore(PRODUCTS_STORE).delete(id));
+  await transactionDone(tx);
+};
+
+/**
+ * Move uma chave legada corrompida para um nome de arquivo morto, para que a
+ * migração possa prosseguir sem perder o conteúdo original.
+ */
+export const archiveLegacyKey = (key: string) => {
+  const raw = localStorage.getItem(key);
+  if (raw !== null) localStorage.setItem(`${key}_corrompido_${Date.now()}`, raw);
+  localStorage.removeItem(key);
+};
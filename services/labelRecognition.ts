@@ -0,0 +1,80 @@
+import { RecognitionProviderId, RecognitionSettings } from '../types';
+import { parseExpiryDate } from '../utils/dateParser';
+import { isValidGtin } from '../utils/labelExtractor';
+import { geminiProvider } from './geminiService';
+import { ocrProvider } from './ocrService';
+import { mockProvider } from './mockRecognition';
+
+export type LabelField = 'name' | 'expiryDate' | 'category' | 'barcode' | 'lotCode';
+
+export const LABEL_FIELDS: LabelField[] = ['name', 'expiryDate', 'category', 'barcode', 'lotCode'];
+
+export interface LabelImage {
+  data: string;     // base64, sem o prefixo "data:"
+  mimeType: string;
+}
+
+export interface RecognizedField {
+  value: string | null;
+  confidence: number; // 0 a 1
+}
+
+export type LabelRecognition = Record<LabelField, RecognizedField>;
+
+/** Resposta de um provedor antes da validação: nada aqui é confiável. */
+export type RawRecognition = Partial<Record<LabelField, { value?: unknown; confidence?: unknown }>>;
+
+export interface RecognitionProvider {
+  id: RecognitionProviderId;
+  label: string;
+  offline: boolean;
+  recognize: (image: LabelImage, settings: RecognitionSettings) => Promise<RawRecognition>;
+}
+
+export const RECOGNITION_PROVIDERS: Record<RecognitionProviderId, RecognitionProvider> = {
+  GEMINI: geminiProvider,
+  OCR: ocrProvider,
+  MOCK: mockProvider
+};
+
+// Confiança assumida quando o provedor traz o valor sem dizer o quanto confia nele
+const UNREPORTED_CONFIDENCE = 0.5;
+// Dia e mês trocáveis: a data lida pode estar certa, mas não dá para ter certeza
+const AMBIGUOUS_DATE_PENALTY = 0.6;
+
+const clampConfidence = (value: unknown, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+const readField = (raw: RawRecognition, field: LabelField): RecognizedField => {
+  const entry = raw[field];
+  const text = typeof entry?.value === 'string' || typeof entry?.value === 'number' ? String(entry.value).trim() : '';
+  if (!text || text.toLowerCase() === 'null') return { value: null, confidence: 0 };
+  return { value: text, confidence: clampConfidence(entry?.confidence, UNREPORTED_CONFIDENCE) };
+};
+
+/**
+ * Confere a forma da resposta e normaliza os valores: a validade passa pelo
+ * parser de datas e o código de barras precisa ter dígito verificador válido.
+ * Resposta fora do formato é lançada como `{ message }`.
+ */
+export const validateRecognition = (raw: unknown): LabelRecognition => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw { message: 'O reconhecimento devolveu uma resposta em formato inesperado.' };
+  }
+  const fields = Object.fromEntries(LABEL_FIELDS.map(f => [f, readField(raw as RawRecognition, f)])) as LabelRecognition;
+
+  const expiry = fields.expiryDate.value ? parseExpiryDate(fields.expiryDate.value) : null;
+  fields.expiryDate = expiry
+    ? { value: expiry.iso, confidence: fields.expiryDate.confidence * (expiry.ambiguous ? AMBIGUOUS_DATE_PENALTY : 1) }
+    : { value: null, confidence: 0 };
+
+  const barcode = fields.barcode.value?.replace(/\D/g, '') || '';
+  fields.barcode = isValidGtin(barcode) ? { ...fields.barcode, value: barcode } : { value: null, confidence: 0 };
+
+  return fields;
+};
+
+export const recognizeLabel = async (image: LabelImage, settings: RecognitionSettings): Promise<LabelRecognition> => {
+  const provider = RECOGNITION_PROVIDERS[settings.provider] || RECOGNITION_PROVIDERS.GEMINI;
+  return validateRecognition(await provider.recognize(image, settings));
+};
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RecognitionSettings } from '../types';
+import { recognizeLabel } from './labelRecognition';
+import { MOCK_RECOGNITION, mockProvider } from './mockRecognition';
+
+const settings: RecognitionSettings = { provider: 'MOCK', geminiModel: '' };
+const image = { data: '', mimeType: 'image/jpeg' };
+
+describe('recognizeLabel com o provedor simulado', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('devolve a leitura fixa já validada', async () => {
+    expect(await recognizeLabel(image, settings)).toEqual({
+      name: { value: 'Leite Integral 1L', confidence: 0.95 },
+      expiryDate: { value: '2030-12-31', confidence: 0.9 },
+      category: { value: 'Laticínios', confidence: 0.8 },
+      barcode: { value: '7891000100103', confidence: 0.99 },
+      lotCode: { value: 'L2403A', confidence: 0.7 }
+    });
+  });
+
+  it('entrega uma cópia a cada leitura', async () => {
+    const first = await mockProvider.recognize(image, settings);
+    first.name!.value = 'Alterado';
+    expect((await recognizeLabel(image, settings)).name.value).toBe(MOCK_RECOGNITION.name!.value);
+  });
+
+  it('reduz a confiança de datas com dia e mês trocáveis', async () => {
+    vi.spyOn(mockProvider, 'recognize').mockResolvedValueOnce({ expiryDate: { value: '03/04/2030', confidence: 0.9 } });
+    const { expiryDate } = await recognizeLabel(image, settings);
+    expect(expiryDate.value).toBe('2030-04-03');
+    expect(expiryDate.confidence).toBeCloseTo(0.54);
+  });
+
+  it('descarta validade ilegível e código de barras com dígito verificador errado', async () => {
+    vi.spyOn(mockProvider, 'recognize').mockResolvedValueOnce({
+      expiryDate: { value: '31/02/2030', confidence: 0.9 },
+      barcode: { value: '7891000100104', confidence: 0.99 }
+    });
+    const result = await recognizeLabel(image, settings);
+    expect(result.expiryDate).toEqual({ value: null, confidence: 0 });
+    expect(result.barcode).toEqual({ value: null, confidence: 0 });
+  });
+
+  it('normaliza campos ausentes, "null" e confianças fora da faixa', async () => {
+    vi.spyOn(mockProvider, 'recognize').mockResolvedValueOnce({
+      name: { value: '  Arroz 5kg ', confidence: 3 },
+      category: { value: 'null', confidence: 0.8 },
+      barcode: { value: '789-1000-100103' },
+      lotCode: { value: 42, confidence: -1 }
+    });
+    const result = await recognizeLabel(image, settings);
+    expect(result.name).toEqual({ value: 'Arroz 5kg', confidence: 1 });
+    expect(result.category).toEqual({ value: null, confidence: 0 });
+    expect(result.barcode).toEqual({ value: '7891000100103', confidence: 0.5 });
+    expect(result.lotCode).toEqual({ value: '42', confidence: 0 });
+    expect(result.expiryDate).toEqual({ value: null, confidence: 0 });
+  });
+
+  it('recusa resposta fora do formato com uma mensagem', async () => {
+    vi.spyOn(mockProvider, 'recognize').mockResolvedValueOnce([] as any);
+    await expect(recognizeLabel(image, settings)).rejects.toEqual({ message: 'O reconhecimento devolveu uma resposta em formato inesperado.' });
+  });
+});
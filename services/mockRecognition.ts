@@ -0,0 +1,17 @@
+import type { RawRecognition, RecognitionProvider } from './labelRecognition';
+
+/** Resposta fixa do provedor simulado, para testes e demonstrações sem câmera. */
+export const MOCK_RECOGNITION: RawRecognition = {
+  name: { value: 'Leite Integral 1L', confidence: 0.95 },
+  expiryDate: { value: '31/12/2030', confidence: 0.9 },
+  category: { value: 'Laticínios', confidence: 0.8 },
+  barcode: { value: '7891000100103', confidence: 0.99 },
+  lotCode: { value: 'L2403A', confidence: 0.7 }
+};
+
+export const mockProvider: RecognitionProvider = {
+  id: 'MOCK',
+  label: 'Simulado (testes)',
+  offline: true,
+  recognize: async () => structuredClone(MOCK_RECOGNITION)
+};
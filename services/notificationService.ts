@@ -0,0 +1,69 @@
+import { AppSettings, Product } from '../types';
+import { EMPTY_NOTIFICATION_STATE, NotificationState, planNotifications } from '../utils/notifications';
+import { openInventoryDb, requestToPromise, transactionDone, NOTIFICATION_STATE_STORE } from './inventoryRepository';
+
+const STATE_KEY = 'state';
+export const EXPIRY_CHECK_TAG = 'expiry-check';
+export const OPEN_PRODUCTS_MESSAGE = 'OPEN_PRODUCTS';
+// Parâmetro da URL com os produtos que a notificação mostra
+export const PRODUCTS_PARAM = 'produtos';
+
+// O navegador decide quando acordar o service worker; este é só o intervalo mínimo
+const PERIODIC_CHECK_MIN_MS = 6 * 60 * 60 * 1000;
+
+export const loadNotificationState = async (): Promise<NotificationState> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(NOTIFICATION_STATE_STORE, 'readonly');
+  const record = await requestToPromise(tx.objectStore(NOTIFICATION_STATE_STORE).get(STATE_KEY));
+  return record?.value || EMPTY_NOTIFICATION_STATE;
+};
+
+const saveNotificationState = async (state: NotificationState): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(NOTIFICATION_STATE_STORE, 'readwrite');
+  tx.objectStore(NOTIFICATION_STATE_STORE).put({ key: STATE_KEY, value: state });
+  await transactionDone(tx);
+};
+
+export const productsFilterUrl = (productIds: string[]) => `/?${PRODUCTS_PARAM}=${productIds.join(',')}`;
+
+export const readProductsFilter = (search: string): string[] | null => {
+  const value = new URLSearchParams(search).get(PRODUCTS_PARAM);
+  return value ? value.split(',').filter(Boolean) : null;
+};
+
+/**
+ * Verifica vencimentos e mostra o que for devido. Roda tanto no service worker
+ * (agendado) quanto no app aberto; o estado compartilhado evita aviso repetido.
+ */
+export const runExpiryCheck = async (registration: ServiceWorkerRegistration, products: Product[], settings: AppSettings) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const { notifications, state } = planNotifications(products, settings, await loadNotificationState());
+  await Promise.all(notifications.map(n =>
+    registration.showNotification(n.title, { body: n.body, tag: n.tag, data: { productIds: n.productIds } })
+  ));
+  await saveNotificationState(state);
+};
+
+/**
+ * Agenda a verificação em segundo plano. Devolve false quando o navegador não
+ * oferece sincronização periódica: os avisos então só saem com o app aberto.
+ */
+export const schedulePeriodicCheck = async (registration: ServiceWorkerRegistration): Promise<boolean> => {
+  const periodicSync = (registration as any).periodicSync;
+  if (!periodicSync) return false;
+  try {
+    const permission = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (permission.state !== 'granted') return false;
+    await periodicSync.register(EXPIRY_CHECK_TAG, { minInterval: PERIODIC_CHECK_MIN_MS });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
@@ -0,0 +1,40 @@
+/// <reference types="vite/client" />
+import type { Worker } from 'tesseract.js';
+// Worker, núcleo WASM e modelo de português vão no build: nada é buscado em CDN
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import porDataUrl from '@tesseract.js-data/por/4.0.0_best_int/por.traineddata.gz?url';
+import { extractLabelFields } from '../utils/labelExtractor';
+import type { RecognitionProvider } from './labelRecognition';
+
+let workerPromise: Promise<Worker> | null = null;
+
+// O Tesseract só é carregado na primeira leitura, e o worker é reaproveitado depois
+const getWorker = (): Promise<Worker> => {
+  if (workerPromise) return workerPromise;
+  workerPromise = (async () => {
+    const { createWorker, OEM } = await import('tesseract.js');
+    const response = await fetch(porDataUrl);
+    if (!response.ok) throw { message: 'Não foi possível carregar o modelo de OCR.' };
+    const data = new Uint8Array(await response.arrayBuffer());
+    return createWorker([{ code: 'por', data }], OEM.LSTM_ONLY, {
+      workerPath: workerUrl,
+      corePath: coreUrl,
+      cacheMethod: 'none'
+    });
+  })();
+  // Permite tentar novamente após uma falha
+  workerPromise.catch(() => { workerPromise = null; });
+  return workerPromise;
+};
+
+export const ocrProvider: RecognitionProvider = {
+  id: 'OCR',
+  label: 'OCR no aparelho (offline)',
+  offline: true,
+  recognize: async (image) => {
+    const worker = await getWorker();
+    const { data } = await worker.recognize(`data:${image.mimeType};base64,${image.data}`);
+    return extractLabelFields(data.text, data.confidence / 100);
+  }
+};
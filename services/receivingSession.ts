@@ -0,0 +1,111 @@
+import { CatalogItem, ProductEntry } from '../types';
+import { generateId, toISODate } from '../utils/helpers';
+import { findCatalogItem, suggestExpiryDate } from '../utils/catalog';
+
+// Sessão em andamento fica no aparelho até ser salva ou descartada
+const SESSION_KEY = 'vencimentos_receiving_session';
+
+export interface SessionItem extends ProductEntry {
+  id: string;
+  scannedAt: number;
+}
+
+export interface ReceivingSession {
+  startedAt: number;
+  items: SessionItem[];
+}
+
+export interface SessionSummary {
+  items: number;
+  units: number;
+  incomplete: number; // sem nome ou validade: impedem o salvamento
+  repeated: number;   // itens que podem ser juntados a outro
+}
+
+export const loadSession = (): ReceivingSession | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    return parsed && Array.isArray(parsed.items) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: ReceivingSession | null) => {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+};
+
+export const startSession = (): ReceivingSession => ({ startedAt: Date.now(), items: [] });
+
+const newItem = (entry: ProductEntry): SessionItem => ({ ...entry, id: generateId(), scannedAt: Date.now() });
+
+/**
+ * Código lido no modo contínuo. Nome, categoria, local e validade sugerida
+ * vêm do catálogo; a validade precisa ser conferida na lista.
+ */
+export const addBarcode = (session: ReceivingSession, barcode: string, catalog: CatalogItem[]): ReceivingSession => {
+  const item = findCatalogItem(catalog, barcode);
+  return addEntry(session, {
+    barcode,
+    name: item?.name || '',
+    category: item?.category || 'Geral',
+    location: item?.location,
+    expiryDate: (item && suggestExpiryDate(item, toISODate())) || '',
+    quantity: 1
+  });
+};
+
+export const addEntry = (session: ReceivingSession, entry: ProductEntry): ReceivingSession => ({
+  ...session,
+  items: [newItem(entry), ...session.items]
+});
+
+export const updateItem = (session: ReceivingSession, id: string, patch: Partial<SessionItem>): ReceivingSession => ({
+  ...session,
+  items: session.items.map(item => (item.id === id ? { ...item, ...patch } : item))
+});
+
+export const removeItem = (session: ReceivingSession, id: string): ReceivingSession => ({
+  ...session,
+  items: session.items.filter(item => item.id !== id)
+});
+
+// Mesmo produto, validade, local e lote impresso: viram um único lote no estoque de qualquer forma
+const mergeKey = (item: SessionItem) =>
+  item.barcode ? `${item.barcode}|${item.expiryDate}|${item.location || ''}|${item.lotCode || ''}` : null;
+
+/**
+ * Junta leituras repetidas do mesmo código (com a mesma validade, local e lote) somando as quantidades.
+ */
+export const mergeRepeated = (session: ReceivingSession): ReceivingSession => {
+  const merged: SessionItem[] = [];
+  const byKey = new Map<string, SessionItem>();
+  session.items.forEach(item => {
+    const key = mergeKey(item);
+    const existing = key ? byKey.get(key) : undefined;
+    if (existing) {
+      existing.quantity += item.quantity;
+      return;
+    }
+    const copy = { ...item };
+    if (key) byKey.set(key, copy);
+    merged.push(copy);
+  });
+  return { ...session, items: merged };
+};
+
+export const isItemComplete = (item: SessionItem) => Boolean(item.name.trim() && item.expiryDate);
+
+export const summarizeSession = (session: ReceivingSession): SessionSummary => {
+  const keys = session.items.map(mergeKey).filter(Boolean);
+  return {
+    items: session.items.length,
+    units: session.items.reduce((sum, item) => sum + item.quantity, 0),
+    incomplete: session.items.filter(item => !isItemComplete(item)).length,
+    repeated: keys.length - new Set(keys).size
+  };
+};
+
+export const sessionEntries = (session: ReceivingSession): ProductEntry[] =>
+  session.items.map(({ id, scannedAt, ...entry }) => ({ ...entry, name: entry.name.trim() }));
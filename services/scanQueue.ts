@@ -0,0 +1,57 @@
+import { RecognitionSettings } from '../types';
+import { generateId } from '../utils/helpers';
+import { LabelImage, LabelRecognition, recognizeLabel } from './labelRecognition';
+import { openInventoryDb, requestToPromise, transactionDone, SCAN_QUEUE_STORE } from './inventoryRepository';
+
+/** Foto de rótulo guardada offline; `result` fica pronto quando a conexão volta. */
+export interface QueuedScan {
+  id: string;
+  image: LabelImage;
+  capturedAt: number;
+  result: LabelRecognition | null;
+  error?: string;
+}
+
+export const listQueuedScans = async (): Promise<QueuedScan[]> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(SCAN_QUEUE_STORE, 'readonly');
+  const scans: QueuedScan[] = await requestToPromise(tx.objectStore(SCAN_QUEUE_STORE).getAll());
+  return scans.sort((a, b) => a.capturedAt - b.capturedAt);
+};
+
+const putQueuedScan = async (scan: QueuedScan): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(SCAN_QUEUE_STORE, 'readwrite');
+  tx.objectStore(SCAN_QUEUE_STORE).put(scan);
+  await transactionDone(tx);
+};
+
+export const queueScan = async (image: LabelImage): Promise<QueuedScan> => {
+  const scan: QueuedScan = { id: generateId(), image, capturedAt: Date.now(), result: null };
+  await putQueuedScan(scan);
+  return scan;
+};
+
+export const removeQueuedScan = async (id: string): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(SCAN_QUEUE_STORE, 'readwrite');
+  tx.objectStore(SCAN_QUEUE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Lê as fotos pendentes, uma por vez. Se a conexão cair no meio, o restante
+ * continua na fila; falha de leitura fica registrada no item para revisão.
+ */
+export const processScanQueue = async (settings: RecognitionSettings): Promise<QueuedScan[]> => {
+  for (const scan of await listQueuedScans()) {
+    if (scan.result || !navigator.onLine) continue;
+    try {
+      await putQueuedScan({ ...scan, result: await recognizeLabel(scan.image, settings), error: undefined });
+    } catch (err: any) {
+      if (!navigator.onLine) break;
+      await putQueuedScan({ ...scan, error: err?.message || 'Falha ao analisar imagem.' });
+    }
+  }
+  return listQueuedScans();
+};
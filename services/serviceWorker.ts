@@ -0,0 +1,22 @@
+/// <reference types="vite-plugin-pwa/vanillajs" />
+import { registerSW } from 'virtual:pwa-register';
+
+export interface ServiceWorkerEvents {
+  onRegistered: (registration: ServiceWorkerRegistration) => void;
+  onNeedRefresh: () => void;   // versão nova baixada, esperando o usuário aceitar
+  onOfflineReady: () => void;  // primeira instalação: o app já abre sem internet
+}
+
+/**
+ * Registra o service worker do app. Devolve a função que ativa a versão
+ * nova e recarrega a página.
+ */
+export const registerServiceWorker = (events: ServiceWorkerEvents): (() => Promise<void>) => {
+  if (!('serviceWorker' in navigator)) return async () => {};
+  return registerSW({
+    immediate: true,
+    onRegisteredSW: (_url, registration) => registration && events.onRegistered(registration),
+    onNeedRefresh: events.onNeedRefresh,
+    onOfflineReady: events.onOfflineReady
+  });
+};
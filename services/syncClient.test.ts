@@ -0,0 +1,82 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { MovementType, Product } from '../types';
+import { recordMovement } from '../utils/ledger';
+import { productFromEntry } from '../utils/lots';
+import { SyncRecord, SyncRequest, SyncResponse, itemField, mergeRecords } from '../utils/syncMerge';
+import { RemoteApplied, applyRemoteChanges, runSync, trackLocalChanges } from './syncClient';
+
+// Servidor em memória com as mesmas regras do server/syncServer.ts
+const server = { cursor: 0, store: new Map<string, { seq: number; record: SyncRecord }>() };
+const handleSync = (request: SyncRequest): SyncResponse => {
+  request.records.forEach(incoming => {
+    const seq = server.cursor + 1;
+    const stamped = { ...incoming, stamps: Object.fromEntries(Object.entries(incoming.stamps).map(([f, s]) => [f, { ...s, seq }])) };
+    const result = mergeRecords(server.store.get(incoming.id)?.record, stamped);
+    if (result.changedFields.length > 0) {
+      server.cursor = seq;
+      server.store.set(incoming.id, { seq, record: result.record });
+    }
+  });
+  const records = [...server.store.values()].filter(r => r.seq > request.since).map(r => r.record);
+  return { cursor: server.cursor, records, conflicts: [] };
+};
+
+const config = { enabled: true, serverUrl: 'http://sync.test', token: '' };
+const remote: RemoteApplied = { products: new WeakSet(), removedIds: new Set() };
+
+/** Uma rodada como a do App: carimba a alteração local, sincroniza e aplica o que voltou. */
+const commit = async (prev: Product[], next: Product[]): Promise<Product[]> => {
+  await trackLocalChanges(prev, next, remote);
+  const outcome = await runSync(config, next);
+  outcome.upserts.forEach(p => remote.products.add(p));
+  return applyRemoteChanges(next, outcome.upserts, outcome.removedIds);
+};
+
+describe('sincronização de lotes e lançamentos', () => {
+  beforeAll(() => {
+    const data = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => { data.set(key, value); }
+    });
+    vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => ({
+      ok: true,
+      json: async () => JSON.parse(JSON.stringify(handleSync(JSON.parse(init.body))))
+    }));
+  });
+
+  it('um lançamento desfeito não volta do servidor', async () => {
+    const original = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 5 });
+    let products = await commit([], [original]);
+
+    const lotId = original.lots[0].id;
+    const consumed = recordMovement(products[0], { lotId, type: MovementType.CONSUME, quantity: 2, reason: 'Venda', date: '2026-02-01' });
+    products = await commit(products, [consumed]);
+    const removedId = consumed.movements[1].id;
+    expect(server.store.get(original.id)!.record.values[itemField('movements', removedId)]).toMatchObject({ quantity: 2 });
+
+    // Desfazer volta ao produto anterior, sem o lançamento
+    products = await commit(products, [original]);
+    expect(products[0].movements.map(m => m.id)).toEqual([original.movements[0].id]);
+    expect(products[0].lots[0].quantity).toBe(5);
+    expect(server.store.get(original.id)!.record.values[itemField('movements', removedId)]).toBeNull();
+
+    // Outro dispositivo lança depois; a lápide continua valendo e o novo lançamento chega
+    const fromOtherDevice = itemField('movements', 'outro');
+    const stamp = { at: Date.now() + 1000, by: 'outro-dispositivo' };
+    handleSync({
+      deviceId: 'outro-dispositivo',
+      since: server.cursor,
+      records: [{
+        id: original.id,
+        values: { [fromOtherDevice]: { id: 'outro', lotId, type: MovementType.CONSUME, quantity: 1, reason: 'Venda', date: '2026-02-02', createdAt: 1 } },
+        stamps: { [fromOtherDevice]: stamp }
+      }]
+    });
+    const outcome = await runSync(config, products);
+    const [pulled] = outcome.upserts;
+    expect(pulled.movements.map(m => m.id)).toEqual([original.movements[0].id, 'outro']);
+    expect(pulled.lots[0].quantity).toBe(4);
+  });
+});
@@ -0,0 +1,321 @@
+import { Product, SyncSettings } from '../types';
+import { generateId } from '../utils/helpers';
+import { withDerivedQuantities } from '../utils/ledger';
+import {
+  DELETED_FIELD,
+  FieldConflict,
+  FieldStamp,
+  ItemListField,
+  SyncRecord,
+  SyncRequest,
+  SyncResponse,
+  compareStamps,
+  itemField,
+  mergeRecords,
+  parseItemField,
+  sameValue
+} from '../utils/syncMerge';
+import {
+  openInventoryDb,
+  requestToPromise,
+  transactionDone,
+  PRODUCTS_STORE,
+  SYNC_META_STORE,
+  SYNC_STATE_STORE,
+  SYNC_CONFLICTS_STORE
+} from './inventoryRepository';
+
+const DEVICE_KEY = 'vencimentos_device_id';
+const CURSOR_KEY = 'cursor';
+
+export interface SyncStatus {
+  state: 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+  pending: number;
+  lastSyncedAt?: number;
+  message?: string;
+}
+
+export interface StoredConflict extends FieldConflict {
+  id: string;
+  detectedAt: number;
+}
+
+export interface SyncOutcome {
+  upserts: Product[];
+  removedIds: string[];
+  pending: number;
+  conflicts: number;
+}
+
+/** Estado local de sincronização de um produto. */
+interface SyncMeta {
+  id: string;
+  record: SyncRecord;
+  dirty: boolean; // há alterações locais ainda não enviadas
+}
+
+/** Alterações vindas do servidor, que não devem ser carimbadas como locais. */
+export interface RemoteApplied {
+  products: WeakSet<Product>;
+  removedIds: Set<string>;
+}
+
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = generateId();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+// Serializa leituras/gravações de metadados para não perder carimbos
+let queue: Promise<unknown> = Promise.resolve();
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+// Lotes e lançamentos vão item a item (ITEM_LIST_FIELDS). O saldo do lote é
+// derivado do livro e não viaja: só geraria conflitos a cada lançamento.
+const productToValues = (product: Product): Record<string, unknown> => {
+  const { id, lots, movements, ...values } = product;
+  return {
+    ...values,
+    ...Object.fromEntries(lots.map(({ quantity: _quantity, ...lot }) => [itemField('lots', lot.id), lot])),
+    ...Object.fromEntries(movements.map(m => [itemField('movements', m.id), m])),
+    [DELETED_FIELD]: false
+  };
+};
+
+const valuesToProduct = (id: string, values: Record<string, unknown>): Product => {
+  const { [DELETED_FIELD]: _deleted, lots: legacyLots, movements: legacyMovements, ...rest } = values;
+  const product: Record<string, unknown> = { id };
+  const lists: Record<ItemListField, unknown[]> = { lots: [], movements: [] };
+  const listed = new Set<ItemListField>();
+
+  Object.entries(rest).forEach(([field, value]) => {
+    const item = parseItemField(field);
+    if (!item) product[field] = value;
+    else {
+      listed.add(item.list);
+      if (value) lists[item.list].push(value); // null: item removido
+    }
+  });
+
+  // Registros gravados antes da divisão por item traziam as listas inteiras
+  product.lots = listed.has('lots') || !Array.isArray(legacyLots) ? lists.lots : legacyLots;
+  product.movements = listed.has('movements') || !Array.isArray(legacyMovements) ? lists.movements : legacyMovements;
+  return withDerivedQuantities(product as unknown as Product);
+};
+
+/**
+ * Aplica ao produto o valor de um campo sincronizado, inclusive de um item
+ * de lote ou lançamento (`null` remove o item). Usada para desfazer conflitos.
+ */
+export const applyFieldValue = (product: Product, field: string, value: unknown): Product => {
+  const item = parseItemField(field);
+  if (!item) return { ...product, [field]: value };
+  const list = (product[item.list] as { id: string }[]).filter(entry => entry.id !== item.id);
+  const next = { ...product, [item.list]: value ? [...list, value] : list };
+  return withDerivedQuantities(next);
+};
+
+/**
+ * Registro inicial de um produto que ainda não foi sincronizado:
+ * todos os campos são carimbados com o `createdAt` do produto.
+ */
+const baselineRecord = (product: Product, deviceId: string): SyncRecord => {
+  const values = productToValues(product);
+  const stamp: FieldStamp = { at: product.createdAt || 0, by: deviceId };
+  return {
+    id: product.id,
+    values,
+    stamps: Object.fromEntries(Object.keys(values).map(field => [field, stamp]))
+  };
+};
+
+const stampChanges = (record: SyncRecord, values: Record<string, unknown>, stamp: FieldStamp): SyncRecord | null => {
+  const fields = new Set([...Object.keys(record.values), ...Object.keys(values)]);
+  const next: SyncRecord = { id: record.id, values: { ...record.values }, stamps: { ...record.stamps } };
+  let changed = false;
+  fields.forEach(field => {
+    // Item que sumiu da lista vira lápide, para a remoção chegar aos outros dispositivos
+    const value = field in values || !parseItemField(field) ? values[field] : null;
+    if (!sameValue(record.values[field], value)) {
+      next.values[field] = value;
+      next.stamps[field] = stamp;
+      changed = true;
+    }
+  });
+  return changed ? next : null;
+};
+
+/**
+ * Carimba os campos alterados localmente entre dois estados da lista.
+ * Deve ser chamada com os mesmos `prev`/`next` usados na gravação do estoque.
+ */
+export const trackLocalChanges = (prev: Product[], next: Product[], remote: RemoteApplied): Promise<void> =>
+  enqueue(async () => {
+    if (prev === next) return;
+    const deviceId = getDeviceId();
+    const stamp: FieldStamp = { at: Date.now(), by: deviceId };
+
+    const prevById = new Map(prev.map(p => [p.id, p]));
+    const nextIds = new Set(next.map(p => p.id));
+    const changed = next.filter(p => prevById.get(p.id) !== p && !remote.products.has(p));
+    const removed = prev.filter(p => !nextIds.has(p.id) && !remote.removedIds.has(p.id));
+    // Só são esquecidas depois de gravar: numa nova tentativa continuam valendo
+    const seenRemovals = [...remote.removedIds];
+    const forgetRemovals = () => seenRemovals.forEach(id => remote.removedIds.delete(id));
+    if (changed.length === 0 && removed.length === 0) {
+      forgetRemovals();
+      return;
+    }
+
+    const db = await openInventoryDb();
+    const tx = db.transaction(SYNC_META_STORE, 'readwrite');
+    const store = tx.objectStore(SYNC_META_STORE);
+
+    const track = async (product: Product, values: Record<string, unknown>) => {
+      const meta: SyncMeta | undefined = await requestToPromise(store.get(product.id));
+      const previous = prevById.get(product.id);
+      const base = meta?.record ?? (previous ? baselineRecord(previous, deviceId) : null);
+      // Produto novo: todos os campos nascem com o carimbo atual
+      const record = base
+        ? stampChanges(base, values, stamp)
+        : { id: product.id, values, stamps: Object.fromEntries(Object.keys(values).map(f => [f, stamp])) };
+      if (record) store.put({ id: product.id, record, dirty: true } as SyncMeta);
+    };
+
+    await Promise.all([
+      ...changed.map(p => track(p, productToValues(p))),
+      ...removed.map(p => track(p, { ...productToValues(p), [DELETED_FIELD]: true }))
+    ]);
+    await transactionDone(tx);
+    forgetRemovals();
+  });
+
+export const countPending = async (): Promise<number> => {
+  const db = await openInventoryDb();
+  const metas: SyncMeta[] = await requestToPromise(db.transaction(SYNC_META_STORE).objectStore(SYNC_META_STORE).getAll());
+  return metas.filter(m => m.dirty).length;
+};
+
+/** Há algum campo local mais novo que o do servidor? */
+const hasLocalWins = (local: SyncRecord, remote: SyncRecord): boolean =>
+  Object.entries(local.stamps).some(([field, stamp]) => {
+    const remoteStamp = remote.stamps[field];
+    return !remoteStamp || compareStamps(stamp, remoteStamp) > 0;
+  });
+
+/**
+ * Envia as alterações pendentes e aplica as que vieram do servidor.
+ * Devolve os produtos que o app precisa atualizar em memória.
+ */
+export const runSync = async (config: SyncSettings, products: Product[]): Promise<SyncOutcome> => {
+  const deviceId = getDeviceId();
+  const db = await openInventoryDb();
+
+  // Produtos criados antes da sincronização entram com carimbo do createdAt
+  const { pending, since } = await enqueue(async () => {
+    const tx = db.transaction([SYNC_META_STORE, SYNC_STATE_STORE], 'readwrite');
+    const metaStore = tx.objectStore(SYNC_META_STORE);
+    const existing: SyncMeta[] = await requestToPromise(metaStore.getAll());
+    const known = new Set(existing.map(m => m.id));
+    const created = products
+      .filter(p => !known.has(p.id))
+      .map(p => ({ id: p.id, record: baselineRecord(p, deviceId), dirty: true } as SyncMeta));
+    created.forEach(m => metaStore.put(m));
+    const cursorRecord = await requestToPromise(tx.objectStore(SYNC_STATE_STORE).get(CURSOR_KEY));
+    await transactionDone(tx);
+    return {
+      pending: [...existing, ...created].filter(m => m.dirty),
+      since: (cursorRecord?.value as number) || 0
+    };
+  });
+
+  const body: SyncRequest = { deviceId, since, records: pending.map(m => m.record) };
+  const response = await fetch(`${config.serverUrl.replace(/\/$/, '')}/sync`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const detail = await response.json().catch(() => ({}));
+    throw new Error(detail.error || `Servidor respondeu ${response.status}`);
+  }
+  const result: SyncResponse = await response.json();
+
+  return enqueue(async () => {
+    const tx = db.transaction([SYNC_META_STORE, SYNC_STATE_STORE, SYNC_CONFLICTS_STORE, PRODUCTS_STORE], 'readwrite');
+    const metaStore = tx.objectStore(SYNC_META_STORE);
+    const sent = new Map(pending.map(m => [m.id, m.record]));
+    const upserts: Product[] = [];
+    const removedIds: string[] = [];
+
+    // O que foi enviado e não mudou desde então já está no servidor
+    await Promise.all([...sent.entries()].map(async ([id, record]) => {
+      const meta: SyncMeta | undefined = await requestToPromise(metaStore.get(id));
+      if (meta && sameValue(meta.record, record)) metaStore.put({ ...meta, dirty: false });
+    }));
+
+    await Promise.all(result.records.map(async remote => {
+      const meta: SyncMeta | undefined = await requestToPromise(metaStore.get(remote.id));
+      const { record, changedFields } = mergeRecords(meta?.record, remote);
+      const dirty = meta ? hasLocalWins(meta.record, remote) : false;
+      metaStore.put({ id: remote.id, record, dirty } as SyncMeta);
+
+      if (changedFields.length === 0 && meta) return;
+      if (record.values[DELETED_FIELD]) {
+        removedIds.push(remote.id);
+        tx.objectStore(PRODUCTS_STORE).delete(remote.id);
+      } else {
+        const product = valuesToProduct(remote.id, record.values);
+        upserts.push(product);
+        tx.objectStore(PRODUCTS_STORE).put(product);
+      }
+    }));
+
+    const conflictStore = tx.objectStore(SYNC_CONFLICTS_STORE);
+    result.conflicts.forEach(c => {
+      conflictStore.put({ ...c, id: `${c.recordId}:${c.field}:${c.winner.stamp.at}`, detectedAt: Date.now() } as StoredConflict);
+    });
+    tx.objectStore(SYNC_STATE_STORE).put({ key: CURSOR_KEY, value: result.cursor });
+    await transactionDone(tx);
+
+    return { upserts, removedIds, pending: await countPending(), conflicts: result.conflicts.length };
+  });
+};
+
+/**
+ * Aplica em memória o resultado de `runSync`.
+ */
+export const applyRemoteChanges = (products: Product[], upserts: Product[], removedIds: string[]): Product[] => {
+  const upsertById = new Map(upserts.map(p => [p.id, p]));
+  const removed = new Set(removedIds);
+  const kept = products
+    .filter(p => !removed.has(p.id))
+    .map(p => upsertById.get(p.id) ?? p);
+  const existingIds = new Set(products.map(p => p.id));
+  return [...kept, ...upserts.filter(p => !existingIds.has(p.id))];
+};
+
+export const loadConflicts = async (): Promise<StoredConflict[]> => {
+  const db = await openInventoryDb();
+  const conflicts: StoredConflict[] = await requestToPromise(
+    db.transaction(SYNC_CONFLICTS_STORE).objectStore(SYNC_CONFLICTS_STORE).getAll()
+  );
+  return conflicts.sort((a, b) => b.detectedAt - a.detectedAt);
+};
+
+export const dismissConflict = async (id: string): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(SYNC_CONFLICTS_STORE, 'readwrite');
+  tx.objectStore(SYNC_CONFLICTS_STORE).delete(id);
+  await transactionDone(tx);
+};
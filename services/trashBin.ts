@@ -0,0 +1,58 @@
+import { Product } from '../types';
+import { openInventoryDb, requestToPromise, transactionDone, TRASH_STORE } from './inventoryRepository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Produto excluído, guardado inteiro (lotes e histórico) para poder voltar. */
+export interface TrashedProduct {
+  id: string; // mesmo id do produto
+  product: Product;
+  deletedAt: number;
+}
+
+/** Momento em que o item deixa a lixeira de vez. */
+export const trashExpiresAt = (item: TrashedProduct, retentionDays: number): number =>
+  item.deletedAt + retentionDays * DAY_MS;
+
+export const listTrash = async (): Promise<TrashedProduct[]> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(TRASH_STORE, 'readonly');
+  const items: TrashedProduct[] = await requestToPromise(tx.objectStore(TRASH_STORE).getAll());
+  return items.sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+export const moveToTrash = async (products: Product[], deletedAt: number = Date.now()): Promise<void> => {
+  if (products.length === 0) return;
+  const db = await openInventoryDb();
+  const tx = db.transaction(TRASH_STORE, 'readwrite');
+  const store = tx.objectStore(TRASH_STORE);
+  products.forEach(product => store.put({ id: product.id, product, deletedAt } as TrashedProduct));
+  await transactionDone(tx);
+};
+
+export const removeFromTrash = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openInventoryDb();
+  const tx = db.transaction(TRASH_STORE, 'readwrite');
+  const store = tx.objectStore(TRASH_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  const db = await openInventoryDb();
+  const tx = db.transaction(TRASH_STORE, 'readwrite');
+  tx.objectStore(TRASH_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Apaga de vez o que passou do prazo de retenção. Devolve o que continua na
+ * lixeira, já ordenado do mais recente para o mais antigo.
+ */
+export const purgeTrash = async (retentionDays: number, now: number = Date.now()): Promise<TrashedProduct[]> => {
+  const items = await listTrash();
+  const expired = items.filter(item => trashExpiresAt(item, retentionDays) <= now);
+  await removeFromTrash(expired.map(item => item.id));
+  return items.filter(item => !expired.includes(item));
+};
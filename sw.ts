@@ -0,0 +1,52 @@
+/// <reference types="vite/client" />
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { loadInventory } from './services/inventoryRepository';
+import { runExpiryCheck, productsFilterUrl, EXPIRY_CHECK_TAG, OPEN_PRODUCTS_MESSAGE } from './services/notificationService';
+
+// O tsconfig compila com os tipos do DOM; o escopo do service worker fica sem tipo aqui
+const sw: any = self;
+
+// Arquivos do build, com hash; a lista é injetada pelo vite-plugin-pwa
+precacheAndRoute((self as any).__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// Qualquer rota abre o app do cache; em desenvolvimento o index.html não está no precache
+if (import.meta.env.PROD) {
+  registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
+}
+
+// Cache de CDN das versões que buscavam estilos e fontes fora; hoje tudo está no precache
+const LEGACY_CDN_CACHE = 'cdn';
+
+const checkExpiry = async () => {
+  const { products, settings } = await loadInventory();
+  await runExpiryCheck(sw.registration, products, settings);
+};
+
+// Versão nova só assume quando o usuário aceita a atualização
+sw.addEventListener('message', (event: any) => {
+  if (event.data?.type === 'SKIP_WAITING') sw.skipWaiting();
+});
+sw.addEventListener('activate', (event: any) => event.waitUntil(Promise.all([
+  sw.clients.claim(),
+  caches.delete(LEGACY_CDN_CACHE)
+])));
+
+sw.addEventListener('periodicsync', (event: any) => {
+  if (event.tag === EXPIRY_CHECK_TAG) event.waitUntil(checkExpiry());
+});
+
+// Abre (ou traz para frente) o app já filtrado nos produtos da notificação
+sw.addEventListener('notificationclick', (event: any) => {
+  event.notification.close();
+  const productIds: string[] = event.notification.data?.productIds || [];
+  event.waitUntil((async () => {
+    const [client] = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (client) {
+      client.postMessage({ type: OPEN_PRODUCTS_MESSAGE, productIds });
+      return client.focus();
+    }
+    return sw.clients.openWindow(productsFilterUrl(productIds));
+  })());
+});
@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  // Classes sempre escritas por inteiro no código: o build só gera o que encontra aqui
+  content: ['./index.html', './*.{ts,tsx}', './components/**/*.{ts,tsx}', './services/**/*.{ts,tsx}', './utils/**/*.{ts,tsx}'],
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
@@ -2,23 +2,200 @@
 export enum ExpiryStatus {
   SAFE = 'SAFE',
   WARNING = 'WARNING',
+  CRITICAL = 'CRITICAL',
   EXPIRED = 'EXPIRED'
 }
 
+/**
+ * Janela de alerta (em dias antes do vencimento).
+ * `criticalDays` é um estágio extra opcional, mais curto que `warningDays`.
+ */
+export interface ExpiryRule {
+  warningDays: number;
+  criticalDays?: number;
+}
+
+export interface ExpirySettings {
+  defaultRule: ExpiryRule;
+  categoryRules: Record<string, ExpiryRule>; // chave: nome da categoria
+  productRules: Record<string, ExpiryRule>;  // chave: Product.id
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+}
+
+export type ImportField = 'name' | 'expiryDate' | 'category' | 'quantity' | 'barcode' | 'location' | 'unitCost' | 'salePrice';
+
+export interface BackupSettings {
+  autoSnapshots: boolean;
+  intervalHours: number;
+  keep: number; // quantos instantâneos automáticos manter
+}
+
+// Horas cheias (0-23); início maior que o fim atravessa a meia-noite (22 -> 7)
+export interface QuietHours {
+  start: number;
+  end: number;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  digestHour: number;                 // a partir de quando sai o resumo do dia
+  quietHours: QuietHours | null;
+  categories: string[];               // vazio: todas as categorias avisam
+  itemAlerts: Record<string, number>; // productId -> dias antes do vencimento
+}
+
+// Quem lê o rótulo fotografado: Gemini (online), OCR no aparelho ou simulado
+export type RecognitionProviderId = 'GEMINI' | 'OCR' | 'MOCK';
+
+export interface RecognitionSettings {
+  provider: RecognitionProviderId;
+  geminiModel: string;
+}
+
+export type ImportMode = 'APPEND' | 'UPSERT' | 'REPLACE';
+
+// Como o registro da planilha encontra o lote existente no modo UPSERT
+export type UpsertKey = 'BARCODE_EXPIRY' | 'NAME_EXPIRY' | 'BARCODE_EXPIRY_LOCATION' | 'NAME_EXPIRY_LOCATION';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  upsertKey: UpsertKey;
+  quantity: 'SUM' | 'OVERWRITE';
+  sheetAsCategory?: boolean; // nome da aba vira a categoria padrão
+  dateOrder?: 'DMY' | 'MDY'; // resposta dada quando as datas do arquivo são ambíguas; não vai para o layout salvo
+}
+
+export interface ImportMapping {
+  columns: Record<string, ImportField | null>; // cabeçalho original -> campo
+  options?: ImportOptions;
+  fileName: string;  // último arquivo importado com este layout
+  savedAt: number;
+}
+
+export interface TrashSettings {
+  retentionDays: number; // depois disso o item sai da lixeira de vez
+}
+
+// Filtros e ordenação da lista de itens, guardados com nome
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string; // mesmos parâmetros da URL da lista (ex.: "categoria=Frios&dias=5")
+}
+
+export interface AppSettings {
+  expiry: ExpirySettings;
+  sync: SyncSettings;
+  importMappings: Record<string, ImportMapping>; // chave: assinatura do layout
+  backup: BackupSettings;
+  recognition: RecognitionSettings;
+  notifications: NotificationSettings;
+  savedViews: SavedView[];
+  trash: TrashSettings;
+}
+
+export interface Lot {
+  id: string;
+  expiryDate: string; // ISO format YYYY-MM-DD
+  quantity: number;   // derivado de Product.movements, nunca editado diretamente
+  location?: string;
+  receivedAt: string; // ISO format YYYY-MM-DD
+  lotCode?: string;   // lote impresso na embalagem pelo fabricante
+}
+
+export enum MovementType {
+  RECEIVE = 'RECEIVE',
+  CONSUME = 'CONSUME',
+  DISCARD_EXPIRED = 'DISCARD_EXPIRED',
+  DONATE = 'DONATE',
+  ADJUST = 'ADJUST'
+}
+
+export interface StockMovement {
+  id: string;
+  lotId: string;
+  type: MovementType;
+  quantity: number; // sempre positivo, exceto ADJUST (com sinal)
+  reason: string;
+  date: string;     // ISO format YYYY-MM-DD
+  note?: string;
+  createdAt: number;
+}
+
 export interface Product {
   id: string;
+  name: string;
+  category: string;
+  barcode?: string;
+  unitCost?: number;  // custo unitário (R$)
+  salePrice?: number; // preço de venda (R$)
+  lots: Lot[];
+  movements: StockMovement[];
+  createdAt: number;
+}
+
+/**
+ * Ficha de um código de barras no catálogo local. HISTORY é aprendida dos
+ * produtos cadastrados e acompanha o histórico; MANUAL e IMPORT foram
+ * definidas pelo usuário e não são sobrescritas pelo aprendizado.
+ */
+export interface CatalogItem {
+  barcode: string;
+  name: string;
+  category: string;
+  location?: string;
+  shelfLifeDays?: number; // prazo típico entre recebimento e vencimento
+  source: 'HISTORY' | 'MANUAL' | 'IMPORT';
+  updatedAt: number;
+}
+
+/**
+ * Registro "achatado" (produto + um lote), como chega da planilha ou do scanner.
+ */
+export interface ProductEntry {
   name: string;
   category: string;
   expiryDate: string; // ISO format YYYY-MM-DD
   quantity: number;
   location?: string;
   barcode?: string;
-  createdAt: number;
+  unitCost?: number;
+  salePrice?: number;
+  lotCode?: string;
+}
+
+/** Lotes contados e unidades somadas de um recorte do estoque. */
+export interface StockTotals {
+  lots: number;
+  units: number;
+}
+
+/** Intervalo da linha do tempo de vencimentos (datas ISO, inclusivas). */
+export interface ExpiryBucket {
+  start: string;
+  end: string;
+  totals: StockTotals;
+  byCategory: Record<string, StockTotals>;
+}
+
+export type StatusBreakdown = Record<ExpiryStatus, StockTotals>;
+
+/** Situação de um setor do estoque; `name` vazio reúne os lotes sem categoria/local. */
+export interface SectorStats {
+  name: string;
+  byStatus: StatusBreakdown;
 }
 
+/** Modelo único de estatísticas do estoque ativo, usado pelo painel e pelos gráficos. */
 export interface InventoryStats {
-  total: number;
-  expired: number;
-  expiringSoon: number;
-  safe: number;
+  total: StockTotals;
+  byStatus: StatusBreakdown;
+  timeline: ExpiryBucket[];
+  byCategory: SectorStats[]; // piores primeiro
+  byLocation: SectorStats[];
 }
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MovementType } from '../types';
+import { applyBulkAction, describeBulkAction } from './bulkActions';
+import { recordMovement } from './ledger';
+import { getActiveLots, productFromEntry } from './lots';
+
+const leite = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 5, location: 'Geladeira' });
+const arroz = productFromEntry({ name: 'Arroz', category: 'Grãos', expiryDate: '2026-09-01', quantity: 2 });
+const group = (product: typeof leite) => ({ product, lots: getActiveLots(product) });
+
+describe('applyBulkAction', () => {
+  it('dá baixa no saldo atual de cada lote, mesmo com a seleção desatualizada', () => {
+    const selected = group(leite);
+    // Depois de marcar, uma venda reduz o lote para 3
+    const sold = recordMovement(leite, { lotId: leite.lots[0].id, type: MovementType.CONSUME, quantity: 2, reason: 'Venda', date: '2026-02-01' });
+
+    const [result] = applyBulkAction([sold], [selected], { type: 'WRITE_OFF', movement: MovementType.DONATE });
+    expect(result.lots[0].quantity).toBe(0);
+    expect(result.movements[result.movements.length - 1]).toMatchObject({ type: MovementType.DONATE, quantity: 3 });
+  });
+
+  it('não lança nada em lotes já zerados nem em produtos não marcados', () => {
+    const emptied = recordMovement(leite, { lotId: leite.lots[0].id, type: MovementType.CONSUME, quantity: 5, reason: '', date: '2026-02-01' });
+    const result = applyBulkAction([emptied, arroz], [group(emptied)], { type: 'WRITE_OFF', movement: MovementType.CONSUME });
+    expect(result[0]).toBe(emptied);
+    expect(result[1]).toBe(arroz);
+  });
+
+  it('exclui só os produtos marcados', () => {
+    expect(applyBulkAction([leite, arroz], [group(leite)], { type: 'DELETE' })).toEqual([arroz]);
+  });
+
+  it('altera local e validade só nos lotes visíveis', () => {
+    const twoLots = { ...leite, lots: [...leite.lots, { ...leite.lots[0], id: 'l2', expiryDate: '2026-06-01' }] };
+    const visible = { product: twoLots, lots: [twoLots.lots[1]] };
+
+    const [moved] = applyBulkAction([twoLots], [visible], { type: 'SET_LOCATION', location: '' });
+    expect(moved.lots.map(l => l.location)).toEqual(['Geladeira', undefined]);
+
+    const [shifted] = applyBulkAction([twoLots], [visible], { type: 'SHIFT_EXPIRY', days: 30 });
+    expect(shifted.lots.map(l => l.expiryDate)).toEqual(['2026-05-01', '2026-07-01']);
+  });
+
+  it('troca a categoria do produto inteiro', () => {
+    const [result] = applyBulkAction([leite], [group(leite)], { type: 'SET_CATEGORY', category: 'Bebidas' });
+    expect(result.category).toBe('Bebidas');
+  });
+});
+
+describe('describeBulkAction', () => {
+  it('conta produtos e lotes', () => {
+    expect(describeBulkAction({ type: 'DELETE' }, [group(leite)])).toBe('1 produto movido para a lixeira');
+    expect(describeBulkAction({ type: 'SET_EXPIRY', date: '2026-01-01' }, [group(leite), group(arroz)])).toBe('Validade alterada em 2 lotes');
+  });
+});
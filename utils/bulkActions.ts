@@ -0,0 +1,83 @@
+import { Lot, MovementType, Product } from '../types';
+import { isoToLocalDate } from './dateParser';
+import { toISODate } from './helpers';
+import { MOVEMENT_LABELS, recordMovement } from './ledger';
+import { ProductGroup } from './productFilters';
+
+// Baixas oferecidas em lote; ajuste fica de fora por depender de cada contagem
+export type WriteOffType = MovementType.CONSUME | MovementType.DISCARD_EXPIRED | MovementType.DONATE;
+
+/**
+ * Ações sobre os itens marcados na lista. Exclusão e categoria valem para o
+ * produto inteiro; as demais, só para os lotes visíveis no filtro atual.
+ */
+export type BulkAction =
+  | { type: 'DELETE' }
+  | { type: 'WRITE_OFF'; movement: WriteOffType }
+  | { type: 'SET_CATEGORY'; category: string }
+  | { type: 'SET_LOCATION'; location: string }
+  | { type: 'SET_EXPIRY'; date: string }
+  | { type: 'SHIFT_EXPIRY'; days: number };
+
+const shiftDate = (iso: string, days: number) => {
+  const date = isoToLocalDate(iso);
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+};
+
+const updateLots = (product: Product, lotIds: Set<string>, change: (lot: Lot) => Partial<Lot>): Product => ({
+  ...product,
+  lots: product.lots.map(lot => lotIds.has(lot.id) ? { ...lot, ...change(lot) } : lot)
+});
+
+const applyToGroup = (product: Product, group: ProductGroup, action: BulkAction): Product => {
+  const lotIds = new Set(group.lots.map(l => l.id));
+  switch (action.type) {
+    case 'WRITE_OFF':
+      return product.lots
+        .filter(lot => lotIds.has(lot.id) && lot.quantity > 0)
+        .reduce((p, lot) => recordMovement(p, {
+          lotId: lot.id,
+          type: action.movement,
+          quantity: lot.quantity,
+          reason: MOVEMENT_LABELS[action.movement],
+          date: toISODate()
+        }), product);
+    case 'SET_CATEGORY':
+      return { ...product, category: action.category };
+    case 'SET_LOCATION':
+      return updateLots(product, lotIds, () => ({ location: action.location || undefined }));
+    case 'SET_EXPIRY':
+      return updateLots(product, lotIds, () => ({ expiryDate: action.date }));
+    case 'SHIFT_EXPIRY':
+      return updateLots(product, lotIds, lot => ({ expiryDate: shiftDate(lot.expiryDate, action.days) }));
+    default:
+      return product;
+  }
+};
+
+/** Aplica a ação aos grupos marcados e devolve a nova lista de produtos. */
+export const applyBulkAction = (products: Product[], groups: ProductGroup[], action: BulkAction): Product[] => {
+  const byId = new Map(groups.map(g => [g.product.id, g]));
+  if (action.type === 'DELETE') return products.filter(p => !byId.has(p.id));
+  return products.map(p => {
+    const group = byId.get(p.id);
+    return group ? applyToGroup(p, group, action) : p;
+  });
+};
+
+const plural = (count: number, singular: string, pluralForm: string) => `${count} ${count === 1 ? singular : pluralForm}`;
+
+/** Texto do aviso depois da ação, com o que foi feito e em quantos itens. */
+export const describeBulkAction = (action: BulkAction, groups: ProductGroup[]): string => {
+  const products = plural(groups.length, 'produto', 'produtos');
+  const lots = plural(groups.reduce((sum, g) => sum + g.lots.length, 0), 'lote', 'lotes');
+  switch (action.type) {
+    case 'DELETE': return plural(groups.length, 'produto movido para a lixeira', 'produtos movidos para a lixeira');
+    case 'WRITE_OFF': return `Baixa (${MOVEMENT_LABELS[action.movement].toLowerCase()}) em ${lots}`;
+    case 'SET_CATEGORY': return `Categoria alterada em ${products}`;
+    case 'SET_LOCATION': return `Local alterado em ${lots}`;
+    case 'SET_EXPIRY':
+    case 'SHIFT_EXPIRY': return `Validade alterada em ${lots}`;
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar } from './calendarExport';
+import { DEFAULT_EXPIRY_SETTINGS } from './expiryRules';
+import { getActiveLots, productFromEntry } from './lots';
+
+const leite = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 5 });
+const iogurte = productFromEntry({ name: 'Iogurte', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 2 });
+const group = (product: typeof leite) => ({ product, lots: getActiveLots(product) });
+
+const uids = (ics: string) => ics.split('\r\n').filter(l => l.startsWith('UID:'));
+
+describe('buildCalendar', () => {
+  it('um evento por produto usa o id do produto no UID', () => {
+    const ics = buildCalendar([group(leite)], DEFAULT_EXPIRY_SETTINGS, 'PRODUCT', new Date(Date.UTC(2026, 0, 10)));
+    expect(uids(ics)).toEqual([`UID:${leite.id}@controle-de-vencimentos`]);
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260501\r\n');
+    expect(ics).toContain('DTSTAMP:20260110T000000Z\r\n');
+  });
+
+  it('eventos por dia de conjuntos diferentes não compartilham o UID', () => {
+    const now = new Date(Date.UTC(2026, 0, 10));
+    const [onlyMilk] = uids(buildCalendar([group(leite)], DEFAULT_EXPIRY_SETTINGS, 'DAY', now));
+    const [both] = uids(buildCalendar([group(leite), group(iogurte)], DEFAULT_EXPIRY_SETTINGS, 'DAY', now));
+    const [bothAgain] = uids(buildCalendar([group(iogurte), group(leite)], DEFAULT_EXPIRY_SETTINGS, 'DAY', now));
+
+    expect(onlyMilk).toMatch(/^UID:dia-20260501-[0-9a-f]{8}@controle-de-vencimentos$/);
+    expect(both).not.toBe(onlyMilk);
+    expect(bothAgain).toBe(both);
+  });
+
+  it('a exportação mais nova do mesmo evento tem SEQUENCE maior', () => {
+    const sequence = (now: Date) =>
+      Number(buildCalendar([group(leite)], DEFAULT_EXPIRY_SETTINGS, 'DAY', now).match(/SEQUENCE:(\d+)/)![1]);
+    expect(sequence(new Date(Date.UTC(2026, 0, 11)))).toBeGreaterThan(sequence(new Date(Date.UTC(2026, 0, 10))));
+  });
+});
@@ -0,0 +1,132 @@
+import { ExpirySettings, Lot, Product } from '../types';
+import { resolveExpiryRule } from './expiryRules';
+import { downloadFile, formatDate, toISODate } from './helpers';
+import { sortLotsFEFO } from './lots';
+import { ProductGroup } from './productFilters';
+import { sha256Fallback } from './sha256';
+
+/** Um evento por produto (no lote que vence primeiro) ou um por dia com tudo que vence nele. */
+export type CalendarGrouping = 'PRODUCT' | 'DAY';
+
+// Sufixo dos UIDs: mantém o mesmo evento entre exportações, sem colidir com outros calendários
+const UID_DOMAIN = 'controle-de-vencimentos';
+// RFC 5545: linhas com mais de 75 octetos são dobradas
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1; // continuação começa com espaço
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (iso: string) => iso.replace(/-/g, '');
+
+const nextDay = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return toISODate(new Date(y, m - 1, d + 1));
+};
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Exportações mais novas do mesmo evento substituem as anteriores no calendário
+const icsSequence = (date: Date) => Math.floor(date.getTime() / 1000);
+
+/**
+ * Identifica o conjunto de produtos exportado. Entra no UID dos eventos por dia,
+ * para que exportações com filtros diferentes não sobrescrevam o mesmo dia.
+ */
+const exportScopeKey = (groups: ProductGroup[]) => {
+  const ids = groups.map(g => g.product.id).sort().join('\n');
+  return [...sha256Fallback(new TextEncoder().encode(ids)).slice(0, 4)]
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const lotLine = (lot: Lot) =>
+  `${lot.quantity} un. vence ${formatDate(lot.expiryDate)}${lot.location ? ` (${lot.location})` : ''}`;
+
+const buildEvent = (uid: string, date: string, summary: string, description: string, alarmDays: number, stamp: string, sequence: number) => [
+  'BEGIN:VEVENT',
+  `UID:${uid}@${UID_DOMAIN}`,
+  `DTSTAMP:${stamp}`,
+  `SEQUENCE:${sequence}`,
+  `DTSTART;VALUE=DATE:${icsDate(date)}`,
+  `DTEND;VALUE=DATE:${icsDate(nextDay(date))}`,
+  `SUMMARY:${escapeText(summary)}`,
+  `DESCRIPTION:${escapeText(description)}`,
+  'TRANSP:TRANSPARENT',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  `DESCRIPTION:${escapeText(summary)}`,
+  `TRIGGER:-P${alarmDays}D`,
+  'END:VALARM',
+  'END:VEVENT'
+];
+
+/**
+ * Monta o arquivo .ics. O lembrete de cada evento toca no limite de "atenção"
+ * da regra do produto; no agrupamento por dia vale o maior limite do dia.
+ */
+export const buildCalendar = (
+  groups: ProductGroup[],
+  settings: ExpirySettings,
+  grouping: CalendarGrouping,
+  now: Date = new Date()
+): string => {
+  const stamp = icsTimestamp(now);
+  const sequence = icsSequence(now);
+  const events: string[][] = [];
+  const withLots = groups.filter(g => g.lots.length > 0);
+
+  if (grouping === 'PRODUCT') {
+    withLots.forEach(({ product, lots }) => {
+      const sorted = sortLotsFEFO(lots);
+      const quantity = sorted.reduce((sum, lot) => sum + lot.quantity, 0);
+      const description = [product.category, product.barcode, ...sorted.map(lotLine)].filter(Boolean).join('\n');
+      const { warningDays } = resolveExpiryRule(product, settings);
+      events.push(buildEvent(product.id, sorted[0].expiryDate, `Vence: ${product.name} (${quantity} un.)`, description, warningDays, stamp, sequence));
+    });
+  } else {
+    const byDay = new Map<string, { product: Product; lot: Lot }[]>();
+    withLots.forEach(({ product, lots }) => lots.forEach(lot => {
+      byDay.set(lot.expiryDate, [...(byDay.get(lot.expiryDate) || []), { product, lot }]);
+    }));
+    const scope = exportScopeKey(withLots);
+    [...byDay.entries()].sort(([a], [b]) => a.localeCompare(b)).forEach(([date, items]) => {
+      const names = [...new Set(items.map(i => i.product.name))];
+      const summary = names.length === 1 ? `Vence: ${names[0]}` : `Vencem ${names.length} produtos`;
+      const description = items.map(({ product, lot }) => `${product.name}: ${lotLine(lot)}`).join('\n');
+      const alarmDays = Math.max(...items.map(i => resolveExpiryRule(i.product, settings).warningDays));
+      events.push(buildEvent(`dia-${icsDate(date)}-${scope}`, date, summary, description, alarmDays, stamp, sequence));
+    });
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//PT-BR`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Vencimentos',
+    ...events.flat(),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const exportCalendar = (groups: ProductGroup[], settings: ExpirySettings, grouping: CalendarGrouping) => {
+  downloadFile(buildCalendar(groups, settings, grouping), `vencimentos_${toISODate()}.ics`, 'text/calendar;charset=utf-8');
+};
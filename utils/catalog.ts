@@ -0,0 +1,153 @@
+import * as XLSX from 'xlsx';
+import { CatalogItem, Product } from '../types';
+import { downloadFile, toISODate } from './helpers';
+import { isoToLocalDate } from './dateParser';
+import { suggestMapping, SpreadsheetData } from './excelParser';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPORT_HEADERS = {
+  barcode: 'Código de Barras',
+  name: 'Produto',
+  category: 'Categoria',
+  location: 'Localização',
+  shelfLifeDays: 'Validade (dias)'
+};
+
+export const normalizeBarcode = (barcode?: string): string => (barcode || '').replace(/\s+/g, '');
+
+export const findCatalogItem = (catalog: CatalogItem[], barcode?: string): CatalogItem | undefined => {
+  const code = normalizeBarcode(barcode);
+  return code ? catalog.find(item => item.barcode === code) : undefined;
+};
+
+const mostFrequent = (values: string[]): string | undefined => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const daysBetween = (fromIso: string, toIso: string) =>
+  Math.round((isoToLocalDate(toIso).getTime() - isoToLocalDate(fromIso).getTime()) / DAY_MS);
+
+/**
+ * Deriva do histórico as fichas que mudaram: nome e categoria do cadastro mais
+ * recente, local mais usado e prazo de validade mediano entre os lotes.
+ * Fichas editadas ou importadas pelo usuário ficam como estão.
+ */
+export const learnCatalog = (products: Product[], catalog: CatalogItem[]): CatalogItem[] => {
+  const byBarcode = new Map<string, Product[]>();
+  products.forEach(p => {
+    const code = normalizeBarcode(p.barcode);
+    if (code) byBarcode.set(code, [...(byBarcode.get(code) || []), p]);
+  });
+  const current = new Map(catalog.map(item => [item.barcode, item]));
+
+  const changed: CatalogItem[] = [];
+  byBarcode.forEach((group, barcode) => {
+    const existing = current.get(barcode);
+    if (existing && existing.source !== 'HISTORY') return;
+
+    const latest = group.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+    const lots = group.flatMap(p => p.lots);
+    const learned = {
+      barcode,
+      name: latest.name,
+      category: latest.category,
+      location: mostFrequent(lots.map(l => l.location?.trim() || '').filter(Boolean)),
+      shelfLifeDays: median(lots.map(l => daysBetween(l.receivedAt, l.expiryDate)).filter(d => d > 0))
+    };
+
+    if (
+      existing &&
+      existing.name === learned.name &&
+      existing.category === learned.category &&
+      existing.location === learned.location &&
+      existing.shelfLifeDays === learned.shelfLifeDays
+    ) return;
+    changed.push({ ...learned, source: 'HISTORY', updatedAt: Date.now() });
+  });
+  return changed;
+};
+
+/**
+ * Substitui ou acrescenta fichas pelo código de barras, mantendo a ordem por nome.
+ */
+export const mergeCatalogItems = (catalog: CatalogItem[], items: CatalogItem[]): CatalogItem[] => {
+  const byBarcode = new Map(catalog.map(item => [item.barcode, item]));
+  items.forEach(item => byBarcode.set(item.barcode, item));
+  return [...byBarcode.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Vencimento sugerido para um lote recebido em `receivedAt` (ISO).
+ */
+export const suggestExpiryDate = (item: CatalogItem, receivedAt: string): string | null => {
+  if (!item.shelfLifeDays) return null;
+  const date = isoToLocalDate(receivedAt || toISODate());
+  date.setDate(date.getDate() + item.shelfLifeDays);
+  return toISODate(date);
+};
+
+/**
+ * Lê fichas de catálogo de uma planilha com código de barras, produto e,
+ * opcionalmente, categoria, localização e prazo de validade em dias.
+ */
+export const catalogFromSpreadsheet = (data: SpreadsheetData): { items: CatalogItem[]; skipped: number } => {
+  const items = new Map<string, CatalogItem>();
+  let skipped = 0;
+
+  data.sheets.forEach(sheet => {
+    // "Validade (dias)" casaria com a coluna de vencimento; é separada antes da sugestão
+    const shelfColumn = sheet.columns.find(c => /dias|prazo|shelf/.test(c.toLowerCase()));
+    const mapping = suggestMapping(sheet.columns.filter(c => c !== shelfColumn));
+    const columnOf = (field: string) => Object.keys(mapping).find(c => mapping[c] === field);
+    const barcodeColumn = columnOf('barcode');
+    const nameColumn = columnOf('name');
+    if (!barcodeColumn || !nameColumn) {
+      throw { message: `A aba "${sheet.name}" precisa das colunas de código de barras e produto.` };
+    }
+    const categoryColumn = columnOf('category');
+    const locationColumn = columnOf('location');
+
+    sheet.rows.forEach(row => {
+      const barcode = normalizeBarcode(String(row[barcodeColumn] ?? ''));
+      const name = String(row[nameColumn] ?? '').trim();
+      if (!barcode || !name) {
+        skipped++;
+        return;
+      }
+      const shelfLifeDays = shelfColumn ? parseInt(row[shelfColumn]) : NaN;
+      items.set(barcode, {
+        barcode,
+        name,
+        category: (categoryColumn && String(row[categoryColumn] ?? '').trim()) || 'Geral',
+        location: (locationColumn && String(row[locationColumn] ?? '').trim()) || undefined,
+        shelfLifeDays: shelfLifeDays > 0 ? shelfLifeDays : undefined,
+        source: 'IMPORT',
+        updatedAt: Date.now()
+      });
+    });
+  });
+
+  return { items: [...items.values()], skipped };
+};
+
+export const exportCatalog = (catalog: CatalogItem[]) => {
+  const data = catalog.map(item => ({
+    [EXPORT_HEADERS.barcode]: item.barcode,
+    [EXPORT_HEADERS.name]: item.name,
+    [EXPORT_HEADERS.category]: item.category,
+    [EXPORT_HEADERS.location]: item.location || '',
+    [EXPORT_HEADERS.shelfLifeDays]: item.shelfLifeDays ?? ''
+  }));
+  const ws = XLSX.utils.json_to_sheet(data, { header: Object.values(EXPORT_HEADERS) });
+  const csvOutput = XLSX.utils.sheet_to_csv(ws, { FS: ';' });
+  downloadFile("\ufeff" + csvOutput, `catalogo_${toISODate()}.csv`, 'text/csv;charset=utf-8;');
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { detectDateOrder, isoToLocalDate, parseExpiryDate } from './dateParser';
+
+const iso = (input: unknown, order?: 'DMY' | 'MDY') => parseExpiryDate(input, order)?.iso ?? null;
+
+describe('parseExpiryDate', () => {
+  describe('dia/mês e mês/dia', () => {
+    it('lê dia antes do mês por padrão e marca a dúvida', () => {
+      expect(parseExpiryDate('03/04/2026')).toEqual({ iso: '2026-04-03', ambiguous: true, monthOnly: false });
+      expect(parseExpiryDate('03/04/2026', 'MDY')).toEqual({ iso: '2026-03-04', ambiguous: true, monthOnly: false });
+    });
+
+    it('um lado maior que 12 decide a ordem sozinho', () => {
+      expect(parseExpiryDate('25/12/2026', 'MDY')).toEqual({ iso: '2026-12-25', ambiguous: false, monthOnly: false });
+      expect(parseExpiryDate('12/25/2026', 'DMY')).toEqual({ iso: '2026-12-25', ambiguous: false, monthOnly: false });
+    });
+
+    it('dia igual ao mês não é ambíguo', () => {
+      expect(parseExpiryDate('05/05/2026')?.ambiguous).toBe(false);
+    });
+
+    it('aceita ponto, hífen e espaço como separador', () => {
+      expect(iso('31.01.2026')).toBe('2026-01-31');
+      expect(iso('31-01-2026')).toBe('2026-01-31');
+      expect(iso('31 01 2026')).toBe('2026-01-31');
+    });
+  });
+
+  describe('anos com dois dígitos', () => {
+    it('ficam no século 2000', () => {
+      expect(iso('31/01/26')).toBe('2026-01-31');
+      expect(iso('15/08/99')).toBe('2099-08-15');
+    });
+
+    it('no formato compacto de rótulo', () => {
+      expect(iso('310126')).toBe('2026-01-31');
+      expect(iso('31012026')).toBe('2026-01-31');
+      expect(iso('20251231')).toBe('2025-12-31');
+      expect(iso('19991101')).toBe('1999-11-01');
+      expect(iso('20122025')).toBe('2025-12-20');
+    });
+
+    it('em mês/ano, até o fim do mês', () => {
+      expect(parseExpiryDate('02/28')).toEqual({ iso: '2028-02-29', ambiguous: false, monthOnly: true });
+      expect(parseExpiryDate('11/2026')).toEqual({ iso: '2026-11-30', ambiguous: false, monthOnly: true });
+    });
+  });
+
+  describe('seriais do Excel', () => {
+    it('como número ou texto', () => {
+      expect(iso(45658)).toBe('2025-01-01');
+      expect(iso('45658')).toBe('2025-01-01');
+      expect(iso(46022)).toBe('2025-12-31');
+    });
+
+    it('ignora a fração de horário', () => {
+      expect(iso(45658.75)).toBe('2025-01-01');
+      expect(iso('45658.5')).toBe('2025-01-01');
+    });
+
+    it('recusa números fora da faixa plausível', () => {
+      expect(iso(12)).toBeNull();
+      expect(iso(19999)).toBeNull();
+      expect(iso(80001)).toBeNull();
+    });
+  });
+
+  describe('meses por extenso', () => {
+    it('abreviados ou completos, em português e inglês', () => {
+      expect(parseExpiryDate('DEZ/25')).toEqual({ iso: '2025-12-31', ambiguous: false, monthOnly: true });
+      expect(iso('12 dez 2025')).toBe('2025-12-12');
+      expect(iso('dezembro de 2025')).toBe('2025-12-31');
+      expect(iso('15-Feb-2026')).toBe('2026-02-15');
+      expect(iso('fev/24')).toBe('2024-02-29');
+    });
+
+    it('aceita acento e ponto de abreviação', () => {
+      expect(iso('10 março 2026')).toBe('2026-03-10');
+      expect(iso('10/set./2026')).toBe('2026-09-10');
+    });
+
+    it('recusa nomes desconhecidos', () => {
+      expect(iso('10 foo 2026')).toBeNull();
+    });
+  });
+
+  describe('datas inválidas', () => {
+    it('recusa dias e meses que não existem', () => {
+      expect(iso('31/02/2026')).toBeNull();
+      expect(iso('29/02/2026')).toBeNull();
+      expect(iso('00/01/2026')).toBeNull();
+      expect(iso('13/13/2026')).toBeNull();
+      expect(iso('2026-02-30')).toBeNull();
+    });
+
+    it('recusa valores vazios e texto solto', () => {
+      expect(iso(null)).toBeNull();
+      expect(iso(undefined)).toBeNull();
+      expect(iso('')).toBeNull();
+      expect(iso('   ')).toBeNull();
+      expect(iso('sem validade')).toBeNull();
+      expect(iso(new Date('x'))).toBeNull();
+    });
+  });
+
+  it('lê ISO com horário e objetos Date no dia local', () => {
+    expect(iso('2026-03-10T23:30:00Z')).toBe('2026-03-10');
+    expect(iso(new Date(2026, 2, 10, 23, 30))).toBe('2026-03-10');
+  });
+});
+
+describe('detectDateOrder', () => {
+  it('um valor inequívoco fixa a ordem', () => {
+    expect(detectDateOrder(['03/04/2026', '25/12/2026'])).toBe('DMY');
+    expect(detectDateOrder(['03/04/2026', '12/25/2026'])).toBe('MDY');
+  });
+
+  it('sem nada que resolva a dúvida, pede para o usuário escolher', () => {
+    expect(detectDateOrder(['03/04/2026', '01/02/2026'])).toBe('AMBIGUOUS');
+  });
+
+  it('sem datas ambíguas, fica no padrão brasileiro', () => {
+    expect(detectDateOrder(['05/05/2026', 45658, 'DEZ/25', '2026-01-01'])).toBe('DMY');
+    expect(detectDateOrder([])).toBe('DMY');
+  });
+});
+
+describe('isoToLocalDate', () => {
+  it('devolve meia-noite local, sem voltar um dia', () => {
+    const date = isoToLocalDate('2026-03-01');
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2026, 2, 1, 0]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Interpretação de datas de validade como aparecem em planilhas e rótulos:
+ * seriais do Excel, anos com dois dígitos, "MM/AAAA", "DEZ/25", "DD.MM.AAAA", "AAAAMMDD".
+ * Nada aqui passa por toISOString(), que no fuso de Brasília pode voltar um dia.
+ */
+
+// BR: dia antes do mês; US: mês antes do dia
+export type DayMonthOrder = 'DMY' | 'MDY';
+
+export interface ParsedDate {
+  iso: string;            // YYYY-MM-DD
+  ambiguous: boolean;     // dia e mês poderiam estar trocados
+  monthOnly: boolean;     // "MM/AAAA": assumido o último dia do mês
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, janeiro: 1, january: 1,
+  fev: 2, fevereiro: 2, feb: 2, february: 2,
+  mar: 3, marco: 3, march: 3,
+  abr: 4, abril: 4, apr: 4, april: 4,
+  mai: 5, maio: 5, may: 5,
+  jun: 6, junho: 6, june: 6,
+  jul: 7, julho: 7, july: 7,
+  ago: 8, agosto: 8, aug: 8, august: 8,
+  set: 9, setembro: 9, sep: 9, sept: 9, september: 9,
+  out: 10, outubro: 10, oct: 10, october: 10,
+  nov: 11, novembro: 11, november: 11,
+  dez: 12, dezembro: 12, dec: 12, december: 12
+};
+
+// Seriais plausíveis para validade (1954 a 2119); fora disso é outro número
+const MIN_SERIAL = 20000;
+const MAX_SERIAL = 80000;
+// 1899-12-30: dia zero do Excel, já compensando o falso 29/02/1900
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const lastDayOfMonth = (year: number, month: number) => new Date(year, month, 0).getDate();
+
+const expandYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+const build = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > lastDayOfMonth(year, month)) return null;
+  if (year < 1900 || year > 2199) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const fromSerial = (serial: number): string | null => {
+  if (serial < MIN_SERIAL || serial > MAX_SERIAL) return null;
+  const date = new Date(EXCEL_EPOCH + Math.floor(serial) * DAY_MS);
+  return build(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+const monthFromName = (token: string): number | undefined =>
+  MONTHS[token.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\.$/, '')];
+
+/**
+ * Partes numéricas de uma data "a/b/c" (ou com "-", "." e espaço), sem interpretar a ordem.
+ */
+const numericParts = (text: string): number[] | null => {
+  if (!/^\d{1,4}([/.\- ]\d{1,4}){1,2}$/.test(text)) return null;
+  return text.split(/[/.\- ]/).map(Number);
+};
+
+/**
+ * Verdadeiro quando dia e mês de "a/b/aaaa" poderiam ser lidos nas duas ordens.
+ */
+const isAmbiguousPair = (a: number, b: number) => a !== b && a <= 12 && b <= 12;
+
+export const parseExpiryDate = (input: unknown, order: DayMonthOrder = 'DMY'): ParsedDate | null => {
+  const plain = (iso: string | null, extra: Partial<ParsedDate> = {}): ParsedDate | null =>
+    iso ? { iso, ambiguous: false, monthOnly: false, ...extra } : null;
+
+  if (input === null || input === undefined) return null;
+
+  if (input instanceof Date) {
+    if (isNaN(input.getTime())) return null;
+    return plain(build(input.getFullYear(), input.getMonth() + 1, input.getDate()));
+  }
+
+  if (typeof input === 'number') return plain(fromSerial(input));
+
+  const text = String(input).trim().replace(/\s+/g, ' ');
+  if (!text) return null;
+
+  // Serial do Excel lido como texto
+  if (/^\d{5}(\.\d+)?$/.test(text)) return plain(fromSerial(Number(text)));
+
+  // ISO compacto (AAAAMMDD); nunca é também um DDMMAAAA válido, pois o "mês" seria 19 a 21
+  if (/^(19|20)\d{6}$/.test(text)) {
+    const compactIso = build(Number(text.slice(0, 4)), Number(text.slice(4, 6)), Number(text.slice(6)));
+    if (compactIso) return plain(compactIso);
+  }
+
+  // Compacto de rótulo: DDMMAAAA ou DDMMAA
+  if (/^\d{6}$|^\d{8}$/.test(text)) {
+    const day = Number(text.slice(0, 2));
+    const month = Number(text.slice(2, 4));
+    return plain(build(expandYear(Number(text.slice(4))), month, day));
+  }
+
+  // ISO, com ou sem horário
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/);
+  if (iso) return plain(build(Number(iso[1]), Number(iso[2]), Number(iso[3])));
+
+  // Mês por extenso: "DEZ/25", "12 DEZ 2025", "dezembro de 2025"
+  const named = text.toLowerCase().replace(/ de /g, ' ').match(/^(?:(\d{1,2})[/.\- ])?([a-zà-ú]{3,10}\.?)[/.\- ](\d{2,4})$/);
+  if (named) {
+    const month = monthFromName(named[2]);
+    if (!month) return null;
+    const year = expandYear(Number(named[3]));
+    if (named[1]) return plain(build(year, month, Number(named[1])));
+    return plain(build(year, month, lastDayOfMonth(year, month)), { monthOnly: true });
+  }
+
+  const parts = numericParts(text);
+  if (!parts) return null;
+
+  if (parts.length === 2) {
+    // "MM/AAAA" ou "MM/AA": consumir até o fim do mês
+    const [month, rawYear] = parts;
+    const year = expandYear(rawYear);
+    return plain(build(year, month, lastDayOfMonth(year, month || 1)), { monthOnly: true });
+  }
+
+  const [a, b, rawYear] = parts;
+  const year = expandYear(rawYear);
+  // Um lado maior que 12 decide a ordem sozinho
+  if (a > 12) return plain(build(year, b, a));
+  if (b > 12) return plain(build(year, a, b));
+  const [day, month] = order === 'DMY' ? [a, b] : [b, a];
+  return plain(build(year, month, day), { ambiguous: isAmbiguousPair(a, b) });
+};
+
+/**
+ * Examina as datas de um arquivo inteiro para decidir entre dia/mês e mês/dia.
+ * Basta um valor inequívoco (ex.: 25/12) para fixar a ordem; se nenhum valor
+ * resolver a dúvida, o arquivo é AMBIGUOUS e o usuário precisa escolher.
+ */
+export const detectDateOrder = (values: unknown[]): DayMonthOrder | 'AMBIGUOUS' => {
+  let dmy = 0;
+  let mdy = 0;
+  let ambiguous = 0;
+
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const parts = numericParts(value.trim());
+    if (!parts || parts.length !== 3 || parts[0] > 31) return;
+    const [a, b] = parts;
+    if (a > 12 && b <= 12) dmy++;
+    else if (b > 12 && a <= 12) mdy++;
+    else if (isAmbiguousPair(a, b)) ambiguous++;
+  });
+
+  if (mdy > 0 && dmy === 0) return 'MDY';
+  if (dmy > 0 || ambiguous === 0) return 'DMY';
+  return 'AMBIGUOUS';
+};
+
+/**
+ * Data ISO (YYYY-MM-DD) como meia-noite local, sem o deslocamento de fuso de `new Date(iso)`.
+ */
+export const isoToLocalDate = (iso: string): Date => {
+  const [year, month, day] = iso.slice(0, 10).split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+};
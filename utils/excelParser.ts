@@ -1,18 +1,64 @@
-
 import * as XLSX from 'xlsx';
-import { Product } from '../types';
-import { formatDate } from './helpers';
+import { ImportField, Product, ProductEntry } from '../types';
+import { downloadFile, formatDate, parseMoney } from './helpers';
+import { DayMonthOrder, parseExpiryDate } from './dateParser';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'name', label: 'Produto', required: true },
+  { field: 'expiryDate', label: 'Validade', required: true },
+  { field: 'category', label: 'Categoria' },
+  { field: 'quantity', label: 'Quantidade' },
+  { field: 'barcode', label: 'Código de Barras' },
+  { field: 'location', label: 'Localização' },
+  { field: 'unitCost', label: 'Custo Unitário' },
+  { field: 'salePrice', label: 'Preço de Venda' }
+];
+
+/** Coluna de origem -> campo do produto (null = ignorar). */
+export type ColumnMapping = Record<string, ImportField | null>;
+
+export type RowValues = Partial<Record<ImportField, string>>;
+
+export interface SkippedRow {
+  row: number;
+  reason: string;
+  values: RowValues;
+}
+
+export interface SheetData {
+  name: string;
+  columns: string[];
+  rows: Record<string, any>[];
+}
+
+export interface SpreadsheetData {
+  fileName: string;
+  sheets: SheetData[]; // apenas abas com conteúdo
+}
+
+export interface RowParseOptions {
+  defaultCategory?: string;
+  dateOrder?: DayMonthOrder;
+}
+
+export interface ImportDiagnostics {
+  sheetName: string;
+  totalRowsFound: number;
+  successCount: number;
+  skippedRows: SkippedRow[];
+  columnsFound: string[];
+  steps: string[];
+  rawPreview: any[];
+}
+
+/** Linha válida da planilha, com o que a importação precisa saber além do registro. */
+export interface ImportEntry extends ProductEntry {
+  categoryIsFallback: boolean; // a planilha não trazia categoria e `category` é o valor padrão
+}
 
 export interface ImportResult {
-  products: Omit<Product, 'id' | 'createdAt'>[];
-  diagnostics: {
-    totalRowsFound: number;
-    successCount: number;
-    skippedRows: { row: number; reason: string }[];
-    columnsFound: string[];
-    steps: string[];
-    rawPreview: any[];
-  };
+  products: ImportEntry[];
+  diagnostics: ImportDiagnostics;
 }
 
 const normalize = (str: any): string => {
@@ -25,141 +71,178 @@ const normalize = (str: any): string => {
     .trim();
 };
 
-export const parseExcelFile = async (file: File): Promise<ImportResult> => {
-  const result: ImportResult = {
-    products: [],
-    diagnostics: {
-      totalRowsFound: 0,
-      successCount: 0,
-      skippedRows: [],
-      columnsFound: [],
-      steps: [],
-      rawPreview: []
-    }
-  };
+// A ordem importa: custo é procurado antes de preço de venda
+const aliases: [ImportField, string[]][] = [
+  ['unitCost', ['custounitario', 'custo', 'precodecusto', 'precocusto', 'unitcost', 'cost']],
+  ['name', ['produto', 'nome', 'item', 'descricao', 'desc']],
+  ['expiryDate', ['validade', 'vencimento', 'vence', 'data', 'datadevalidade', 'expiration', 'cadastro']],
+  ['category', ['categoria', 'tipo', 'setor', 'category']],
+  ['quantity', ['quantidade', 'qtd', 'estoque', 'unidades', 'quantity']],
+  ['barcode', ['codigo', 'barras', 'ean', 'gtin', 'codigodebarras', 'barcode']],
+  ['location', ['localizacao', 'local', 'prateleira', 'posicao', 'location']],
+  ['salePrice', ['precodevenda', 'precovenda', 'venda', 'preco', 'saleprice', 'price']]
+];
 
-  try {
-    const isCsv = file.name.toLowerCase().endsWith('.csv');
-    result.diagnostics.steps.push(`Iniciando leitura de arquivo: ${file.name}`);
-
-    const dataBuffer = await new Promise<any>((resolve, reject) => {
-      const reader = new FileReader();
-      if (isCsv) {
-        reader.readAsText(file, "UTF-8");
-      } else {
-        reader.readAsArrayBuffer(file);
-      }
-      reader.onload = () => resolve(reader.result);
-      reader.onerror = () => reject(new Error("Falha ao ler o arquivo no navegador."));
-    });
+/**
+ * Identifica o layout de um arquivo pelos cabeçalhos, para reaproveitar mapeamentos.
+ */
+export const layoutSignature = (columns: string[]): string =>
+  columns.map(normalize).filter(Boolean).sort().join('|');
 
-    let workbook;
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const isCsv = file.name.toLowerCase().endsWith('.csv');
+
+  const dataBuffer = await new Promise<any>((resolve, reject) => {
+    const reader = new FileReader();
     if (isCsv) {
-      const content = dataBuffer as string;
-      const delimiter = content.split('\n')[0].includes(';') ? ';' : ',';
-      workbook = XLSX.read(content, { type: 'string', FS: delimiter });
+      reader.readAsText(file, "UTF-8");
     } else {
-      workbook = XLSX.read(dataBuffer, { type: 'array', cellDates: true });
+      reader.readAsArrayBuffer(file);
     }
+    reader.onload = () => resolve(reader.result);
+    reader.onerror = () => reject(new Error("Falha ao ler o arquivo no navegador."));
+  });
+
+  let workbook;
+  if (isCsv) {
+    const content = dataBuffer as string;
+    const delimiter = content.split('\n')[0].includes(';') ? ';' : ',';
+    workbook = XLSX.read(content, { type: 'string', FS: delimiter });
+  } else {
+    // Células de data saem em ISO; sem isso o SheetJS usa o formato americano
+    workbook = XLSX.read(dataBuffer, { type: 'array', cellDates: true, dateNF: 'yyyy-mm-dd' });
+  }
+
+  const sheets: SheetData[] = workbook.SheetNames
+    .map(name => {
+      const rows: any[] = XLSX.utils.sheet_to_json(workbook.Sheets[name], { defval: "", raw: false });
+      return { name, columns: rows.length > 0 ? Object.keys(rows[0]) : [], rows };
+    })
+    .filter(sheet => sheet.rows.length > 0);
 
-    const sheetName = workbook.SheetNames[0];
-    const sheet = workbook.Sheets[sheetName];
-    const json: any[] = XLSX.utils.sheet_to_json(sheet, { defval: "", raw: false });
+  if (sheets.length === 0) {
+    throw new Error("O arquivo lido está vazio ou o formato é incompatível.");
+  }
 
-    if (json.length === 0) {
-      throw new Error("O arquivo lido está vazio ou o formato é incompatível.");
+  return { fileName: file.name, sheets };
+};
+
+/**
+ * Sugere o mapeamento das colunas pelos apelidos conhecidos.
+ * Uma coluna já atribuída não é reaproveitada ("Preço de Custo" não vira preço de venda).
+ */
+export const suggestMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = Object.fromEntries(columns.map(c => [c, null]));
+  aliases.forEach(([field, targets]) => {
+    const key = columns.find(k => {
+      if (mapping[k]) return false;
+      const nk = normalize(k);
+      return targets.some(t => nk === normalize(t) || nk.includes(normalize(t)));
+    });
+    if (key) mapping[key] = field;
+  });
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): ImportField[] => {
+  const mapped = new Set(Object.values(mapping));
+  return IMPORT_FIELDS.filter(f => f.required && !mapped.has(f.field)).map(f => f.field);
+};
+
+/**
+ * Valida os valores de uma linha (já no formato dos campos do produto).
+ * Também usada para revalidar linhas corrigidas manualmente.
+ */
+export const validateRowValues = (values: RowValues, options: RowParseOptions = {}): { entry?: ImportEntry; reason?: string } => {
+  const name = (values.name || '').trim();
+  if (!name) return { reason: 'Nome do produto vazio' };
+
+  const date = parseExpiryDate(values.expiryDate || '', options.dateOrder)?.iso;
+  if (!date) return { reason: `Data inválida: ${values.expiryDate || '(vazia)'}` };
+
+  const category = values.category?.trim();
+  return {
+    entry: {
+      name,
+      expiryDate: date,
+      category: category || options.defaultCategory || "Geral",
+      categoryIsFallback: !category,
+      quantity: values.quantity !== undefined ? (parseInt(values.quantity) || 0) : 1,
+      barcode: values.barcode?.trim() || "",
+      location: values.location?.trim() || "",
+      unitCost: parseMoney(values.unitCost),
+      salePrice: parseMoney(values.salePrice)
     }
+  };
+};
+
+export const rowToValues = (row: Record<string, any>, mapping: ColumnMapping): RowValues => {
+  const values: RowValues = {};
+  Object.entries(mapping).forEach(([column, field]) => {
+    if (field) values[field] = String(row[column] ?? '');
+  });
+  return values;
+};
 
-    result.diagnostics.totalRowsFound = json.length;
-    const keys = Object.keys(json[0]);
-    result.diagnostics.columnsFound = keys;
-
-    const aliases = {
-      name: ['produto', 'nome', 'item', 'descricao', 'desc'],
-      expiry: ['validade', 'vencimento', 'vence', 'data', 'datadevalidade', 'expiration', 'cadastro'],
-      category: ['categoria', 'tipo', 'setor', 'category'],
-      quantity: ['quantidade', 'qtd', 'estoque', 'unidades', 'quantity'],
-      barcode: ['codigo', 'barras', 'ean', 'gtin', 'codigodebarras', 'barcode'],
-      location: ['localizacao', 'local', 'prateleira', 'posicao', 'location']
-    };
-
-    const findKey = (rowKeys: string[], targets: string[]) => {
-      return rowKeys.find(k => {
-        const nk = normalize(k);
-        return targets.some(t => nk === normalize(t) || nk.includes(normalize(t)));
-      });
-    };
-
-    const colMap = {
-      name: findKey(keys, aliases.name),
-      expiry: findKey(keys, aliases.expiry),
-      category: findKey(keys, aliases.category),
-      quantity: findKey(keys, aliases.quantity),
-      barcode: findKey(keys, aliases.barcode),
-      location: findKey(keys, aliases.location)
-    };
-
-    if (!colMap.name || !colMap.expiry) {
-      throw new Error(`Colunas obrigatórias não identificadas. Certifique-se de usar os cabeçalhos do modelo.`);
+/**
+ * Valores brutos da coluna de validade, para detectar a ordem dia/mês do arquivo.
+ */
+export const expiryColumnValues = (sheet: SheetData, mapping: ColumnMapping): string[] => {
+  const column = Object.keys(mapping).find(c => mapping[c] === 'expiryDate');
+  return column ? sheet.rows.map(row => String(row[column] ?? '')) : [];
+};
+
+/**
+ * Converte as linhas de uma aba. `defaultCategory` vale para linhas sem categoria.
+ */
+export const mapRows = (sheet: SheetData, mapping: ColumnMapping, options: RowParseOptions = {}): ImportResult => {
+  const result: ImportResult = {
+    products: [],
+    diagnostics: {
+      sheetName: sheet.name,
+      totalRowsFound: sheet.rows.length,
+      successCount: 0,
+      skippedRows: [],
+      columnsFound: sheet.columns,
+      steps: [`Aba: ${sheet.name}`],
+      rawPreview: sheet.rows.slice(0, 10)
     }
+  };
 
-    json.forEach((row, i) => {
-      const name = row[colMap.name!];
-      const expiry = row[colMap.expiry!];
-      
-      if (!name || String(name).trim() === "") return;
-
-      let date = '';
-      const dateObj = new Date(expiry);
-      if (!isNaN(dateObj.getTime()) && String(expiry).includes('-')) {
-        date = dateObj.toISOString().split('T')[0];
-      } else {
-        const s = String(expiry).replace(/[^\d/.-]/g, '');
-        const p = s.split(/[/-]/);
-        if (p.length === 3) {
-          if (p[2].length === 4) date = `${p[2]}-${p[1].padStart(2,'0')}-${p[0].padStart(2,'0')}`;
-          else if (p[0].length === 4) date = `${p[0]}-${p[1].padStart(2,'0')}-${p[2].padStart(2,'0')}`;
-        }
-      }
-
-      if (!date || date.includes('NaN')) {
-        result.diagnostics.skippedRows.push({ row: i+2, reason: `Data inválida: ${expiry}` });
-        return;
-      }
-
-      result.products.push({
-        name: String(name),
-        expiryDate: date,
-        category: colMap.category ? String(row[colMap.category] || "Geral") : "Geral",
-        quantity: colMap.quantity ? (parseInt(row[colMap.quantity]) || 0) : 1,
-        barcode: colMap.barcode ? String(row[colMap.barcode] || "") : "",
-        location: colMap.location ? String(row[colMap.location] || "") : ""
-      });
-      result.diagnostics.successCount++;
-    });
+  sheet.rows.forEach((row, i) => {
+    const values = rowToValues(row, mapping);
+    // Linhas totalmente em branco são ignoradas sem alarde
+    if (Object.values(values).every(v => !v || !v.trim())) return;
 
-    return result;
-  } catch (err: any) {
-    throw { 
-      message: err.message || "Erro ao processar arquivo.", 
-      diagnostics: result.diagnostics 
-    };
-  }
+    const { entry, reason } = validateRowValues(values, options);
+    if (!entry) {
+      result.diagnostics.skippedRows.push({ row: i + 2, reason: reason!, values });
+      return;
+    }
+    result.products.push(entry);
+    result.diagnostics.successCount++;
+  });
+
+  result.diagnostics.steps.push(`${result.diagnostics.successCount} linha(s) válidas, ${result.diagnostics.skippedRows.length} rejeitada(s)`);
+  return result;
 };
 
-export const exportToExcel = (products: Product[]) => {
-  const data = products.map(p => ({
+export const exportToExcel = (products: Product[], fileName = 'Backup_Estoque.xlsx') => {
+  // Uma linha por lote, no mesmo layout aceito pela importação
+  const data = products.flatMap(p => p.lots.map(lot => ({
     'Código de Barras': p.barcode || '',
     'Produto': p.name,
-    'Validade': formatDate(p.expiryDate),
+    'Validade': formatDate(lot.expiryDate),
     'Categoria': p.category,
-    'Quantidade': p.quantity,
-    'Localização': p.location || ''
-  }));
+    'Quantidade': lot.quantity,
+    'Localização': lot.location || '',
+    'Custo Unitário': p.unitCost ?? '',
+    'Preço de Venda': p.salePrice ?? ''
+  })));
   const ws = XLSX.utils.json_to_sheet(data);
   const wb = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(wb, ws, "Estoque");
-  XLSX.writeFile(wb, "Backup_Estoque.xlsx");
+  XLSX.writeFile(wb, fileName);
 };
 
 /**
@@ -173,20 +256,14 @@ export const downloadImportTemplate = () => {
       'Categoria': 'Alimentos',
       'Quantidade': 10,
       'Código de Barras': '7891234567890',
-      'Localização': 'Prateleira A'
+      'Localização': 'Prateleira A',
+      'Custo Unitário': '4,50',
+      'Preço de Venda': '7,99'
     }
   ];
   
   const ws = XLSX.utils.json_to_sheet(template);
   const csvOutput = XLSX.utils.sheet_to_csv(ws, { FS: ';' });
   
-  const blob = new Blob(["\ufeff" + csvOutput], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement("a");
-  const url = URL.createObjectURL(blob);
-  link.setAttribute("href", url);
-  link.setAttribute("download", "modelo_importacao_estoque.csv");
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  downloadFile("\ufeff" + csvOutput, "modelo_importacao_estoque.csv", 'text/csv;charset=utf-8;');
 };
@@ -0,0 +1,46 @@
+import { ExpiryRule, ExpirySettings, ExpiryStatus, Lot, Product } from '../types';
+import { DEFAULT_EXPIRY_RULE, calculateDaysRemaining, getExpiryStatus } from './helpers';
+import { getEarliestLot } from './lots';
+
+export const DEFAULT_EXPIRY_SETTINGS: ExpirySettings = {
+  defaultRule: DEFAULT_EXPIRY_RULE,
+  categoryRules: {},
+  productRules: {}
+};
+
+export const normalizeCategoryKey = (category: string): string =>
+  (category || '').trim().toLowerCase();
+
+/**
+ * Resolve a regra aplicável ao produto, na ordem:
+ * override do produto > override da categoria > padrão global.
+ */
+export const resolveExpiryRule = (product: Pick<Product, 'id' | 'category'>, settings: ExpirySettings): ExpiryRule => {
+  const productRule = settings.productRules[product.id];
+  if (productRule) return productRule;
+
+  const categoryKey = normalizeCategoryKey(product.category);
+  const categoryRule = Object.entries(settings.categoryRules)
+    .find(([name]) => normalizeCategoryKey(name) === categoryKey)?.[1];
+  if (categoryRule) return categoryRule;
+
+  return settings.defaultRule;
+};
+
+export const getLotExpiry = (product: Product, lot: Lot, settings: ExpirySettings) => {
+  const rule = resolveExpiryRule(product, settings);
+  const daysRemaining = calculateDaysRemaining(lot.expiryDate);
+  const status: ExpiryStatus = getExpiryStatus(daysRemaining, rule);
+  return { rule, daysRemaining, status };
+};
+
+/**
+ * Situação do produto = situação do lote que vence primeiro (FEFO).
+ */
+export const getProductExpiry = (product: Product, settings: ExpirySettings) => {
+  const earliest = getEarliestLot(product);
+  if (!earliest) {
+    return { rule: resolveExpiryRule(product, settings), daysRemaining: Infinity, status: ExpiryStatus.SAFE };
+  }
+  return getLotExpiry(product, earliest, settings);
+};
@@ -0,0 +1,95 @@
+import { ExpirySettings, ExpiryStatus, MovementType, Product } from '../types';
+import { getLotExpiry } from './expiryRules';
+import { getActiveLots } from './lots';
+
+export interface MonthlyLoss {
+  month: string; // YYYY-MM
+  discarded: number;
+  donated: number;
+  expiredInStock: number;
+}
+
+export interface CategoryLoss {
+  category: string;
+  atRisk: number;
+  lost: number;
+}
+
+export interface FinancialSummary {
+  atRiskValue: number;  // lotes em Atenção/Crítico ainda em estoque
+  lostValue: number;    // vencidos em estoque + baixas sem receita
+  productsWithoutCost: number;
+  monthly: MonthlyLoss[];
+  byCategory: CategoryLoss[];
+}
+
+// Baixas que não geram receita contam como perda
+const LOSS_MOVEMENTS = [MovementType.DISCARD_EXPIRED, MovementType.DONATE];
+
+const monthKey = (isoDate: string) => isoDate.slice(0, 7);
+
+const lastMonths = (count: number): string[] => {
+  const today = new Date();
+  return Array.from({ length: count }, (_, i) => {
+    const d = new Date(today.getFullYear(), today.getMonth() - (count - 1 - i), 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+  });
+};
+
+export const computeFinancials = (products: Product[], expirySettings: ExpirySettings, months = 12): FinancialSummary => {
+  const monthly = new Map(lastMonths(months).map(m => [m, { month: m, discarded: 0, donated: 0, expiredInStock: 0 }]));
+  const categories = new Map<string, CategoryLoss>();
+  let atRiskValue = 0;
+  let lostValue = 0;
+  let productsWithoutCost = 0;
+
+  const categoryEntry = (name: string) => {
+    const key = name || 'Geral';
+    if (!categories.has(key)) categories.set(key, { category: key, atRisk: 0, lost: 0 });
+    return categories.get(key)!;
+  };
+
+  products.forEach(product => {
+    const cost = product.unitCost;
+    if (cost === undefined) {
+      productsWithoutCost++;
+      return;
+    }
+
+    getActiveLots(product).forEach(lot => {
+      const value = lot.quantity * cost;
+      const { status } = getLotExpiry(product, lot, expirySettings);
+      if (status === ExpiryStatus.EXPIRED) {
+        lostValue += value;
+        categoryEntry(product.category).lost += value;
+        const bucket = monthly.get(monthKey(lot.expiryDate));
+        if (bucket) bucket.expiredInStock += value;
+      } else if (status === ExpiryStatus.WARNING || status === ExpiryStatus.CRITICAL) {
+        atRiskValue += value;
+        categoryEntry(product.category).atRisk += value;
+      }
+    });
+
+    product.movements
+      .filter(m => LOSS_MOVEMENTS.includes(m.type))
+      .forEach(m => {
+        const value = m.quantity * cost;
+        lostValue += value;
+        categoryEntry(product.category).lost += value;
+        const bucket = monthly.get(monthKey(m.date));
+        if (!bucket) return;
+        if (m.type === MovementType.DONATE) bucket.donated += value;
+        else bucket.discarded += value;
+      });
+  });
+
+  return {
+    atRiskValue,
+    lostValue,
+    productsWithoutCost,
+    monthly: [...monthly.values()],
+    byCategory: [...categories.values()]
+      .filter(c => c.atRisk > 0 || c.lost > 0)
+      .sort((a, b) => b.lost - a.lost || b.atRisk - a.atRisk)
+  };
+};
@@ -1,5 +1,8 @@
 
-import { ExpiryStatus } from '../types';
+import { ExpiryStatus, ExpiryRule } from '../types';
+import { isoToLocalDate } from './dateParser';
+
+export const DEFAULT_EXPIRY_RULE: ExpiryRule = { warningDays: 7 };
 
 export const generateId = (): string => {
   try {
@@ -14,16 +17,16 @@ export const generateId = (): string => {
 export const calculateDaysRemaining = (expiryDate: string): number => {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
-  const expiry = new Date(expiryDate);
-  expiry.setHours(0, 0, 0, 0);
+  const expiry = isoToLocalDate(expiryDate);
   
   const diffTime = expiry.getTime() - today.getTime();
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 };
 
-export const getExpiryStatus = (daysRemaining: number): ExpiryStatus => {
+export const getExpiryStatus = (daysRemaining: number, rule: ExpiryRule = DEFAULT_EXPIRY_RULE): ExpiryStatus => {
   if (daysRemaining < 0) return ExpiryStatus.EXPIRED;
-  if (daysRemaining <= 7) return ExpiryStatus.WARNING;
+  if (rule.criticalDays !== undefined && daysRemaining <= rule.criticalDays) return ExpiryStatus.CRITICAL;
+  if (daysRemaining <= rule.warningDays) return ExpiryStatus.WARNING;
   return ExpiryStatus.SAFE;
 };
 
@@ -33,11 +36,58 @@ export const formatDate = (dateStr: string): string => {
   return `${day}/${month}/${year}`;
 };
 
+export const formatCurrency = (value: number): string =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Lê valores monetários como "R$ 1.234,56", "12,5" ou "12.50".
+ */
+export const parseMoney = (value: any): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  let s = String(value).replace(/[^\d,.-]/g, '');
+  if (s.includes(',')) s = s.replace(/\./g, '').replace(',', '.');
+  const n = parseFloat(s);
+  return isNaN(n) ? undefined : n;
+};
+
 export const getStatusColor = (status: ExpiryStatus): string => {
   switch (status) {
     case ExpiryStatus.EXPIRED: return 'text-rose-600 bg-rose-50 border-rose-100';
+    case ExpiryStatus.CRITICAL: return 'text-orange-600 bg-orange-50 border-orange-100';
     case ExpiryStatus.WARNING: return 'text-amber-600 bg-amber-50 border-amber-100';
     case ExpiryStatus.SAFE: return 'text-emerald-600 bg-emerald-50 border-emerald-100';
     default: return 'text-slate-600 bg-slate-50 border-slate-100';
   }
 };
+
+export const getStatusBarColor = (status: ExpiryStatus): string => {
+  switch (status) {
+    case ExpiryStatus.EXPIRED: return 'bg-rose-500';
+    case ExpiryStatus.CRITICAL: return 'bg-orange-500';
+    case ExpiryStatus.WARNING: return 'bg-amber-500';
+    default: return 'bg-emerald-500';
+  }
+};
+
+/**
+ * Data local no formato YYYY-MM-DD (sem o deslocamento de fuso do toISOString).
+ */
+export const toISODate = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ImportEntry, validateRowValues } from './excelParser';
+import { layoutOptions, planImport } from './importPlan';
+import { productFromEntry } from './lots';
+
+const existing = productFromEntry({ name: 'Leite', category: 'Laticínios', barcode: '789', expiryDate: '2026-03-10', quantity: 5 });
+
+const rowEntry = (values: Record<string, string>): ImportEntry =>
+  validateRowValues({ name: 'Leite', barcode: '789', expiryDate: '10/03/2026', quantity: '8', ...values }).entry!;
+
+describe('planImport em modo de atualização', () => {
+  it('mantém a categoria do cadastro quando a coluna não foi mapeada', () => {
+    const { products, diff } = planImport([existing], [rowEntry({})], { mode: 'UPSERT', upsertKey: 'BARCODE_EXPIRY', quantity: 'OVERWRITE' });
+    expect(products[0].category).toBe('Laticínios');
+    expect(products[0].lots[0].quantity).toBe(8);
+    expect(diff.updated).toBe(1);
+  });
+
+  it('mantém a categoria do cadastro quando a célula está vazia', () => {
+    const { products, diff } = planImport([existing], [rowEntry({ category: '  ', quantity: '5' })], { mode: 'UPSERT', upsertKey: 'BARCODE_EXPIRY', quantity: 'OVERWRITE' });
+    expect(products[0]).toBe(existing);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('troca a categoria quando a planilha traz uma', () => {
+    const { products } = planImport([existing], [rowEntry({ category: 'Bebidas' })], { mode: 'UPSERT', upsertKey: 'BARCODE_EXPIRY', quantity: 'OVERWRITE' });
+    expect(products[0].category).toBe('Bebidas');
+  });
+
+  it('usa a categoria padrão em produtos novos', () => {
+    const { products } = planImport([], [rowEntry({})], { mode: 'UPSERT', upsertKey: 'BARCODE_EXPIRY', quantity: 'OVERWRITE' });
+    expect(products[0].category).toBe('Geral');
+    expect(products[0]).not.toHaveProperty('categoryIsFallback');
+  });
+});
+
+describe('layoutOptions', () => {
+  it('não guarda a ordem das datas do arquivo no layout', () => {
+    const saved = layoutOptions({ mode: 'UPSERT', upsertKey: 'NAME_EXPIRY', quantity: 'SUM', sheetAsCategory: true, dateOrder: 'MDY' });
+    expect(saved).toEqual({ mode: 'UPSERT', upsertKey: 'NAME_EXPIRY', quantity: 'SUM', sheetAsCategory: true });
+  });
+});
@@ -0,0 +1,176 @@
+import { ImportOptions, MovementType, Product, ProductEntry, UpsertKey } from '../types';
+import { toISODate } from './helpers';
+import { ImportEntry } from './excelParser';
+import { createMovement, receiveMovement, withDerivedQuantities } from './ledger';
+import { entryToLot, mergeEntries, productFromEntry } from './lots';
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  mode: 'UPSERT',
+  upsertKey: 'BARCODE_EXPIRY',
+  quantity: 'OVERWRITE'
+};
+
+export const UPSERT_KEY_LABELS: Record<UpsertKey, string> = {
+  BARCODE_EXPIRY: 'Código + validade',
+  BARCODE_EXPIRY_LOCATION: 'Código + validade + local',
+  NAME_EXPIRY: 'Nome + validade',
+  NAME_EXPIRY_LOCATION: 'Nome + validade + local'
+};
+
+/**
+ * Opções que ficam salvas com o layout. A ordem dia/mês é resposta sobre as
+ * datas de um arquivo: o próximo arquivo com o mesmo layout é examinado de novo.
+ */
+export const layoutOptions = ({ dateOrder: _dateOrder, ...options }: ImportOptions): ImportOptions => options;
+
+export interface ImportConflict {
+  entry: ProductEntry;
+  reason: string;
+}
+
+export interface ImportDiff {
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: ImportConflict[];
+  removed: number; // produtos apagados no modo REPLACE
+}
+
+export interface ImportPlan {
+  products: Product[];
+  diff: ImportDiff;
+}
+
+const IMPORT_REASON = 'Importação';
+
+const normalizeName = (name: string) =>
+  (name || '').trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const emptyDiff = (): ImportDiff => ({ added: 0, updated: 0, unchanged: 0, conflicts: [], removed: 0 });
+
+/**
+ * Entrada simples: cada linha vira lote (ou soma ao lote igual do mesmo código de barras).
+ */
+const planAppend = (products: Product[], entries: ProductEntry[]): ImportPlan => {
+  const diff = emptyDiff();
+  const known = new Set(products.map(p => (p.barcode || '').trim()).filter(Boolean));
+  entries.forEach(entry => {
+    const barcode = (entry.barcode || '').trim();
+    if (barcode && known.has(barcode)) diff.updated++;
+    else diff.added++;
+    if (barcode) known.add(barcode);
+  });
+  return { products: mergeEntries(products, entries), diff };
+};
+
+/**
+ * Atualiza os lotes que batem com a chave escolhida e cria os demais.
+ * Linhas ambíguas não são aplicadas e voltam como conflito.
+ */
+const planUpsert = (products: Product[], entries: ImportEntry[], options: ImportOptions): ImportPlan => {
+  const diff = emptyDiff();
+  const byName = options.upsertKey.startsWith('NAME');
+  const withLocation = options.upsertKey.endsWith('LOCATION');
+  const productKey = (p: { name: string; barcode?: string }) => byName ? normalizeName(p.name) : (p.barcode || '').trim();
+
+  const next = [...products];
+  const createdIds = new Set<string>();
+  const seenRows = new Set<string>();
+
+  entries.forEach(entry => {
+    const key = productKey(entry);
+    if (!key) {
+      diff.conflicts.push({ entry, reason: byName ? 'Nome vazio' : 'Sem código de barras para comparar' });
+      return;
+    }
+
+    const rowKey = [key, entry.expiryDate, withLocation ? (entry.location || '') : ''].join('|');
+    if (seenRows.has(rowKey)) {
+      diff.conflicts.push({ entry, reason: 'Registro repetido na planilha' });
+      return;
+    }
+    seenRows.add(rowKey);
+
+    const matches = next.filter(p => productKey(p) === key);
+    if (matches.length > 1) {
+      diff.conflicts.push({ entry, reason: `${matches.length} produtos com a mesma chave` });
+      return;
+    }
+    if (matches.length === 0) {
+      const created = productFromEntry(entry, IMPORT_REASON);
+      createdIds.add(created.id);
+      next.push(created);
+      diff.added++;
+      return;
+    }
+
+    const product = matches[0];
+    const sameLots = product.lots.filter(l =>
+      l.expiryDate === entry.expiryDate && (!withLocation || (l.location || '') === (entry.location || ''))
+    );
+    if (sameLots.length > 1) {
+      diff.conflicts.push({ entry, reason: 'Mais de um lote com esta validade — inclua o local na chave' });
+      return;
+    }
+
+    const existingLot = sameLots[0];
+    const lot = existingLot || entryToLot(entry);
+    const lots = existingLot ? product.lots : [...product.lots, lot];
+    const movements = [...product.movements];
+
+    if (!existingLot || options.quantity === 'SUM') {
+      if (entry.quantity > 0) movements.push(receiveMovement(lot, entry.quantity, IMPORT_REASON));
+    } else if (entry.quantity !== existingLot.quantity) {
+      movements.push(createMovement({
+        lotId: lot.id,
+        type: MovementType.ADJUST,
+        quantity: entry.quantity - existingLot.quantity,
+        reason: IMPORT_REASON,
+        date: toISODate()
+      }));
+    }
+
+    const updated: Product = {
+      ...product,
+      name: byName ? product.name : entry.name,
+      // Categoria padrão (coluna não mapeada ou vazia) não apaga a do cadastro
+      category: entry.categoryIsFallback ? product.category : entry.category,
+      unitCost: entry.unitCost ?? product.unitCost,
+      salePrice: entry.salePrice ?? product.salePrice,
+      lots,
+      movements
+    };
+    const changed = lots !== product.lots
+      || movements.length !== product.movements.length
+      || updated.name !== product.name
+      || updated.category !== product.category
+      || updated.unitCost !== product.unitCost
+      || updated.salePrice !== product.salePrice;
+
+    if (!changed) {
+      diff.unchanged++;
+      return;
+    }
+    next[next.indexOf(product)] = withDerivedQuantities(updated);
+    if (createdIds.has(product.id)) diff.added++;
+    else diff.updated++;
+  });
+
+  return { products: next, diff };
+};
+
+/**
+ * Calcula o resultado da importação sem aplicá-lo, para exibir o resumo antes de confirmar.
+ */
+export const planImport = (products: Product[], entries: ImportEntry[], options: ImportOptions): ImportPlan => {
+  switch (options.mode) {
+    case 'APPEND':
+      return planAppend(products, entries);
+    case 'REPLACE': {
+      const plan = planAppend([], entries);
+      return { ...plan, diff: { ...plan.diff, removed: products.length } };
+    }
+    default:
+      return planUpsert(products, entries, options);
+  }
+};
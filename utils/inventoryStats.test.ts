@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExpiryStatus } from '../types';
+import { DEFAULT_EXPIRY_SETTINGS } from './expiryRules';
+import { computeInventoryStats } from './inventoryStats';
+import { productFromEntry } from './lots';
+
+const TODAY = new Date(2026, 0, 10);
+
+const products = [
+  productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-01-08', quantity: 3, location: 'Geladeira' }),
+  productFromEntry({ name: 'Queijo', category: 'laticínios ', expiryDate: '2026-01-12', quantity: 2, location: 'Geladeira' }),
+  productFromEntry({ name: 'Arroz', category: '', expiryDate: '2026-01-20', quantity: 5 }),
+  productFromEntry({ name: 'Feijão', category: 'Grãos', expiryDate: '2026-06-01', quantity: 4, location: 'Depósito' }),
+  productFromEntry({ name: 'Sal', category: 'Grãos', expiryDate: '2026-02-01', quantity: 0 })
+];
+
+describe('computeInventoryStats', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(TODAY);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('conta lotes e unidades por situação, ignorando lotes zerados', () => {
+    const stats = computeInventoryStats(products, DEFAULT_EXPIRY_SETTINGS, { horizonDays: 30, bucket: 'DAY' }, TODAY);
+    expect(stats.total).toEqual({ lots: 4, units: 14 });
+    expect(stats.byStatus[ExpiryStatus.EXPIRED]).toEqual({ lots: 1, units: 3 });
+    expect(stats.byStatus[ExpiryStatus.WARNING]).toEqual({ lots: 1, units: 2 });
+    expect(stats.byStatus[ExpiryStatus.SAFE]).toEqual({ lots: 2, units: 9 });
+  });
+
+  it('a linha do tempo cobre só o que vence dentro do horizonte', () => {
+    const stats = computeInventoryStats(products, DEFAULT_EXPIRY_SETTINGS, { horizonDays: 30, bucket: 'WEEK' }, TODAY);
+    expect(stats.timeline).toHaveLength(5);
+    expect(stats.timeline[4]).toMatchObject({ start: '2026-02-07', end: '2026-02-08' });
+    expect(stats.timeline[0]).toMatchObject({ start: '2026-01-10', totals: { lots: 1, units: 2 }, byCategory: { 'laticínios': { lots: 1, units: 2 } } });
+    expect(stats.timeline[1]).toMatchObject({ totals: { lots: 1, units: 5 }, byCategory: { 'Sem categoria': { lots: 1, units: 5 } } });
+    expect(stats.timeline.reduce((sum, b) => sum + b.totals.units, 0)).toBe(7);
+  });
+
+  it('agrupa categorias sem diferenciar maiúsculas e põe os piores primeiro', () => {
+    const stats = computeInventoryStats(products, DEFAULT_EXPIRY_SETTINGS, { horizonDays: 30, bucket: 'DAY' }, TODAY);
+    expect(stats.byCategory.map(s => s.name)).toEqual(['Laticínios', '', 'Grãos']);
+    expect(stats.byCategory[0].byStatus[ExpiryStatus.EXPIRED].units).toBe(3);
+    expect(stats.byCategory[0].byStatus[ExpiryStatus.WARNING].units).toBe(2);
+    expect(stats.byLocation.map(s => s.name)).toEqual(['Geladeira', '', 'Depósito']);
+  });
+});
@@ -0,0 +1,97 @@
+import { ExpiryBucket, ExpirySettings, ExpiryStatus, InventoryStats, Product, SectorStats, StatusBreakdown, StockTotals } from '../types';
+import { getLotExpiry, normalizeCategoryKey } from './expiryRules';
+import { flattenLots } from './lots';
+import { toISODate } from './helpers';
+
+export type TimelineBucketSize = 'DAY' | 'WEEK';
+
+export interface TimelineOptions {
+  horizonDays: number;
+  bucket: TimelineBucketSize;
+}
+
+export const TIMELINE_HORIZONS = [30, 60, 90];
+export const UNCATEGORIZED = 'Sem categoria';
+
+const emptyTotals = (): StockTotals => ({ lots: 0, units: 0 });
+
+const addTo = (totals: StockTotals, units: number) => {
+  totals.lots++;
+  totals.units += units;
+};
+
+const emptyBreakdown = (): StatusBreakdown => ({
+  [ExpiryStatus.EXPIRED]: emptyTotals(),
+  [ExpiryStatus.CRITICAL]: emptyTotals(),
+  [ExpiryStatus.WARNING]: emptyTotals(),
+  [ExpiryStatus.SAFE]: emptyTotals()
+});
+
+// Agrupa sem diferenciar maiúsculas; o nome exibido é o do primeiro lote encontrado
+const sectorFor = (sectors: Map<string, SectorStats>, name: string | undefined) => {
+  const display = (name || '').trim();
+  const key = normalizeCategoryKey(display);
+  if (!sectors.has(key)) sectors.set(key, { name: display, byStatus: emptyBreakdown() });
+  return sectors.get(key)!;
+};
+
+/** Mais vencidos primeiro; empate decidido por crítico e depois atenção. */
+const worstFirst = (sectors: Map<string, SectorStats>): SectorStats[] =>
+  [...sectors.values()].sort((a, b) =>
+    b.byStatus.EXPIRED.units - a.byStatus.EXPIRED.units ||
+    b.byStatus.CRITICAL.units - a.byStatus.CRITICAL.units ||
+    b.byStatus.WARNING.units - a.byStatus.WARNING.units ||
+    a.name.localeCompare(b.name)
+  );
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const buildBuckets = ({ horizonDays, bucket }: TimelineOptions, today: Date): ExpiryBucket[] => {
+  const size = bucket === 'WEEK' ? 7 : 1;
+  return Array.from({ length: Math.ceil(horizonDays / size) }, (_, i) => ({
+    start: toISODate(addDays(today, i * size)),
+    end: toISODate(addDays(today, Math.min(horizonDays, (i + 1) * size) - 1)),
+    totals: emptyTotals(),
+    byCategory: {}
+  }));
+};
+
+/**
+ * Estatísticas dos lotes ativos. A linha do tempo começa hoje e cobre só o
+ * que ainda vai vencer dentro do horizonte; vencidos ficam apenas em `byStatus`.
+ */
+export const computeInventoryStats = (
+  products: Product[],
+  settings: ExpirySettings,
+  timeline: TimelineOptions,
+  today: Date = new Date()
+): InventoryStats => {
+  const total = emptyTotals();
+  const byStatus = emptyBreakdown();
+  const buckets = buildBuckets(timeline, today);
+  const categories = new Map<string, SectorStats>();
+  const locations = new Map<string, SectorStats>();
+  const size = timeline.bucket === 'WEEK' ? 7 : 1;
+
+  flattenLots(products).forEach(({ product, lot }) => {
+    const { status, daysRemaining } = getLotExpiry(product, lot, settings);
+    addTo(total, lot.quantity);
+    addTo(byStatus[status], lot.quantity);
+    addTo(sectorFor(categories, product.category).byStatus[status], lot.quantity);
+    addTo(sectorFor(locations, lot.location).byStatus[status], lot.quantity);
+
+    if (daysRemaining < 0 || daysRemaining >= timeline.horizonDays) return;
+    const bucket = buckets[Math.floor(daysRemaining / size)];
+    const category = product.category?.trim() || UNCATEGORIZED;
+    addTo(bucket.totals, lot.quantity);
+    addTo(bucket.byCategory[category] ||= emptyTotals(), lot.quantity);
+  });
+
+  return {
+    total,
+    byStatus,
+    timeline: buckets,
+    byCategory: worstFirst(categories),
+    byLocation: worstFirst(locations)
+  };
+};
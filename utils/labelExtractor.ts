@@ -0,0 +1,120 @@
+import { parseExpiryDate } from './dateParser';
+
+/**
+ * Extração de validade, lote e código de barras do texto cru de um OCR.
+ * As regras seguem os rótulos brasileiros ("FAB: 01/24 VAL: 01/25", "LOTE 2403A")
+ * e os importados mais comuns ("EXP", "BEST BEFORE").
+ */
+
+type RawField = { value: string | null; confidence: number };
+
+export interface ExtractedLabel {
+  name: RawField;
+  expiryDate: RawField;
+  category: RawField;
+  barcode: RawField;
+  lotCode: RawField;
+}
+
+const EXPIRY_KEYWORDS = /\b(?:VAL(?:IDADE)?|VENC(?:IMENTO)?|V|EXP(?:IRY)?|BB|BEST BEFORE|CONSUMIR AT|USE BY)\b/g;
+const MANUFACTURE_KEYWORDS = /\b(?:FAB(?:RICA[CÇ][AÃ]O)?|F|MFG|PROD|EMB)\b/g;
+// "L" sozinho só vale seguido de ":" ou de dígito ("L2403A"), para não pegar "LEITE"
+const LOT_PATTERN = /(?:^|[\s:])(LOTE|LOT|L(?=\s*[:.]|\d))\s*[:.]?\s*([A-Z0-9][A-Z0-9\-/]{1,15})/;
+const MONTH_ABBREVIATIONS = 'JAN|FEV|FEB|MAR|ABR|APR|MAI|MAY|JUN|JUL|AGO|AUG|SET|SEP|OUT|OCT|NOV|DEZ|DEC';
+const DATE_PATTERN = new RegExp(
+  `(?<!\\d)(?:\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[/.\\-]\\d{1,2}[/.\\-]\\d{2,4}|\\d{1,2}[/.\\-]\\d{4}|\\d{1,2}[/.\\-]\\d{2}(?!\\d)|(?:\\d{1,2}[/.\\- ]?)?(?:${MONTH_ABBREVIATIONS})[/.\\- ]?\\d{2,4})`,
+  'g'
+);
+const BARCODE_PATTERN = /\d[\d ]{6,18}\d/g;
+
+// Quantos caracteres antes da data procurar a palavra que a identifica
+const KEYWORD_WINDOW = 24;
+
+// Peso de cada forma de achar o campo, multiplicado pela confiança do OCR
+const CONFIDENCE = {
+  labeledDate: 0.9,
+  unlabeledDate: 0.5,
+  lot: 0.8,
+  shortLot: 0.5,
+  barcode: 0.9,
+  name: 0.3
+};
+
+/**
+ * Dígito verificador de EAN-8, UPC-A, EAN-13 e GTIN-14.
+ */
+export const isValidGtin = (code: string): boolean => {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+  const sum = digits.reverse().reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+const lastKeywordIndex = (pattern: RegExp, text: string): number => {
+  let index = -1;
+  for (const match of text.matchAll(pattern)) index = match.index!;
+  return index;
+};
+
+const findExpiry = (text: string): RawField => {
+  const labeled: string[] = [];
+  const unlabeled: string[] = [];
+
+  for (const match of text.matchAll(DATE_PATTERN)) {
+    const parsed = parseExpiryDate(match[0].trim());
+    if (!parsed) continue;
+    const before = text.slice(Math.max(0, match.index! - KEYWORD_WINDOW), match.index!);
+    const expiryAt = lastKeywordIndex(EXPIRY_KEYWORDS, before);
+    const manufactureAt = lastKeywordIndex(MANUFACTURE_KEYWORDS, before);
+    if (expiryAt > manufactureAt) labeled.push(parsed.iso);
+    else if (manufactureAt < 0) unlabeled.push(parsed.iso);
+  }
+
+  if (labeled.length > 0) return { value: labeled[0], confidence: CONFIDENCE.labeledDate };
+  // Sem rótulo, a data mais distante é a validade (a de fabricação vem antes)
+  if (unlabeled.length > 0) return { value: [...unlabeled].sort().pop()!, confidence: CONFIDENCE.unlabeledDate };
+  return { value: null, confidence: 0 };
+};
+
+const findLot = (text: string): RawField => {
+  const match = text.match(LOT_PATTERN);
+  if (!match) return { value: null, confidence: 0 };
+  return { value: match[2], confidence: match[1] === 'L' ? CONFIDENCE.shortLot : CONFIDENCE.lot };
+};
+
+const findBarcode = (text: string): RawField => {
+  for (const match of text.matchAll(BARCODE_PATTERN)) {
+    const digits = match[0].replace(/ /g, '');
+    if (isValidGtin(digits)) return { value: digits, confidence: CONFIDENCE.barcode };
+  }
+  return { value: null, confidence: 0 };
+};
+
+// Primeira linha com cara de nome: letras, sem datas nem palavras de validade/lote
+const findName = (lines: string[]): RawField => {
+  const line = lines.find(l => {
+    const letters = l.replace(/[^A-Za-zÀ-ú]/g, '').length;
+    return letters >= 3 && letters / l.length > 0.6 && !/\d{1,2}[/.\-]\d{2}/.test(l) &&
+      !new RegExp(EXPIRY_KEYWORDS.source).test(l.toUpperCase()) && !LOT_PATTERN.test(l.toUpperCase());
+  });
+  return line ? { value: line, confidence: CONFIDENCE.name } : { value: null, confidence: 0 };
+};
+
+/**
+ * @param ocrConfidence confiança média do OCR (0 a 1), aplicada a todos os campos
+ */
+export const extractLabelFields = (text: string, ocrConfidence = 1): ExtractedLabel => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const flat = lines.join(' ').toUpperCase();
+  const scale = (field: RawField): RawField => ({ ...field, confidence: field.confidence * ocrConfidence });
+
+  return {
+    name: scale(findName(lines)),
+    expiryDate: scale(findExpiry(flat)),
+    // O OCR não tem como adivinhar a categoria; o catálogo ou o usuário completam
+    category: { value: null, confidence: 0 },
+    barcode: scale(findBarcode(flat)),
+    lotCode: scale(findLot(flat))
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Lot, MovementType } from '../types';
+import { applyLotEdits, ensureLedger, recordMovement, withDerivedQuantities } from './ledger';
+import { productFromEntry } from './lots';
+
+const lot = (id: string, quantity: number, expiryDate = '2026-05-01'): Lot => ({ id, expiryDate, quantity, receivedAt: '2026-01-10' });
+
+describe('withDerivedQuantities', () => {
+  it('calcula o saldo de cada lote pelo livro, sem ficar negativo', () => {
+    const product = withDerivedQuantities({
+      ...productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 0 }),
+      lots: [lot('l1', 99), lot('l2', 99)],
+      movements: [
+        { id: 'm1', lotId: 'l1', type: MovementType.RECEIVE, quantity: 10, reason: '', date: '2026-01-10', createdAt: 1 },
+        { id: 'm2', lotId: 'l1', type: MovementType.CONSUME, quantity: 4, reason: '', date: '2026-01-11', createdAt: 2 },
+        { id: 'm3', lotId: 'l1', type: MovementType.ADJUST, quantity: -1, reason: '', date: '2026-01-12', createdAt: 3 },
+        { id: 'm4', lotId: 'l2', type: MovementType.DONATE, quantity: 2, reason: '', date: '2026-01-12', createdAt: 4 }
+      ]
+    });
+    expect(product.lots.map(l => l.quantity)).toEqual([5, 0]);
+  });
+});
+
+describe('ensureLedger', () => {
+  it('cria um saldo inicial para cada lote com quantidade', () => {
+    const { movements } = ensureLedger({ id: 'p', name: 'Arroz', category: '', lots: [lot('l1', 3), lot('l2', 0)], createdAt: 0 } as any);
+    expect(movements).toHaveLength(1);
+    expect(movements[0]).toMatchObject({ lotId: 'l1', type: MovementType.RECEIVE, quantity: 3, date: '2026-01-10' });
+  });
+});
+
+describe('recordMovement', () => {
+  const product = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 5 });
+  const lotId = product.lots[0].id;
+
+  it('lança a baixa e recalcula o saldo', () => {
+    const next = recordMovement(product, { lotId, type: MovementType.CONSUME, quantity: 2, reason: 'Venda', date: '2026-02-01' });
+    expect(next.lots[0].quantity).toBe(3);
+    expect(next.movements).toHaveLength(2);
+  });
+
+  it('recusa baixa maior que o saldo e lote desconhecido', () => {
+    expect(() => recordMovement(product, { lotId, type: MovementType.CONSUME, quantity: 6, reason: '', date: '2026-02-01' })).toThrow();
+    expect(() => recordMovement(product, { lotId: 'x', type: MovementType.CONSUME, quantity: 1, reason: '', date: '2026-02-01' })).toThrow();
+  });
+});
+
+describe('applyLotEdits', () => {
+  const product = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 5 });
+  const [first] = product.lots;
+
+  it('gera entrada para lote novo e ajuste para quantidade alterada', () => {
+    const result = applyLotEdits(product, [{ ...first, quantity: 7 }, lot('novo', 4, '2026-09-01')]);
+    expect(result.lots.map(l => [l.id, l.quantity])).toEqual([[first.id, 7], ['novo', 4]]);
+    expect(result.movements.slice(1)).toMatchObject([
+      { lotId: first.id, type: MovementType.ADJUST, quantity: 2 },
+      { lotId: 'novo', type: MovementType.RECEIVE, quantity: 4 }
+    ]);
+  });
+
+  it('mantém o lote removido e seu histórico, zerado por um ajuste de fechamento', () => {
+    const withSecond = { ...product, ...applyLotEdits(product, [first, lot('l2', 3, '2026-09-01')]) };
+    const result = applyLotEdits(withSecond, [withSecond.lots[1]]);
+
+    expect(result.lots.map(l => [l.id, l.quantity])).toEqual([['l2', 3], [first.id, 0]]);
+    expect(result.movements.slice(0, withSecond.movements.length)).toEqual(withSecond.movements);
+    expect(result.movements[result.movements.length - 1]).toMatchObject({
+      lotId: first.id,
+      type: MovementType.ADJUST,
+      quantity: -5,
+      reason: 'Lote removido no cadastro'
+    });
+  });
+
+  it('não lança nada para lote já zerado que saiu do formulário', () => {
+    const zeroed = { ...product, ...applyLotEdits(product, [{ ...first, quantity: 0 }, lot('l2', 1)]) };
+    const result = applyLotEdits(zeroed, [zeroed.lots[1]]);
+    expect(result.movements).toEqual(zeroed.movements);
+    expect(result.lots.map(l => l.id)).toEqual(['l2', first.id]);
+  });
+});
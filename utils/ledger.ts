@@ -0,0 +1,119 @@
+import { Lot, MovementType, Product, StockMovement } from '../types';
+import { generateId, toISODate } from './helpers';
+
+export const MOVEMENT_LABELS: Record<MovementType, string> = {
+  [MovementType.RECEIVE]: 'Entrada',
+  [MovementType.CONSUME]: 'Venda / consumo',
+  [MovementType.DISCARD_EXPIRED]: 'Descarte por vencimento',
+  [MovementType.DONATE]: 'Doação',
+  [MovementType.ADJUST]: 'Ajuste'
+};
+
+export type MovementInput = Omit<StockMovement, 'id' | 'createdAt'>;
+
+/**
+ * Efeito do lançamento no saldo do lote.
+ */
+export const movementDelta = (movement: Pick<StockMovement, 'type' | 'quantity'>): number => {
+  switch (movement.type) {
+    case MovementType.RECEIVE: return movement.quantity;
+    case MovementType.ADJUST: return movement.quantity;
+    default: return -movement.quantity;
+  }
+};
+
+export const createMovement = (input: MovementInput): StockMovement => ({
+  ...input,
+  id: generateId(),
+  createdAt: Date.now()
+});
+
+/**
+ * Recalcula a quantidade de cada lote a partir do livro de movimentações.
+ */
+export const withDerivedQuantities = (product: Product): Product => {
+  const totals = new Map<string, number>();
+  product.movements.forEach(m => totals.set(m.lotId, (totals.get(m.lotId) || 0) + movementDelta(m)));
+  return {
+    ...product,
+    lots: product.lots.map(lot => ({ ...lot, quantity: Math.max(0, totals.get(lot.id) || 0) }))
+  };
+};
+
+/**
+ * Produtos anteriores ao livro ganham uma entrada de "saldo inicial" por lote.
+ */
+export const ensureLedger = (product: Product): Product => {
+  if (Array.isArray(product.movements)) return product;
+  return {
+    ...product,
+    movements: product.lots
+      .filter(lot => lot.quantity > 0)
+      .map(lot => createMovement({
+        lotId: lot.id,
+        type: MovementType.RECEIVE,
+        quantity: lot.quantity,
+        reason: 'Saldo inicial',
+        date: lot.receivedAt
+      }))
+  };
+};
+
+export const receiveMovement = (lot: Lot, quantity: number, reason = 'Recebimento'): StockMovement =>
+  createMovement({ lotId: lot.id, type: MovementType.RECEIVE, quantity, reason, date: toISODate() });
+
+/**
+ * Lança uma movimentação no produto. Baixas não podem exceder o saldo do lote.
+ */
+export const recordMovement = (product: Product, input: MovementInput): Product => {
+  const lot = product.lots.find(l => l.id === input.lotId);
+  if (!lot) throw new Error('Lote não encontrado.');
+  if (movementDelta(input) < 0 && -movementDelta(input) > lot.quantity) {
+    throw new Error(`Quantidade maior que o saldo do lote (${lot.quantity}).`);
+  }
+  return withDerivedQuantities({ ...product, movements: [...product.movements, createMovement(input)] });
+};
+
+/**
+ * Converte os lotes editados no formulário em lançamentos: lotes novos geram
+ * entrada e quantidades alteradas geram ajuste. Lotes tirados do formulário
+ * continuam no produto, zerados por um ajuste de fechamento, com o histórico.
+ */
+export const applyLotEdits = (existing: Product | null, lots: Lot[]): Pick<Product, 'lots' | 'movements'> => {
+  const previous = new Map((existing?.lots || []).map(l => [l.id, l]));
+  const editedIds = new Set(lots.map(l => l.id));
+  const closed = (existing?.lots || []).filter(l => !editedIds.has(l.id));
+  const movements = [...(existing?.movements || [])];
+
+  closed.forEach(lot => {
+    if (lot.quantity <= 0) return;
+    movements.push(createMovement({
+      lotId: lot.id,
+      type: MovementType.ADJUST,
+      quantity: -lot.quantity,
+      reason: 'Lote removido no cadastro',
+      date: toISODate()
+    }));
+  });
+
+  lots.forEach(lot => {
+    const before = previous.get(lot.id);
+    if (!before) {
+      if (lot.quantity > 0) movements.push(receiveMovement(lot, lot.quantity, 'Cadastro manual'));
+      return;
+    }
+    const delta = lot.quantity - before.quantity;
+    if (delta !== 0) {
+      movements.push(createMovement({
+        lotId: lot.id,
+        type: MovementType.ADJUST,
+        quantity: delta,
+        reason: 'Correção no cadastro',
+        date: toISODate()
+      }));
+    }
+  });
+
+  const derived = withDerivedQuantities({ ...(existing as Product), lots: [...lots, ...closed], movements });
+  return { lots: derived.lots, movements };
+};
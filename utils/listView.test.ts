@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ExpiryStatus } from '../types';
+import { DEFAULT_LIST_VIEW, ListView, hasListView, parseListView, serializeListView } from './listView';
+
+const view = (filter: Partial<ListView['filter']> = {}, sort: Partial<ListView['sort']> = {}): ListView => ({
+  filter: { term: '', status: 'ALL', category: null, location: null, expiryRange: null, daysRange: null, quantityRange: null, ...filter },
+  sort: { ...DEFAULT_LIST_VIEW.sort, ...sort }
+});
+
+describe('parseListView / serializeListView', () => {
+  it('a visão padrão não deixa nada na URL', () => {
+    expect(serializeListView(DEFAULT_LIST_VIEW)).toBe('');
+    expect(parseListView('')).toEqual(view());
+  });
+
+  it('volta igual depois de ir para a URL e voltar', () => {
+    const full = view(
+      {
+        term: 'leite integral',
+        status: ExpiryStatus.WARNING,
+        category: 'Laticínios',
+        location: '',
+        expiryRange: { from: '2026-01-01', to: '2026-03-31' },
+        daysRange: { min: 0, max: 15 },
+        quantityRange: { min: 2, max: 10 }
+      },
+      { key: 'QUANTITY', descending: true }
+    );
+    expect(parseListView(serializeListView(full))).toEqual(full);
+  });
+
+  it('faixas com uma ponta só continuam abertas na outra', () => {
+    const open = view({ expiryRange: { from: undefined, to: '2026-03-31' }, quantityRange: { min: undefined, max: 0 } });
+    expect(parseListView(serializeListView(open))).toEqual(open);
+  });
+
+  it('preserva parâmetros que não são da lista', () => {
+    const search = serializeListView(view({ term: 'arroz' }), 'produtos=a,b&busca=velha');
+    expect(new URLSearchParams(search).get('produtos')).toBe('a,b');
+    expect(parseListView(search).filter.term).toBe('arroz');
+    expect(hasListView('produtos=a,b')).toBe(false);
+  });
+
+  it('ignora valores inválidos em vez de esvaziar a lista', () => {
+    expect(parseListView('situacao=QUALQUER&de=31/12/2026&qtdMin=-1&dias=abc&ordem=preco')).toEqual(view());
+  });
+});
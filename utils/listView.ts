@@ -0,0 +1,114 @@
+import { ExpiryStatus } from '../types';
+import { DEFAULT_PRODUCT_SORT, EMPTY_PRODUCT_FILTER, ProductFilter, ProductSort, ProductSortKey } from './productFilters';
+
+/** Estado da lista de itens que vai para a URL e para as visões salvas. */
+export interface ListView {
+  filter: ProductFilter;
+  sort: ProductSort;
+}
+
+export const DEFAULT_LIST_VIEW: ListView = { filter: EMPTY_PRODUCT_FILTER, sort: DEFAULT_PRODUCT_SORT };
+
+// Parâmetros da URL; o "produtos" das notificações é um recorte à parte e não entra aqui
+const PARAMS = {
+  term: 'busca',
+  status: 'situacao',
+  category: 'categoria',
+  location: 'local',
+  from: 'de',
+  to: 'ate',
+  days: 'dias',
+  minQuantity: 'qtdMin',
+  maxQuantity: 'qtdMax',
+  sort: 'ordem',
+  descending: 'desc'
+};
+
+const SORT_PARAMS: Record<ProductSortKey, string> = {
+  EXPIRY: 'vencimento',
+  NAME: 'nome',
+  CATEGORY: 'categoria',
+  QUANTITY: 'quantidade',
+  CREATED: 'cadastro'
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const readNumber = (params: URLSearchParams, name: string): number | undefined => {
+  const value = params.get(name);
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const readDate = (params: URLSearchParams, name: string): string | undefined => {
+  const value = params.get(name);
+  return value && ISO_DATE.test(value) ? value : undefined;
+};
+
+/**
+ * Lê a visão da query string. Valores inválidos (link editado à mão, versão
+ * antiga) são ignorados em vez de esvaziar a lista.
+ */
+export const parseListView = (search: string): ListView => {
+  const params = new URLSearchParams(search);
+  const status = params.get(PARAMS.status);
+  const from = readDate(params, PARAMS.from);
+  const to = readDate(params, PARAMS.to);
+  const days = readNumber(params, PARAMS.days);
+  const minQuantity = readNumber(params, PARAMS.minQuantity);
+  const maxQuantity = readNumber(params, PARAMS.maxQuantity);
+  const sortKey = (Object.keys(SORT_PARAMS) as ProductSortKey[]).find(key => SORT_PARAMS[key] === params.get(PARAMS.sort));
+
+  return {
+    filter: {
+      term: params.get(PARAMS.term) || '',
+      status: Object.values(ExpiryStatus).includes(status as ExpiryStatus) ? status as ExpiryStatus : 'ALL',
+      // Parâmetro presente e vazio: itens sem categoria/local
+      category: params.get(PARAMS.category),
+      location: params.get(PARAMS.location),
+      expiryRange: from || to ? { from, to } : null,
+      daysRange: days !== undefined ? { min: 0, max: Math.floor(days) } : null,
+      quantityRange: minQuantity !== undefined || maxQuantity !== undefined ? { min: minQuantity, max: maxQuantity } : null
+    },
+    sort: {
+      key: sortKey || DEFAULT_PRODUCT_SORT.key,
+      descending: params.get(PARAMS.descending) === '1'
+    }
+  };
+};
+
+/**
+ * Grava a visão sobre uma query string existente, preservando parâmetros que
+ * não são da lista. Só o que difere do padrão vai para a URL.
+ */
+export const serializeListView = (view: ListView, base = ''): string => {
+  const params = new URLSearchParams(base);
+  Object.values(PARAMS).forEach(name => params.delete(name));
+
+  const { filter, sort } = view;
+  if (filter.term.trim()) params.set(PARAMS.term, filter.term);
+  if (filter.status !== 'ALL') params.set(PARAMS.status, filter.status);
+  if (filter.category != null) params.set(PARAMS.category, filter.category);
+  if (filter.location != null) params.set(PARAMS.location, filter.location);
+  if (filter.expiryRange?.from) params.set(PARAMS.from, filter.expiryRange.from);
+  if (filter.expiryRange?.to) params.set(PARAMS.to, filter.expiryRange.to);
+  if (filter.daysRange) params.set(PARAMS.days, String(filter.daysRange.max));
+  if (filter.quantityRange?.min != null) params.set(PARAMS.minQuantity, String(filter.quantityRange.min));
+  if (filter.quantityRange?.max != null) params.set(PARAMS.maxQuantity, String(filter.quantityRange.max));
+  if (sort.key !== DEFAULT_PRODUCT_SORT.key) params.set(PARAMS.sort, SORT_PARAMS[sort.key]);
+  if (sort.descending) params.set(PARAMS.descending, '1');
+
+  return params.toString();
+};
+
+export const hasListView = (search: string): boolean => {
+  const params = new URLSearchParams(search);
+  return Object.values(PARAMS).some(name => params.has(name));
+};
+
+/** Troca a query string da página sem criar entrada no histórico do navegador. */
+export const replaceSearch = (search: string) => {
+  if (search === window.location.search.replace(/^\?/, '')) return;
+  window.history.replaceState(null, '', window.location.pathname + (search ? `?${search}` : ''));
+};
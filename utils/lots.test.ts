@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { MovementType } from '../types';
+import { getEarliestLot, mergeEntries, migrateProduct, productFromEntry, sortLotsFEFO } from './lots';
+
+describe('migrateProduct', () => {
+  it('converte o registro antigo em um produto com um lote e saldo inicial', () => {
+    const product = migrateProduct({ id: 'p1', name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: '4', createdAt: Date.UTC(2026, 0, 10, 12) });
+    expect(product.lots).toMatchObject([{ expiryDate: '2026-05-01', quantity: 4, location: '', receivedAt: '2026-01-10' }]);
+    expect(product.movements).toMatchObject([{ lotId: product.lots[0].id, type: MovementType.RECEIVE, quantity: 4 }]);
+    expect(product).not.toHaveProperty('expiryDate');
+  });
+
+  it('mantém produtos que já estão no modelo de lotes', () => {
+    const current = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 4 });
+    expect(migrateProduct(current)).toEqual(current);
+  });
+});
+
+describe('FEFO', () => {
+  it('o lote com saldo que vence primeiro vem antes', () => {
+    const product = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 4 });
+    const lots = [
+      { id: 'a', expiryDate: '2026-06-01', quantity: 1, receivedAt: '2026-01-01' },
+      { id: 'b', expiryDate: '2026-03-01', quantity: 0, receivedAt: '2026-01-01' },
+      { id: 'c', expiryDate: '2026-04-01', quantity: 2, receivedAt: '2026-01-01' }
+    ];
+    expect(sortLotsFEFO(lots).map(l => l.id)).toEqual(['b', 'c', 'a']);
+    expect(getEarliestLot({ ...product, lots })?.id).toBe('c');
+  });
+});
+
+describe('mergeEntries', () => {
+  const leite = productFromEntry({ name: 'Leite', category: 'Laticínios', barcode: '789', expiryDate: '2026-05-01', quantity: 4, unitCost: 3 });
+
+  it('soma ao lote com a mesma validade e local', () => {
+    const [merged] = mergeEntries([leite], [{ name: 'Leite', category: '', barcode: '789', expiryDate: '2026-05-01', quantity: 2 }]);
+    expect(merged.lots.map(l => l.quantity)).toEqual([6]);
+    expect(merged.movements).toHaveLength(2);
+    expect(merged.unitCost).toBe(3);
+  });
+
+  it('cria um lote novo para outra validade e atualiza o custo', () => {
+    const [merged] = mergeEntries([leite], [{ name: 'Leite', category: '', barcode: '789', expiryDate: '2026-07-01', quantity: 2, unitCost: 4 }]);
+    expect(merged.lots.map(l => [l.expiryDate, l.quantity])).toEqual([['2026-05-01', 4], ['2026-07-01', 2]]);
+    expect(merged.unitCost).toBe(4);
+  });
+
+  it('guarda o lote impresso e separa lotes com códigos diferentes', () => {
+    const scanned = { name: 'Leite', category: '', barcode: '789', expiryDate: '2026-07-01', quantity: 1, lotCode: 'L2403A' };
+    const [first] = mergeEntries([leite], [scanned]);
+    expect(first.lots[1]).toMatchObject({ expiryDate: '2026-07-01', lotCode: 'L2403A' });
+
+    const [again] = mergeEntries([first], [scanned, { ...scanned, lotCode: 'L2403B' }]);
+    expect(again.lots.map(l => [l.lotCode, l.quantity])).toEqual([[undefined, 4], ['L2403A', 2], ['L2403B', 1]]);
+  });
+
+  it('sem código de barras vira um produto novo', () => {
+    const result = mergeEntries([leite], [{ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 1 }]);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toBe(leite);
+  });
+});
@@ -0,0 +1,120 @@
+import { Lot, Product, ProductEntry } from '../types';
+import { generateId, toISODate } from './helpers';
+import { ensureLedger, receiveMovement, withDerivedQuantities } from './ledger';
+
+/**
+ * Converte registros antigos (uma única data por produto) para o modelo de lotes.
+ * Cada registro legado vira um produto com exatamente um lote.
+ */
+export const migrateProduct = (raw: any): Product => {
+  if (Array.isArray(raw.lots)) return ensureLedger(raw as Product);
+
+  const { expiryDate, quantity, location, ...rest } = raw;
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+  return ensureLedger({
+    ...rest,
+    createdAt,
+    lots: expiryDate ? [{
+      id: generateId(),
+      expiryDate,
+      quantity: Number(quantity) || 0,
+      location: location || '',
+      receivedAt: toISODate(new Date(createdAt))
+    }] : []
+  } as Product);
+};
+
+/**
+ * Ordena os lotes pelo vencimento mais próximo primeiro (FEFO).
+ */
+export const sortLotsFEFO = (lots: Lot[]): Lot[] =>
+  [...lots].sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
+
+/**
+ * Lotes com saldo. Lotes zerados ficam no produto apenas como histórico.
+ */
+export const getActiveLots = (product: Product): Lot[] =>
+  product.lots.filter(lot => lot.quantity > 0);
+
+export const getEarliestLot = (product: Product): Lot | undefined =>
+  sortLotsFEFO(getActiveLots(product))[0];
+
+export const getTotalQuantity = (product: Product): number =>
+  product.lots.reduce((sum, lot) => sum + (lot.quantity || 0), 0);
+
+/**
+ * Lista plana de pares produto/lote com saldo, útil para contagens por lote.
+ */
+export const flattenLots = (products: Product[]): { product: Product; lot: Lot }[] =>
+  products.flatMap(product => getActiveLots(product).map(lot => ({ product, lot })));
+
+export const entryToLot = (entry: ProductEntry): Lot => ({
+  id: generateId(),
+  expiryDate: entry.expiryDate,
+  quantity: entry.quantity,
+  location: entry.location || '',
+  receivedAt: toISODate(),
+  ...(entry.lotCode ? { lotCode: entry.lotCode } : {})
+});
+
+/**
+ * Novo produto com um único lote, já com a entrada registrada no livro.
+ */
+export const productFromEntry = (entry: ProductEntry, reason?: string): Product => {
+  const lot = entryToLot(entry);
+  return withDerivedQuantities({
+    id: generateId(),
+    name: entry.name,
+    category: entry.category,
+    barcode: entry.barcode || '',
+    unitCost: entry.unitCost,
+    salePrice: entry.salePrice,
+    lots: [lot],
+    movements: entry.quantity > 0 ? [receiveMovement(lot, entry.quantity, reason)] : [],
+    createdAt: Date.now()
+  });
+};
+
+const findProductForEntry = (products: Product[], entry: ProductEntry) => {
+  const barcode = (entry.barcode || '').trim();
+  if (!barcode) return undefined;
+  return products.find(p => (p.barcode || '').trim() === barcode);
+};
+
+/**
+ * Adiciona registros ao estoque. Quando o código de barras já existe, o registro
+ * vira um novo lote do produto (ou soma ao lote com mesma validade, local e lote impresso).
+ */
+export const mergeEntries = (products: Product[], entries: ProductEntry[]): Product[] => {
+  const next = [...products];
+
+  entries.forEach(entry => {
+    const existing = findProductForEntry(next, entry);
+    if (!existing) {
+      next.push(productFromEntry(entry));
+      return;
+    }
+
+    const sameLot = existing.lots.find(l =>
+      l.expiryDate === entry.expiryDate &&
+      (l.location || '') === (entry.location || '') &&
+      (l.lotCode || '') === (entry.lotCode || '')
+    );
+    const lot = sameLot || entryToLot(entry);
+    const lots = sameLot ? existing.lots : [...existing.lots, lot];
+    const movements = entry.quantity > 0
+      ? [...existing.movements, receiveMovement(lot, entry.quantity)]
+      : existing.movements;
+
+    // Custo e preço mais recentes prevalecem
+    next[next.indexOf(existing)] = withDerivedQuantities({
+      ...existing,
+      unitCost: entry.unitCost ?? existing.unitCost,
+      salePrice: entry.salePrice ?? existing.salePrice,
+      lots,
+      movements
+    });
+  });
+
+  return next;
+};
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppSettings, ExpiryStatus } from '../types';
+import { productFromEntry } from './lots';
+import { EMPTY_NOTIFICATION_STATE, isQuietHour, planNotifications } from './notifications';
+import { DEFAULT_SETTINGS } from './settings';
+
+// 10/01/2026, 9h: depois do resumo das 8h e fora do horário silencioso
+const NOW = new Date(2026, 0, 10, 9);
+
+const settings = (notifications: Partial<AppSettings['notifications']> = {}): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  notifications: { ...DEFAULT_SETTINGS.notifications, enabled: true, ...notifications }
+});
+
+const leite = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-01-12', quantity: 5 });
+const queijo = productFromEntry({ name: 'Queijo', category: 'Laticínios', expiryDate: '2026-01-05', quantity: 1 });
+const arroz = productFromEntry({ name: 'Arroz', category: 'Grãos', expiryDate: '2026-09-01', quantity: 2 });
+
+describe('isQuietHour', () => {
+  it('trata faixas que atravessam a meia-noite', () => {
+    const quiet = { start: 22, end: 7 };
+    expect(isQuietHour(quiet, new Date(2026, 0, 10, 23))).toBe(true);
+    expect(isQuietHour(quiet, new Date(2026, 0, 10, 6))).toBe(true);
+    expect(isQuietHour(quiet, new Date(2026, 0, 10, 7))).toBe(false);
+    expect(isQuietHour({ start: 8, end: 8 }, new Date(2026, 0, 10, 8))).toBe(false);
+  });
+});
+
+describe('planNotifications', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('resume o que venceu e o que entrou em atenção, uma vez por dia', () => {
+    const first = planNotifications([leite, queijo, arroz], settings(), EMPTY_NOTIFICATION_STATE, NOW);
+    expect(first.notifications).toEqual([{
+      tag: 'digest',
+      title: '2 lote(s) pedem atenção',
+      body: 'Vencidos: Queijo\nVencendo: Leite',
+      productIds: [queijo.id, leite.id]
+    }]);
+    expect(first.state.lastDigestDate).toBe('2026-01-10');
+    expect(first.state.statuses[`${arroz.id}:${arroz.lots[0].id}`]).toBe(ExpiryStatus.SAFE);
+
+    const later = new Date(2026, 0, 10, 15);
+    expect(planNotifications([leite, queijo, arroz], settings(), first.state, later).notifications).toEqual([]);
+  });
+
+  it('no dia seguinte avisa só do que mudou', () => {
+    const { state } = planNotifications([leite, queijo, arroz], settings(), EMPTY_NOTIFICATION_STATE, NOW);
+    const nextDay = new Date(2026, 0, 11, 9);
+    vi.setSystemTime(nextDay);
+    expect(planNotifications([leite, queijo, arroz], settings(), state, nextDay).notifications).toEqual([]);
+  });
+
+  it('não envia nada no horário silencioso nem mexe no estado', () => {
+    const night = new Date(2026, 0, 10, 23);
+    const result = planNotifications([leite], settings(), EMPTY_NOTIFICATION_STATE, night);
+    expect(result).toEqual({ notifications: [], state: EMPTY_NOTIFICATION_STATE });
+  });
+
+  it('respeita as categorias escolhidas', () => {
+    const { notifications } = planNotifications([leite, queijo], settings({ categories: ['grãos'] }), EMPTY_NOTIFICATION_STATE, NOW);
+    expect(notifications).toEqual([]);
+  });
+
+  it('avisa o item acompanhado uma vez por validade', () => {
+    const config = settings({ itemAlerts: { [leite.id]: 3 } });
+    const early = new Date(2026, 0, 10, 7, 30); // antes do resumo
+    const first = planNotifications([leite], config, EMPTY_NOTIFICATION_STATE, early);
+    expect(first.notifications).toEqual([{
+      tag: `item-${leite.id}:${leite.lots[0].id}`,
+      title: 'Leite vence em 2 dia(s)',
+      body: 'Confira o lote no estoque.',
+      productIds: [leite.id]
+    }]);
+    expect(first.state.lastDigestDate).toBeNull();
+    expect(planNotifications([leite], config, first.state, early).notifications).toEqual([]);
+  });
+});
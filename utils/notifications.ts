@@ -0,0 +1,113 @@
+import { AppSettings, ExpiryStatus, NotificationSettings, Product, QuietHours } from '../types';
+import { getLotExpiry, normalizeCategoryKey } from './expiryRules';
+import { getActiveLots } from './lots';
+import { toISODate } from './helpers';
+
+/** O que já foi avisado; é a base para avisar só do que mudou. */
+export interface NotificationState {
+  lastDigestDate: string | null;           // ISO do último resumo enviado
+  statuses: Record<string, ExpiryStatus>;  // produto:lote -> situação no último resumo
+  itemAlertsSent: Record<string, string>;  // produto:lote -> validade já avisada
+}
+
+export interface PendingNotification {
+  tag: string; // notificação com a mesma tag substitui a anterior
+  title: string;
+  body: string;
+  productIds: string[];
+}
+
+export const EMPTY_NOTIFICATION_STATE: NotificationState = { lastDigestDate: null, statuses: {}, itemAlertsSent: {} };
+
+// Quantos nomes entram no texto do resumo antes de virar "e mais N"
+const DIGEST_NAME_LIMIT = 3;
+
+const ALERT_LEVELS = [ExpiryStatus.WARNING, ExpiryStatus.CRITICAL];
+
+export const isQuietHour = (quiet: QuietHours | null, date: Date): boolean => {
+  if (!quiet || quiet.start === quiet.end) return false;
+  const hour = date.getHours();
+  return quiet.start < quiet.end
+    ? hour >= quiet.start && hour < quiet.end
+    : hour >= quiet.start || hour < quiet.end;
+};
+
+export const categoryAlerts = (settings: NotificationSettings, category: string): boolean =>
+  settings.categories.length === 0 ||
+  settings.categories.some(c => normalizeCategoryKey(c) === normalizeCategoryKey(category));
+
+const lotKey = (productId: string, lotId: string) => `${productId}:${lotId}`;
+
+// Entrou em alerta vindo de "seguro", ou venceu desde o último resumo
+const hasEntered = (status: ExpiryStatus, previous: ExpiryStatus | undefined) =>
+  status === ExpiryStatus.EXPIRED
+    ? previous !== ExpiryStatus.EXPIRED
+    : ALERT_LEVELS.includes(status) && (!previous || previous === ExpiryStatus.SAFE);
+
+const listNames = (names: string[]) => {
+  const unique = [...new Set(names)];
+  const shown = unique.slice(0, DIGEST_NAME_LIMIT).join(', ');
+  return unique.length > DIGEST_NAME_LIMIT ? `${shown} e mais ${unique.length - DIGEST_NAME_LIMIT}` : shown;
+};
+
+/**
+ * Decide o que avisar agora. Durante o horário silencioso nada é enviado e o
+ * estado não muda, então as mudanças se acumulam para o próximo resumo.
+ */
+export const planNotifications = (
+  products: Product[],
+  settings: AppSettings,
+  state: NotificationState,
+  now: Date = new Date()
+): { notifications: PendingNotification[]; state: NotificationState } => {
+  const config = settings.notifications;
+  if (!config.enabled || isQuietHour(config.quietHours, now)) return { notifications: [], state };
+
+  const today = toISODate(now);
+  const digestDue = state.lastDigestDate !== today && now.getHours() >= config.digestHour;
+  const notifications: PendingNotification[] = [];
+  const statuses: Record<string, ExpiryStatus> = {};
+  const itemAlertsSent = { ...state.itemAlertsSent };
+  const expired: Product[] = [];
+  const warning: Product[] = [];
+
+  products.filter(p => categoryAlerts(config, p.category)).forEach(product => {
+    getActiveLots(product).forEach(lot => {
+      const key = lotKey(product.id, lot.id);
+      const { status, daysRemaining } = getLotExpiry(product, lot, settings.expiry);
+      statuses[key] = status;
+
+      if (hasEntered(status, state.statuses[key])) {
+        (status === ExpiryStatus.EXPIRED ? expired : warning).push(product);
+      }
+
+      const alertDays = config.itemAlerts[product.id];
+      if (alertDays !== undefined && daysRemaining >= 0 && daysRemaining <= alertDays && itemAlertsSent[key] !== lot.expiryDate) {
+        itemAlertsSent[key] = lot.expiryDate;
+        notifications.push({
+          tag: `item-${key}`,
+          title: daysRemaining === 0 ? `${product.name} vence hoje` : `${product.name} vence em ${daysRemaining} dia(s)`,
+          body: lot.location ? `Lote em ${lot.location}` : 'Confira o lote no estoque.',
+          productIds: [product.id]
+        });
+      }
+    });
+  });
+
+  if (!digestDue) return { notifications, state: { ...state, itemAlertsSent } };
+
+  if (expired.length > 0 || warning.length > 0) {
+    const parts = [
+      expired.length > 0 ? `Vencidos: ${listNames(expired.map(p => p.name))}` : '',
+      warning.length > 0 ? `Vencendo: ${listNames(warning.map(p => p.name))}` : ''
+    ].filter(Boolean);
+    notifications.unshift({
+      tag: 'digest',
+      title: `${expired.length + warning.length} lote(s) pedem atenção`,
+      body: parts.join('\n'),
+      productIds: [...new Set([...expired, ...warning].map(p => p.id))]
+    });
+  }
+
+  return { notifications, state: { lastDigestDate: today, statuses, itemAlertsSent } };
+};
@@ -0,0 +1,156 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { ExpirySettings, ExpiryStatus, Lot, Product } from '../types';
+import { getLotExpiry } from './expiryRules';
+import { formatDate, toISODate } from './helpers';
+import { ProductFilter, ProductGroup, STATUS_LABELS } from './productFilters';
+
+export type ReportGrouping = 'LOCATION' | 'CATEGORY';
+
+export interface ReportPreset {
+  id: string;
+  label: string;
+  filter: Pick<ProductFilter, 'status' | 'daysRange'>;
+}
+
+export const REPORT_PRESETS: ReportPreset[] = [
+  { id: 'NEXT_7', label: 'Vencem em 7 dias', filter: { status: 'ALL', daysRange: { min: 0, max: 7 } } },
+  { id: 'NEXT_15', label: 'Vencem em 15 dias', filter: { status: 'ALL', daysRange: { min: 0, max: 15 } } },
+  { id: 'NEXT_30', label: 'Vencem em 30 dias', filter: { status: 'ALL', daysRange: { min: 0, max: 30 } } },
+  { id: 'EXPIRED', label: 'Já vencidos', filter: { status: ExpiryStatus.EXPIRED } }
+];
+
+export const GROUPING_LABELS: Record<ReportGrouping, string> = {
+  LOCATION: 'Local',
+  CATEGORY: 'Categoria'
+};
+
+export interface ReportRow {
+  product: Product;
+  lot: Lot;
+  status: ExpiryStatus;
+  daysRemaining: number;
+}
+
+export interface ReportSection {
+  title: string;
+  rows: ReportRow[];
+}
+
+const groupTitle = (row: ReportRow, grouping: ReportGrouping) =>
+  (grouping === 'LOCATION' ? row.lot.location : row.product.category)?.trim() ||
+  (grouping === 'LOCATION' ? 'Sem local' : 'Sem categoria');
+
+/**
+ * Uma linha por lote, agrupada por local (do lote) ou categoria (do produto).
+ * Seções em ordem alfabética; dentro delas, o que vence primeiro vem antes.
+ */
+export const buildReportSections = (groups: ProductGroup[], settings: ExpirySettings, grouping: ReportGrouping): ReportSection[] => {
+  const sections = new Map<string, ReportRow[]>();
+  groups.forEach(({ product, lots }) => lots.forEach(lot => {
+    const { status, daysRemaining } = getLotExpiry(product, lot, settings);
+    const row = { product, lot, status, daysRemaining };
+    const title = groupTitle(row, grouping);
+    sections.set(title, [...(sections.get(title) || []), row]);
+  }));
+  return [...sections.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([title, rows]) => ({
+      title,
+      rows: rows.sort((a, b) => a.lot.expiryDate.localeCompare(b.lot.expiryDate) || a.product.name.localeCompare(b.product.name))
+    }));
+};
+
+const daysLabel = (row: ReportRow) =>
+  row.status === ExpiryStatus.EXPIRED ? `há ${Math.abs(row.daysRemaining)}` : row.daysRemaining === 0 ? 'hoje' : String(row.daysRemaining);
+
+// Cores das situações, as mesmas do painel (rose/orange/amber/emerald-500)
+const STATUS_COLORS: Record<ExpiryStatus, [number, number, number]> = {
+  [ExpiryStatus.EXPIRED]: [244, 63, 94],
+  [ExpiryStatus.CRITICAL]: [249, 115, 22],
+  [ExpiryStatus.WARNING]: [245, 158, 11],
+  [ExpiryStatus.SAFE]: [16, 185, 129]
+};
+
+const CHECKBOX_SIZE = 3.5; // mm
+
+/** Gera o PDF para impressão, com uma coluna de marcação para conferência no papel. */
+export const exportExpiryReport = (
+  groups: ProductGroup[],
+  settings: ExpirySettings,
+  grouping: ReportGrouping,
+  subtitle: string
+) => {
+  const sections = buildReportSections(groups, settings, grouping);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const otherColumn = grouping === 'LOCATION' ? 'Categoria' : 'Local';
+  const headerRows = new Set<number>();
+  const statusByRow = new Map<number, ExpiryStatus>();
+
+  const body: RowInput[] = [];
+  sections.forEach(section => {
+    headerRows.add(body.length);
+    body.push([{
+      content: `${section.title} (${section.rows.length})`,
+      colSpan: 7,
+      styles: { fontStyle: 'bold', fillColor: [238, 242, 255], textColor: [67, 56, 202] }
+    }]);
+    section.rows.forEach(row => {
+      statusByRow.set(body.length, row.status);
+      body.push([
+        '',
+        row.product.name + (row.product.barcode ? `\n${row.product.barcode}` : ''),
+        (grouping === 'LOCATION' ? row.product.category : row.lot.location) || '—',
+        formatDate(row.lot.expiryDate),
+        STATUS_LABELS[row.status],
+        daysLabel(row),
+        String(row.lot.quantity)
+      ]);
+    });
+  });
+
+  doc.setFontSize(16);
+  doc.text('Relatório de vencimentos', 14, 16);
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(`${subtitle} · por ${GROUPING_LABELS[grouping].toLowerCase()} · gerado em ${new Date().toLocaleString('pt-BR')}`, 14, 22);
+
+  autoTable(doc, {
+    startY: 27,
+    head: [['', 'Produto', otherColumn, 'Vence', 'Situação', 'Dias', 'Qtd']],
+    body: body.length > 0 ? body : [[{ content: 'Nenhum lote neste filtro.', colSpan: 7 }]],
+    styles: { fontSize: 9, cellPadding: 2, valign: 'middle' },
+    headStyles: { fillColor: [79, 70, 229] },
+    columnStyles: {
+      0: { cellWidth: 9 },
+      3: { cellWidth: 22 },
+      4: { cellWidth: 20 },
+      5: { cellWidth: 14, halign: 'right' },
+      6: { cellWidth: 12, halign: 'right' }
+    },
+    didParseCell: data => {
+      const status = statusByRow.get(data.row.index);
+      if (data.section === 'body' && data.column.index === 4 && status) {
+        data.cell.styles.textColor = STATUS_COLORS[status];
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+    didDrawCell: data => {
+      if (data.section !== 'body' || data.column.index !== 0 || headerRows.has(data.row.index) || body.length === 0) return;
+      const x = data.cell.x + (data.cell.width - CHECKBOX_SIZE) / 2;
+      const y = data.cell.y + (data.cell.height - CHECKBOX_SIZE) / 2;
+      doc.setDrawColor(100);
+      doc.rect(x, y, CHECKBOX_SIZE, CHECKBOX_SIZE);
+    }
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Página ${page} de ${pages}`, doc.internal.pageSize.getWidth() - 14, doc.internal.pageSize.getHeight() - 8, { align: 'right' });
+  }
+
+  doc.save(`relatorio_vencimentos_${toISODate()}.pdf`);
+};
@@ -0,0 +1,156 @@
+import { ExpirySettings, ExpiryStatus, Lot, Product } from '../types';
+import { getLotExpiry, normalizeCategoryKey } from './expiryRules';
+import { getActiveLots, getTotalQuantity, sortLotsFEFO } from './lots';
+
+/** Produto com apenas os lotes que passaram no filtro. */
+export interface ProductGroup {
+  product: Product;
+  lots: Lot[];
+}
+
+export interface ProductFilter {
+  term: string;
+  status: ExpiryStatus | 'ALL';
+  // Comparação sem diferenciar maiúsculas; '' seleciona os itens sem categoria/local
+  category?: string | null;
+  location?: string | null;
+  productIds?: string[] | null;
+  // Dias restantes até o vencimento, inclusive nas duas pontas
+  daysRange?: { min: number; max: number } | null;
+  // Datas ISO de vencimento, inclusivas; uma ponta vazia fica em aberto
+  expiryRange?: { from?: string; to?: string } | null;
+  // Quantidade total do produto, inclusive nas duas pontas
+  quantityRange?: { min?: number; max?: number } | null;
+}
+
+export type ProductSortKey = 'EXPIRY' | 'NAME' | 'CATEGORY' | 'QUANTITY' | 'CREATED';
+
+export interface ProductSort {
+  key: ProductSortKey;
+  descending: boolean;
+}
+
+export const DEFAULT_PRODUCT_SORT: ProductSort = { key: 'EXPIRY', descending: false };
+
+export const SORT_LABELS: Record<ProductSortKey, string> = {
+  EXPIRY: 'Dias restantes',
+  NAME: 'Nome',
+  CATEGORY: 'Categoria',
+  QUANTITY: 'Quantidade',
+  CREATED: 'Data de cadastro'
+};
+
+/** Valor de um filtro por categoria ou local; '' representa os itens sem nenhum. */
+export interface FacetOption {
+  value: string;
+  count: number; // produtos com o valor
+}
+
+/** Recorte vindo de fora da lista (notificação, gráfico), mostrado como um aviso removível. */
+export interface ListScope {
+  label: string;
+  filter: Pick<ProductFilter, 'productIds' | 'expiryRange'>;
+}
+
+export const EMPTY_PRODUCT_FILTER: ProductFilter = { term: '', status: 'ALL' };
+
+export const STATUS_LABELS: Record<ExpiryStatus, string> = {
+  [ExpiryStatus.EXPIRED]: 'Vencido',
+  [ExpiryStatus.CRITICAL]: 'Crítico',
+  [ExpiryStatus.WARNING]: 'Atenção',
+  [ExpiryStatus.SAFE]: 'Seguro'
+};
+
+/**
+ * Aplica busca e filtros lote a lote. Produtos sem saldo só aparecem quando
+ * nenhum filtro de vencimento está ativo, para consulta do histórico.
+ */
+export const filterProductGroups = (products: Product[], settings: ExpirySettings, filter: ProductFilter): ProductGroup[] => {
+  const term = filter.term.trim().toLowerCase();
+  const { status, productIds, daysRange, expiryRange, quantityRange, category, location } = filter;
+  const locationKey = location != null ? normalizeCategoryKey(location) : null;
+
+  return products.flatMap(p => {
+    if (productIds && !productIds.includes(p.id)) return [];
+    if (category != null && normalizeCategoryKey(p.category) !== normalizeCategoryKey(category)) return [];
+    if (quantityRange) {
+      const quantity = getTotalQuantity(p);
+      if (quantityRange.min != null && quantity < quantityRange.min) return [];
+      if (quantityRange.max != null && quantity > quantityRange.max) return [];
+    }
+
+    // Lógica de busca textual segura
+    const nameMatch = (p.name || '').toLowerCase().includes(term);
+    const categoryMatch = (p.category || '').toLowerCase().includes(term);
+    const barcodeMatch = (p.barcode || '').toLowerCase().includes(term);
+    const productMatch = !term || nameMatch || categoryMatch || barcodeMatch;
+
+    const activeLots = getActiveLots(p);
+    const lots = activeLots.filter(lot => {
+      const locationMatch = (lot.location || '').toLowerCase().includes(term);
+      const matchesSearch = productMatch || locationMatch;
+
+      const expiry = getLotExpiry(p, lot, settings);
+      const matchesStatus = status === 'ALL' || expiry.status === status;
+      const matchesDays = !daysRange || (expiry.daysRemaining >= daysRange.min && expiry.daysRemaining <= daysRange.max);
+      const matchesRange = !expiryRange || (
+        (!expiryRange.from || lot.expiryDate >= expiryRange.from) && (!expiryRange.to || lot.expiryDate <= expiryRange.to)
+      );
+      const matchesLocation = locationKey === null || normalizeCategoryKey(lot.location || '') === locationKey;
+
+      return matchesSearch && matchesStatus && matchesDays && matchesRange && matchesLocation;
+    });
+
+    if (lots.length > 0) return [{ product: p, lots: sortLotsFEFO(lots) }];
+    if (activeLots.length === 0 && status === 'ALL' && !daysRange && !expiryRange && locationKey === null && productMatch) return [{ product: p, lots: [] as Lot[] }];
+    return [];
+  });
+};
+
+const COMPARATORS: Record<ProductSortKey, (a: ProductGroup, b: ProductGroup) => number> = {
+  // Os lotes já vêm em FEFO: o primeiro é o que vence antes
+  EXPIRY: (a, b) => a.lots[0].expiryDate.localeCompare(b.lots[0].expiryDate),
+  NAME: (a, b) => a.product.name.localeCompare(b.product.name),
+  CATEGORY: (a, b) => (a.product.category || '').localeCompare(b.product.category || ''),
+  QUANTITY: (a, b) => getTotalQuantity(a.product) - getTotalQuantity(b.product),
+  CREATED: (a, b) => a.product.createdAt - b.product.createdAt
+};
+
+/**
+ * Ordena os grupos pelo critério escolhido, com o nome como desempate.
+ * Produtos sem saldo vão sempre para o fim, em qualquer direção.
+ */
+export const sortProductGroups = (groups: ProductGroup[], sort: ProductSort = DEFAULT_PRODUCT_SORT): ProductGroup[] => {
+  const direction = sort.descending ? -1 : 1;
+  return [...groups].sort((a, b) => {
+    if (a.lots.length === 0 || b.lots.length === 0) return b.lots.length - a.lots.length;
+    return direction * COMPARATORS[sort.key](a, b) || a.product.name.localeCompare(b.product.name);
+  });
+};
+
+/** Categorias e locais presentes no estoque, com quantos produtos têm cada um. */
+export const collectFacets = (products: Product[]): { categories: FacetOption[]; locations: FacetOption[] } => {
+  const tally = (map: Map<string, FacetOption>, raw: string | undefined) => {
+    const value = (raw || '').trim();
+    const key = normalizeCategoryKey(value);
+    const option = map.get(key);
+    if (option) option.count++;
+    else map.set(key, { value, count: 1 });
+  };
+  const categories = new Map<string, FacetOption>();
+  const locations = new Map<string, FacetOption>();
+  products.forEach(p => {
+    tally(categories, p.category);
+    // Um produto com vários lotes no mesmo local conta uma vez
+    const seen = new Set<string>();
+    getActiveLots(p).forEach(lot => {
+      const key = normalizeCategoryKey(lot.location || '');
+      if (!seen.has(key)) {
+        seen.add(key);
+        tally(locations, lot.location);
+      }
+    });
+  });
+  const sorted = (map: Map<string, FacetOption>) => [...map.values()].sort((a, b) => a.value.localeCompare(b.value));
+  return { categories: sorted(categories), locations: sorted(locations) };
+};
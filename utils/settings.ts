@@ -0,0 +1,67 @@
+import { AppSettings } from '../types';
+import { DEFAULT_EXPIRY_SETTINGS } from './expiryRules';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  expiry: DEFAULT_EXPIRY_SETTINGS,
+  sync: {
+    enabled: false,
+    serverUrl: 'http://localhost:8787',
+    token: ''
+  },
+  importMappings: {},
+  backup: {
+    autoSnapshots: false,
+    intervalHours: 24,
+    keep: 7
+  },
+  recognition: {
+    provider: 'GEMINI',
+    geminiModel: 'gemini-3-flash-preview'
+  },
+  notifications: {
+    enabled: false,
+    digestHour: 8,
+    quietHours: { start: 22, end: 7 },
+    categories: [],
+    itemAlerts: {}
+  },
+  savedViews: [],
+  trash: {
+    retentionDays: 30
+  }
+};
+
+/**
+ * Completa configurações salvas por versões anteriores com os valores padrão.
+ */
+export const mergeSettings = (saved: Partial<AppSettings> | null | undefined): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...saved,
+  expiry: {
+    ...DEFAULT_EXPIRY_SETTINGS,
+    ...saved?.expiry
+  },
+  sync: {
+    ...DEFAULT_SETTINGS.sync,
+    ...saved?.sync
+  },
+  importMappings: {
+    ...saved?.importMappings
+  },
+  backup: {
+    ...DEFAULT_SETTINGS.backup,
+    ...saved?.backup
+  },
+  recognition: {
+    ...DEFAULT_SETTINGS.recognition,
+    ...saved?.recognition
+  },
+  notifications: {
+    ...DEFAULT_SETTINGS.notifications,
+    ...saved?.notifications
+  },
+  trash: {
+    ...DEFAULT_SETTINGS.trash,
+    ...saved?.trash
+  }
+});
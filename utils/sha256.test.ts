@@ -0,0 +1,36 @@
+import { createHash } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { sha256Fallback, sha256Hex } from './sha256';
+
+const reference = (text: string) => createHash('sha256').update(text, 'utf8').digest('hex');
+const fallbackHex = (text: string) => Buffer.from(sha256Fallback(new TextEncoder().encode(text))).toString('hex');
+
+describe('sha256Fallback', () => {
+  it('confere com os vetores conhecidos', () => {
+    expect(fallbackHex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(fallbackHex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('confere com o Node nas bordas de bloco e em texto acentuado', () => {
+    // 55/56/64 bytes: limites em que o preenchimento muda de bloco
+    [55, 56, 63, 64, 65, 119, 1000].forEach(size => {
+      const text = 'x'.repeat(size);
+      expect(fallbackHex(text)).toBe(reference(text));
+    });
+    const text = JSON.stringify({ name: 'Feijão', category: 'Grãos', note: 'ç€😀' });
+    expect(fallbackHex(text)).toBe(reference(text));
+  });
+});
+
+describe('sha256Hex', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('usa a implementação própria sem crypto.subtle', async () => {
+    vi.stubGlobal('crypto', {});
+    expect(await sha256Hex('abc')).toBe(reference('abc'));
+  });
+
+  it('dá o mesmo resultado com a Web Crypto', async () => {
+    expect(await sha256Hex('abc')).toBe(reference('abc'));
+  });
+});
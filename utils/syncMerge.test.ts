@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SyncRecord, itemField, mergeRecords, parseItemField } from './syncMerge';
+
+const lot = (id: string, extra: Record<string, unknown> = {}) => ({ id, expiryDate: '2026-05-01', ...extra });
+const move = (id: string, lotId: string, quantity: number) => ({ id, lotId, type: 'RECEIVE', quantity, date: '2026-01-10' });
+
+const record = (values: Record<string, unknown>, at: number, by: string): SyncRecord => ({
+  id: 'p1',
+  values,
+  stamps: Object.fromEntries(Object.keys(values).map(field => [field, { at, by }]))
+});
+
+/** Campos de um registro com os mesmos carimbos de outro, mais os novos. */
+const edit = (base: SyncRecord, values: Record<string, unknown>, at: number, by: string): SyncRecord => ({
+  id: base.id,
+  values: { ...base.values, ...values },
+  stamps: { ...base.stamps, ...Object.fromEntries(Object.keys(values).map(field => [field, { at, by }])) }
+});
+
+const L1 = itemField('lots', 'l1');
+const M1 = itemField('movements', 'm1');
+const M2 = itemField('movements', 'm2');
+const M3 = itemField('movements', 'm3');
+
+describe('itemField / parseItemField', () => {
+  it('identifica os itens de lotes e lançamentos', () => {
+    expect(parseItemField(L1)).toEqual({ list: 'lots', id: 'l1' });
+    expect(parseItemField('movements/a/b')).toEqual({ list: 'movements', id: 'a/b' });
+    expect(parseItemField('name')).toBeNull();
+    expect(parseItemField('outros/x')).toBeNull();
+  });
+});
+
+describe('mergeRecords com itens', () => {
+  const base = record({ name: 'Leite', [L1]: lot('l1'), [M1]: move('m1', 'l1', 10) }, 100, 'A');
+
+  it('junta os lançamentos feitos em paralelo', () => {
+    const fromA = edit(base, { [M2]: move('m2', 'l1', -3) }, 200, 'A');
+    const fromB = edit(base, { [M3]: move('m3', 'l1', 5) }, 300, 'B');
+
+    const server = mergeRecords(mergeRecords(base, fromA).record, fromB).record;
+    expect(server.values[M2]).toEqual(move('m2', 'l1', -3));
+    expect(server.values[M3]).toEqual(move('m3', 'l1', 5));
+  });
+
+  it('a remoção de um item sobrevive à fusão com cópias antigas', () => {
+    const withM2 = edit(base, { [M2]: move('m2', 'l1', -3) }, 200, 'A');
+    // A desfaz o lançamento; B, sem saber, lança outro no mesmo produto
+    const undone = edit(withM2, { [M2]: null }, 300, 'A');
+    const fromB = edit(withM2, { [M3]: move('m3', 'l1', 5) }, 250, 'B');
+
+    const server = mergeRecords(mergeRecords(withM2, undone).record, fromB).record;
+    expect(server.values[M2]).toBeNull();
+    expect(server.values[M3]).toEqual(move('m3', 'l1', 5));
+
+    // A recebe de volta o registro do servidor: a lápide continua valendo
+    const { record: pulled } = mergeRecords(undone, server);
+    expect(pulled.values[M2]).toBeNull();
+    expect(pulled.values[M3]).toEqual(move('m3', 'l1', 5));
+
+    // E uma cópia antiga que chegue depois não ressuscita o item
+    expect(mergeRecords(server, withM2).record.values[M2]).toBeNull();
+  });
+
+  it('um lote removido não volta com edições antigas de outro dispositivo', () => {
+    const removed = edit(base, { [L1]: null }, 300, 'A');
+    const moved = edit(base, { [L1]: lot('l1', { location: 'Geladeira' }) }, 200, 'B');
+    expect(mergeRecords(removed, moved).record.values[L1]).toBeNull();
+    expect(mergeRecords(moved, removed).record.values[L1]).toBeNull();
+  });
+
+  it('edição mais nova do mesmo lote vence e gera conflito quando concorrente', () => {
+    const fromA = edit(base, { [L1]: lot('l1', { location: 'Depósito' }) }, 200, 'A');
+    const fromB = edit(base, { [L1]: lot('l1', { location: 'Geladeira' }) }, 300, 'B');
+    const { record: merged, conflicts } = mergeRecords(fromA, fromB, () => true);
+    expect(merged.values[L1]).toEqual(lot('l1', { location: 'Geladeira' }));
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ field: L1, loser: { value: lot('l1', { location: 'Depósito' }) } });
+  });
+
+  it('mantém o último a gravar para os demais campos', () => {
+    const older = record({ name: 'Leite integral' }, 200, 'B');
+    const newer = record({ name: 'Leite desnatado' }, 300, 'A');
+    expect(mergeRecords(newer, older).record.values.name).toBe('Leite desnatado');
+    expect(mergeRecords(older, newer).record.values.name).toBe('Leite desnatado');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Regras de fusão compartilhadas entre o app e o servidor de sincronização.
+ * Cada campo carrega seu próprio carimbo; o mais recente vence e, em empate,
+ * o id do dispositivo desempata, para que todos cheguem ao mesmo resultado.
+ */
+
+export interface FieldStamp {
+  at: number;   // epoch ms da edição
+  by: string;   // id do dispositivo que editou
+  seq?: number; // sequência do servidor em que o campo foi gravado
+}
+
+export interface SyncRecord {
+  id: string;
+  values: Record<string, unknown>;
+  stamps: Record<string, FieldStamp>;
+}
+
+export interface FieldConflict {
+  recordId: string;
+  field: string;
+  winner: { value: unknown; stamp: FieldStamp };
+  loser: { value: unknown; stamp: FieldStamp };
+}
+
+// Exclusão é tratada como um campo comum, com seu próprio carimbo
+export const DELETED_FIELD = '_deleted';
+
+export const compareStamps = (a: FieldStamp, b: FieldStamp): number => {
+  if (a.at !== b.at) return a.at - b.at;
+  return a.by.localeCompare(b.by);
+};
+
+export const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Listas de itens com `id` (lotes e lançamentos do livro). Cada item viaja
+ * como um campo próprio, "lots/<id>", com seu carimbo: edições e inclusões em
+ * dispositivos diferentes não se sobrepõem, e um item removido vira `null`
+ * (lápide), que vence as cópias mais antigas como qualquer outro valor.
+ */
+export const ITEM_LIST_FIELDS = ['lots', 'movements'] as const;
+export type ItemListField = typeof ITEM_LIST_FIELDS[number];
+
+export const itemField = (list: ItemListField, id: string) => `${list}/${id}`;
+
+export const parseItemField = (field: string): { list: ItemListField; id: string } | null => {
+  const slash = field.indexOf('/');
+  const list = field.slice(0, slash) as ItemListField;
+  return slash > 0 && ITEM_LIST_FIELDS.includes(list) ? { list, id: field.slice(slash + 1) } : null;
+};
+
+/**
+ * Funde `incoming` sobre `base`, campo a campo.
+ * `isConcurrent` decide se uma divergência deve ser reportada como conflito.
+ */
+export const mergeRecords = (
+  base: SyncRecord | undefined,
+  incoming: SyncRecord,
+  isConcurrent: (baseStamp: FieldStamp, incomingStamp: FieldStamp) => boolean = () => false
+): { record: SyncRecord; conflicts: FieldConflict[]; changedFields: string[] } => {
+  if (!base) {
+    return { record: incoming, conflicts: [], changedFields: Object.keys(incoming.stamps) };
+  }
+
+  const record: SyncRecord = { id: base.id, values: { ...base.values }, stamps: { ...base.stamps } };
+  const conflicts: FieldConflict[] = [];
+  const changedFields: string[] = [];
+
+  Object.entries(incoming.stamps).forEach(([field, incomingStamp]) => {
+    const baseStamp = base.stamps[field];
+    const incomingValue = incoming.values[field];
+
+    if (!baseStamp) {
+      record.values[field] = incomingValue;
+      record.stamps[field] = incomingStamp;
+      changedFields.push(field);
+      return;
+    }
+
+    const order = compareStamps(incomingStamp, baseStamp);
+    if (order === 0) return;
+
+    const incomingWins = order > 0;
+    const baseValue = base.values[field];
+    if (!sameValue(baseValue, incomingValue) && baseStamp.by !== incomingStamp.by && isConcurrent(baseStamp, incomingStamp)) {
+      const baseSide = { value: baseValue, stamp: baseStamp };
+      const incomingSide = { value: incomingValue, stamp: incomingStamp };
+      conflicts.push({
+        recordId: base.id,
+        field,
+        winner: incomingWins ? incomingSide : baseSide,
+        loser: incomingWins ? baseSide : incomingSide
+      });
+    }
+
+    if (incomingWins) {
+      record.values[field] = incomingValue;
+      record.stamps[field] = incomingStamp;
+      changedFields.push(field);
+    }
+  });
+
+  return { record, conflicts, changedFields };
+};
+
+export interface SyncRequest {
+  deviceId: string;
+  since: number;
+  records: SyncRecord[];
+}
+
+export interface SyncResponse {
+  cursor: number;
+  records: SyncRecord[];
+  conflicts: FieldConflict[];
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { captureUndo, restoreProducts } from './undo';
+import { productFromEntry } from './lots';
+
+const leite = productFromEntry({ name: 'Leite', category: 'Laticínios', expiryDate: '2026-05-01', quantity: 5 });
+const arroz = productFromEntry({ name: 'Arroz', category: 'Grãos', expiryDate: '2026-09-01', quantity: 2 });
+const cafe = productFromEntry({ name: 'Café', category: 'Bebidas', expiryDate: '2026-07-01', quantity: 1 });
+
+describe('captureUndo', () => {
+  it('guarda só os produtos alterados, sem nada para a lixeira', () => {
+    const edited = { ...leite, name: 'Leite integral' };
+    const entry = captureUndo('Editado', [leite, arroz], [edited, arroz]);
+    expect(entry.before).toEqual([leite]);
+    expect(entry.createdIds).toEqual([]);
+    expect(entry.trashedIds).toEqual([]);
+  });
+
+  it('registra os excluídos e os criados', () => {
+    const entry = captureUndo('Importação', [leite, arroz], [arroz, cafe]);
+    expect(entry.before).toEqual([leite]);
+    expect(entry.createdIds).toEqual([cafe.id]);
+    expect(entry.trashedIds).toEqual([leite.id]);
+  });
+});
+
+describe('restoreProducts', () => {
+  it('volta edições, traz de volta os excluídos e tira os criados', () => {
+    const edited = { ...arroz, name: 'Arroz integral' };
+    const next = [edited, cafe];
+    const entry = captureUndo('Lote', [leite, arroz], next);
+    expect(restoreProducts(next, entry)).toEqual([arroz, leite]);
+  });
+
+  it('preserva o que mudou depois em outros produtos', () => {
+    const entry = captureUndo('Excluído', [leite, arroz], [arroz]);
+    const later = { ...arroz, name: 'Arroz parboilizado' };
+    expect(restoreProducts([later], entry)).toEqual([later, leite]);
+  });
+});
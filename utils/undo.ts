@@ -0,0 +1,35 @@
+import { Product } from '../types';
+
+/** Estado anterior de uma alteração, para desfazer em um passo só. */
+export interface UndoEntry {
+  label: string;
+  before: Product[];      // versões anteriores dos produtos alterados ou excluídos
+  createdIds: string[];   // produtos que a alteração criou
+  trashedIds: string[];   // produtos que a alteração mandou para a lixeira
+}
+
+/**
+ * Compara a lista antes e depois de uma alteração e guarda só o necessário
+ * para voltar: os produtos que mudaram ou sumiram e os ids dos que surgiram.
+ */
+export const captureUndo = (label: string, prev: Product[], next: Product[]): UndoEntry => {
+  const nextById = new Map(next.map(p => [p.id, p]));
+  const prevIds = new Set(prev.map(p => p.id));
+  return {
+    label,
+    before: prev.filter(p => nextById.get(p.id) !== p),
+    createdIds: next.filter(p => !prevIds.has(p.id)).map(p => p.id),
+    trashedIds: prev.filter(p => !nextById.has(p.id)).map(p => p.id)
+  };
+};
+
+/** Volta os produtos ao estado guardado, inclusive os excluídos, e remove os criados. */
+export const restoreProducts = (products: Product[], entry: UndoEntry): Product[] => {
+  const before = new Map(entry.before.map(p => [p.id, p]));
+  const created = new Set(entry.createdIds);
+  const restored = products
+    .filter(p => !created.has(p.id))
+    .map(p => before.get(p.id) || p);
+  const present = new Set(restored.map(p => p.id));
+  return [...restored, ...entry.before.filter(p => !present.has(p.id))];
+};
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,41 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // O sw.ts é nosso (notificações, fila offline); o plugin só injeta a lista de arquivos do build
+        VitePWA({
+          strategies: 'injectManifest',
+          srcDir: '.',
+          filename: 'sw.ts',
+          registerType: 'prompt',
+          injectRegister: false,
+          manifest: {
+            name: 'Controle de Vencimentos',
+            short_name: 'Vencimentos',
+            description: 'Controle de vencimentos do estoque',
+            lang: 'pt-BR',
+            start_url: '/',
+            display: 'standalone',
+            background_color: '#f8fafc',
+            theme_color: '#4f46e5',
+            icons: [
+              { src: 'icon-192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+            ]
+          },
+          injectManifest: {
+            // Inclui fontes, o leitor de códigos (wasm) e o OCR com o idioma, para funcionar sem internet
+            globPatterns: ['**/*.{js,css,html,png,wasm,gz,woff2}'],
+            maximumFileSizeToCacheInBytes: 30 * 1024 * 1024
+          },
+          devOptions: {
+            enabled: true,
+            type: 'module'
+          }
+        })
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)